@@ -4,9 +4,125 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CallToolRequest,
+  ReadResourceRequest,
+  GetPromptRequest,
+  ServerRequest,
+  ServerNotification,
+  ErrorCode,
+  McpError,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import fetch from "node-fetch";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { TwelveLabsClient } from "./src/client.js";
+import {
+  ApiCreated,
+  ApiEmbedResponse,
+  ApiEmbedTask,
+  ApiGenerateResponse,
+  ApiGistResponse,
+  ApiIndex,
+  ApiPage,
+  ApiPageInfo,
+  ApiSearchClip,
+  ApiSearchHit,
+  ApiSummarizeResponse,
+  ApiTask,
+  ApiUsage,
+  ApiVideo
+} from "./src/apiTypes.js";
+import { TwelveLabsError, ValidationError, NotFoundError, AuthenticationError, BudgetExceededError } from "./src/errors.js";
+import {
+  resolveLocalVideoFile,
+  createMultipartFileBody,
+  resolveLocalImageFile,
+  resolveLocalAudioFile,
+  decodeBase64Image,
+  LocalFile,
+  DATA_DIR,
+  restrictReadsToDataDir,
+  MAX_UPLOAD_BYTES,
+  SUPPORTED_VIDEO_EXTENSIONS,
+  SUPPORTED_IMAGE_TYPES,
+  SUPPORTED_AUDIO_TYPES
+} from "./src/upload.js";
+import {
+  EMBEDDING_MODEL,
+  EmbeddingRecord,
+  normalizeEmbeddingSegments,
+  packageEmbeddings
+} from "./src/embeddings.js";
+import { readFile } from "node:fs/promises";
+import {
+  loadIndexPresets,
+  validateIndexConfiguration,
+  SUPPORTED_MODELS,
+  SUPPORTED_ADDONS,
+  IndexModel,
+  IndexAddon
+} from "./src/indexModels.js";
+import { createTaskSubscriptionManager } from "./src/taskSubscriptions.js";
+import { loadPromptTemplates, buildPromptToolCall } from "./src/prompts.js";
+import { TOOL_OUTPUT_SCHEMAS, renderToolText } from "./src/toolOutputs.js";
+import { validateToolArguments } from "./src/validation.js";
+import { loadServerConfig, resolveEnabledTools, ServerConfig } from "./src/config.js";
+import { logger, setLogLevel } from "./src/logger.js";
+import { createResultCacheFromConfig, resultCacheKey, ResultCacheKeyParts } from "./src/resultCache.js";
+import {
+  createUsageLedgerFromConfig,
+  tokensFromUsage,
+  UsageRecord,
+  UsageMetric,
+  UsageGroupBy,
+  UsageWindow
+} from "./src/usageLedger.js";
+import {
+  normalizeTimeline,
+  renderTimeline,
+  writeTimelineFile,
+  TIMELINE_FORMATS,
+  SUPPORTED_FRAME_RATES,
+  DEFAULT_FRAME_RATE,
+  TimelineFormat,
+  TimelineKind,
+  OverlapMode
+} from "./src/timeline.js";
+import {
+  readManifest,
+  loadBatchState,
+  resolveBatchStatePath,
+  createBatchStateWriter,
+  runWithConcurrency,
+  MANIFEST_FORMATS,
+  ManifestFormat,
+  ManifestItem,
+  BatchItemState
+} from "./src/batchUpload.js";
+import {
+  DESTRUCTIVE_TOOLS,
+  DeletionTarget,
+  createConfirmationStore,
+  createProtectedIndexGuard,
+  namePatternToRegExp
+} from "./src/guardrails.js";
+import { startHttpServer, DEFAULT_HTTP_PORT, DEFAULT_HTTP_HOST } from "./src/httpServer.js";
+import {
+  ApiCredentials,
+  loadApiKeyProfiles,
+  resolveApiKey,
+  credentialsFromAuthInfo,
+  verifyProfileAccess
+} from "./src/credentials.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { realpathSync } from "node:fs";
+import { fileURLToPath } from "node:url";
 
 /**
  * 이 MCP 서버는 TwelveLabs API를 호출하기 위한 예시입니다.
@@ -15,59 +131,225 @@ import fetch from "node-fetch";
  *
  * 기능:
  *  1) create_index       - 인덱스 생성
- *  2) upload_videos      - 영상(YouTube URL) 업로드
- *  3) search_videos      - 텍스트 기반 검색
+ *  2) upload_videos      - 영상(URL 또는 로컬 파일) 업로드
+ *     batch_upload_videos - 매니페스트(CSV/JSON/JSONL)로 일괄 업로드 (상태 파일로 재실행 시 이어서 진행)
+ *  3) search_videos      - 텍스트/이미지 기반 검색
  *  4) generate_text      - 특정 영상으로부터 텍스트(자막, 요약 등) 생성
+ *
+ * 리소스 (twelvelabs://):
+ *  - indexes, indexes/{indexId}, indexes/{indexId}/videos, indexes/{indexId}/videos/{videoId}
+ *  - tasks, tasks/{taskId} (구독 시 상태 변경마다 resources/updated 알림)
+ *
+ * 결과 캐시: generate_text, generate_gist, generate_summary 결과를 영상/프롬프트별로 캐시 (clear_cache로 비우기)
+ * 타임라인 내보내기: 챕터/하이라이트를 WebVTT, SRT, EDL, YouTube 챕터, OTIO JSON으로 변환 (export_timeline)
+ * 사용량 기록: 생성 토큰, 인덱싱된 영상 길이, 검색 수를 세션/API 키별로 집계 (get_usage_report, 예산 초과 시 호출 거부)
+ * 삭제 안전장치: delete_* 도구는 미리보기 + 확인 토큰의 2단계로 삭제하고, 보호 인덱스는 삭제 거부 (설정의 guardrails)
+ *
+ * 프롬프트: 회의록, 광고 심의, 스포츠 중계, 강의 노트, 안전 사고 보고서 등 분석 템플릿
+ *          (설정의 promptsDir 또는 TWELVELABS_PROMPTS_DIR의 JSON 파일로 추가 가능)
+ *
+ * 전송 방식: stdio(기본) 또는 http (--transport http 또는 MCP_TRANSPORT=http)
+ *  - http 모드는 /mcp (Streamable HTTP), /sse + /messages (SSE 호환), /health 를 제공
  */
 
-// MCP 서버 생성
-const server = new Server(
-  {
-    name: "mcp-server-twelvelabs",
-    version: "1.0.25",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+// 요청 핸들러에 전달되는 부가 정보 (취소 신호, 세션으로 알림 전송 등)
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// 명령줄 옵션 값 (--name value 또는 --name=value)
+function cliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].substring(name.length + 3);
   }
-);
+  return undefined;
+}
 
-// API Key 체크
-const TWELVELABS_API_KEY = process.env.TWELVELABS_API_KEY || "";
-if (!TWELVELABS_API_KEY || TWELVELABS_API_KEY === "") {
-  console.error("Error: TWELVELABS_API_KEY environment variable is required.");
+// 서버 설정 (--config/TWELVELABS_CONFIG 파일, --profile/TWELVELABS_CONFIG_PROFILE 프로필, 환경 변수 순으로 적용)
+let CONFIG: ServerConfig;
+try {
+  CONFIG = loadServerConfig({ file: cliOption("config"), profile: cliOption("profile") });
+} catch (e) {
+  logger.error(`Error: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+}
+setLogLevel(CONFIG.logLevel);
+if (CONFIG.source !== "environment") {
+  logger.info(`설정 로드 완료: ${CONFIG.source}${CONFIG.profile ? ` (프로필 ${CONFIG.profile})` : ""}`);
+}
+
+// 전송 방식과 HTTP 포트 (명령줄 옵션이 환경 변수보다 우선)
+const TRANSPORT = (cliOption("transport") ?? process.env.MCP_TRANSPORT ?? "stdio").toLowerCase();
+if (TRANSPORT !== "stdio" && TRANSPORT !== "http") {
+  logger.error(`Error: unsupported transport "${TRANSPORT}" (supported: stdio, http)`);
+  process.exit(1);
+}
+const HTTP_PORT = Number(cliOption("port") ?? process.env.MCP_PORT ?? process.env.PORT ?? DEFAULT_HTTP_PORT);
+if (!Number.isInteger(HTTP_PORT) || HTTP_PORT < 0 || HTTP_PORT > 65535) {
+  logger.error(`Error: invalid HTTP port "${cliOption("port") ?? process.env.MCP_PORT ?? process.env.PORT}"`);
   process.exit(1);
 }
+const HTTP_HOST = cliOption("host") ?? process.env.MCP_HOST ?? DEFAULT_HTTP_HOST;
 
-// TwelveLabs API base URL 예시
-const BASE_URL = "https://api.twelvelabs.io/v1.3";
+// HTTP 모드에서는 업로드/매니페스트 등 읽는 파일도 데이터 디렉터리 안으로 제한
+if (TRANSPORT === "http") {
+  restrictReadsToDataDir();
+}
 
+// 기본 API 키. stdio에서 세션이 키나 프로필을 보내지 않으면 사용
+// HTTP 모드에서는 누구나 이 키로 호출할 수 없도록 사용하지 않고, 세션마다 키(또는 프로필과 접근 토큰)를 요구
+const TWELVELABS_API_KEY = process.env.TWELVELABS_API_KEY || "";
 
-const models: { model_name: "pegasus1.2" | "marengo2.7"; model_options: ("visual" | "audio")[]; }[] = [
-  {
-    model_name: "marengo2.7", // 문서 기반으로 모델 변경 (marengo2.7이 검색용)
-    model_options: ["visual", "audio"],
-  },
-  {
-    model_name: "pegasus1.2", // 문서 기반으로 모델 변경 (pegasus1.2가 텍스트 생성용)
-    model_options: ["visual", "audio"],
-  },
-];
+// 이름 있는 API 키 프로필 (설정의 apiKeyProfiles, TWELVELABS_API_KEY_PROFILES)
+const API_KEY_PROFILES = loadApiKeyProfiles(CONFIG.apiKeyProfiles);
+
+if (TRANSPORT === "http" && TWELVELABS_API_KEY) {
+  logger.warn(
+    "Warning: TWELVELABS_API_KEY is ignored in HTTP mode. Each session must send its own API key, " +
+    "or a profile from apiKeyProfiles (TWELVELABS_API_KEY_PROFILES) with that profile's access token."
+  );
+} else if (!TWELVELABS_API_KEY && API_KEY_PROFILES.size === 0) {
+  logger.warn(
+    "Warning: TWELVELABS_API_KEY is not set. Each session must provide its own API key " +
+    "(HTTP header or initialize option)."
+  );
+}
+
+// API 주소, 타임아웃, 재시도 정책 (설정 파일의 baseUrl/timeouts/retry, 환경 변수로 덮어쓰기 가능)
+function createApiClient(apiKey: string) {
+  return new TwelveLabsClient({
+    baseUrl: CONFIG.baseUrl,
+    apiKey,
+    timeoutMs: CONFIG.timeouts.requestMs,
+    maxRetries: CONFIG.retry.maxRetries,
+    retryBaseDelayMs: CONFIG.retry.baseDelayMs,
+    retryMaxDelayMs: CONFIG.retry.maxDelayMs
+  });
+}
+
+// 현재 요청이 사용할 클라이언트를 돌려주는 함수. 요청 핸들러마다 세션/요청의 API 키로 설정되어
+// 다른 세션의 키가 섞이지 않음
+const apiContext = new AsyncLocalStorage<() => TwelveLabsClient>();
+
+function api(): TwelveLabsClient {
+  const getClient = apiContext.getStore();
+  if (!getClient) {
+    throw new Error("TwelveLabs API client is not available outside of a request handler");
+  }
+  return getClient();
+}
+
+// 파일 업로드 요청의 타임아웃 (기본 30분, timeouts.uploadMs)
+const UPLOAD_TIMEOUT_MS = CONFIG.timeouts.uploadMs;
+
+
+// 인덱스 생성 프리셋 (기본 프리셋 + 설정의 indexPresets)
+const INDEX_PRESETS = loadIndexPresets(CONFIG.indexPresets);
+
+// 비디오 분석 프롬프트 템플릿 (기본 템플릿 + 설정의 promptsDir 디렉터리)
+const PROMPT_TEMPLATES = loadPromptTemplates(CONFIG.promptsDir);
+
+// generate/gist/summarize 결과 캐시 (설정의 cache 항목). 키에 API 키 해시가 포함되어 세션 간에 공유해도 계정별로 나뉨
+const RESULT_CACHE = createResultCacheFromConfig(DATA_DIR, CONFIG.cache);
+
+// 사용량 기록과 예산 (설정의 usage 항목)
+const USAGE_LEDGER = createUsageLedgerFromConfig(DATA_DIR, CONFIG.usage);
+
+// 삭제 도구 확인 토큰과 보호 인덱스 (설정의 guardrails 항목)
+const CONFIRMATIONS = createConfirmationStore(CONFIG.guardrails.confirmationTtlSec);
+const checkProtectedIndex = createProtectedIndexGuard(CONFIG.guardrails.protectedIndexes);
+
+// 사용량을 기록할 때 쓰는 현재 도구 호출 정보 (CallTool 핸들러마다 설정)
+const usageContext = new AsyncLocalStorage<{ tool: string; session: string }>();
+
+// 예산을 확인하는 도구와 지표. 한도에 도달하면 API를 호출하지 않고 거부
+const TOOL_USAGE_METRICS: Record<string, UsageMetric> = {
+  generate_text: "tokens",
+  generate_gist: "tokens",
+  generate_summary: "tokens",
+  upload_videos: "indexedMinutes",
+  batch_upload_videos: "indexedMinutes",
+  search_videos: "searches"
+};
+
+// wait_for_task 폴링 설정 (초 단위)
+const DEFAULT_TASK_WAIT_TIMEOUT_SEC = 900;
+const MAX_TASK_WAIT_TIMEOUT_SEC = 3600;
+const DEFAULT_TASK_POLL_INTERVAL_SEC = 5;
+const MAX_TASK_POLL_INTERVAL_SEC = 30;
+
+// batch_upload_videos 동시 업로드 수
+const DEFAULT_BATCH_CONCURRENCY = 3;
+const MAX_BATCH_CONCURRENCY = 10;
+
+// 검색 자동 페이지 수집 한도
+const MAX_SEARCH_PAGES = 50;
+const DEFAULT_MAX_SEARCH_CLIPS = 500;
+const MAX_SEARCH_CLIPS = 2000;
+
+// 여러 인덱스 동시 검색 한도
+const MAX_FEDERATED_INDEXES = 20;
+const FEDERATED_SEARCH_CONCURRENCY = 4;
+
+// 삭제 도구 공통 인자와 설명 (미리보기, 2단계 확인)
+const DELETION_GUARD_PROPERTIES = {
+  dryRun: { type: "boolean", description: "Only show what would be deleted (index name, video count, ...) without deleting anything" },
+  confirmationToken: { type: "string", description: "confirmationToken returned by the preview call. Required to actually delete" }
+};
+const DELETION_GUARD_NOTE =
+  (CONFIG.guardrails.requireConfirmation
+    ? "Deleting takes two calls: the first call only returns a preview of what would be deleted and a confirmationToken " +
+      `(valid for ${CONFIG.guardrails.confirmationTtlSec} seconds); call again with the same arguments and that confirmationToken to delete. `
+    : "Set dryRun to preview what would be deleted. ") +
+  (CONFIG.guardrails.protectedIndexes.length > 0 ? "Protected indexes, their videos and tasks cannot be deleted. " : "");
 
 // 도구 목록
 const CREATE_INDEX_TOOL: Tool = {
   name: "create_index",
   description:
     "Creates a new index in TwelveLabs. Useful before uploading videos or performing searches. " +
-    "Input: { indexName: string }",
+    "By default the index uses " +
+    CONFIG.defaults.indexModels.map((m) => `${m.model_name} (${m.model_options.join(", ")})`).join(" and ") +
+    (CONFIG.defaults.indexAddons.length > 0 ? ` with the ${CONFIG.defaults.indexAddons.join(", ")} addon. ` : " without addons. ") +
+    "Use a preset or explicit models/addons for search-only, generate-only or visual-only indexes. " +
+    "Input: { indexName: string; preset?: string; models?: { modelName: string; modelOptions: string[] }[]; addons?: string[] } " +
+    "Presets: " + Object.entries(INDEX_PRESETS).map(([name, preset]) => `'${name}'${preset.description ? ` (${preset.description})` : ""}`).join(", ") + ". " +
+    "Explicit models or addons override the corresponding part of the preset.",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       indexName: { type: "string", description: "Name of the new index" },
+      preset: {
+        type: "string",
+        enum: Object.keys(INDEX_PRESETS),
+        description: "Named engine preset from the server configuration"
+      },
+      models: {
+        type: "array",
+        description: "Video understanding models to enable with their options",
+        items: {
+          type: "object",
+          properties: {
+            modelName: { type: "string", enum: Object.keys(SUPPORTED_MODELS), description: "Model name" },
+            modelOptions: {
+              type: "array",
+              items: { type: "string", enum: ["visual", "audio"] },
+              description: "Modalities the model processes"
+            }
+          },
+          required: ["modelName", "modelOptions"]
+        }
+      },
+      addons: {
+        type: "array",
+        items: { type: "string", enum: SUPPORTED_ADDONS },
+        description: "Index addons (use an empty array for none)"
+      }
     },
     required: ["indexName"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.create_index
 };
 
 const LIST_INDEXES_TOOL: Tool = {
@@ -77,9 +359,10 @@ const LIST_INDEXES_TOOL: Tool = {
     "Input: { page?: number; pageLimit?: number; sortBy?: string; sortOption?: string; indexName?: string }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      page: { type: "number", description: "Page number (default: 1)" },
-      pageLimit: { type: "number", description: "Number of items per page (default: 10, max: 50)" },
+      page: { type: "integer", minimum: 1, description: "Page number (default: 1)" },
+      pageLimit: { type: "integer", minimum: 1, maximum: 50, description: "Number of items per page (default: 10, max: 50)" },
       sortBy: { 
         type: "string", 
         description: "Field to sort by (created_at or updated_at)",
@@ -92,21 +375,24 @@ const LIST_INDEXES_TOOL: Tool = {
       },
       indexName: { type: "string", description: "Filter by index name" }
     }
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.list_indexes
 };
 
 const GET_INDEX_TOOL: Tool = {
   name: "get_index",
   description:
-    "Retrieves details of a specific index. " +
-    "Input: { indexName: string }",
+    "Retrieves details of a specific index: its models, add-ons, video count and total indexed duration. " +
+    "Input: { indexId: string }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      indexName: { type: "string", description: "Name of the index to retrieve" }
+      indexId: { type: "string", description: "ID of the index to retrieve" }
     },
-    required: ["indexName"]
-  }
+    required: ["indexId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.get_index
 };
 
 const UPDATE_INDEX_TOOL: Tool = {
@@ -116,26 +402,124 @@ const UPDATE_INDEX_TOOL: Tool = {
     "Input: { indexId: string; indexName: string }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       indexId: { type: "string", description: "ID of the index to update" },
       indexName: { type: "string", description: "New name for the index" }
     },
     required: ["indexId", "indexName"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.update_index
 };
 
 const DELETE_INDEX_TOOL: Tool = {
   name: "delete_index",
   description:
     "Deletes a specific index and all videos within it. This action cannot be undone. " +
-    "Input: { indexId: string }",
+    DELETION_GUARD_NOTE +
+    "Input: { indexId: string; dryRun?: boolean; confirmationToken?: string }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      indexId: { type: "string", description: "ID of the index to delete" }
+      indexId: { type: "string", description: "ID of the index to delete" },
+      ...DELETION_GUARD_PROPERTIES
     },
     required: ["indexId"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.delete_index
+};
+
+const LIST_VIDEOS_TOOL: Tool = {
+  name: "list_videos",
+  description:
+    "Lists the videos in a specific index. " +
+    "Input: { indexId: string; page?: number; pageLimit?: number; sortBy?: string; sortOption?: string; filename?: string; duration?: number; createdAt?: string; updatedAt?: string }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      indexId: { type: "string", description: "ID of the index" },
+      page: { type: "integer", minimum: 1, description: "Page number (default: 1)" },
+      pageLimit: { type: "integer", minimum: 1, maximum: 50, description: "Number of items per page (default: 10, max: 50)" },
+      sortBy: { 
+        type: "string", 
+        description: "Field to sort by (created_at or updated_at)",
+        enum: ["created_at", "updated_at"] 
+      },
+      sortOption: { 
+        type: "string", 
+        description: "Sort direction (asc or desc)",
+        enum: ["asc", "desc"] 
+      },
+      filename: { type: "string", description: "Filter by video filename" },
+      duration: { type: "number", minimum: 0, description: "Filter by video duration in seconds" },
+      createdAt: { type: "string", description: "Filter by creation date (RFC 3339, e.g. 2024-01-01T00:00:00Z)" },
+      updatedAt: { type: "string", description: "Filter by last update date (RFC 3339)" }
+    },
+    required: ["indexId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.list_videos
+};
+
+const GET_VIDEO_TOOL: Tool = {
+  name: "get_video",
+  description:
+    "Retrieves details of a specific video in an index, including its duration, filename, resolution, HLS streaming URL, thumbnails and user metadata. " +
+    "Input: { indexId: string; videoId: string; includeTranscription?: boolean }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      indexId: { type: "string", description: "ID of the index containing the video" },
+      videoId: { type: "string", description: "ID of the video to retrieve" },
+      includeTranscription: { type: "boolean", description: "Include the video transcription (default: false)" }
+    },
+    required: ["indexId", "videoId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.get_video
+};
+
+const UPDATE_VIDEO_METADATA_TOOL: Tool = {
+  name: "update_video_metadata",
+  description:
+    "Sets custom user metadata on a specific video. Keys are merged with the existing metadata; set a key to null to remove it. " +
+    "Values must be strings, numbers or booleans. " +
+    "Input: { indexId: string; videoId: string; userMetadata: object }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      indexId: { type: "string", description: "ID of the index containing the video" },
+      videoId: { type: "string", description: "ID of the video to update" },
+      userMetadata: {
+        type: "object",
+        description: "Custom metadata key-value pairs (e.g. { \"category\": \"recording\", \"priority\": 1 })",
+        additionalProperties: { type: ["string", "number", "boolean", "null"] }
+      }
+    },
+    required: ["indexId", "videoId", "userMetadata"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.update_video_metadata
+};
+
+const DELETE_VIDEO_TOOL: Tool = {
+  name: "delete_video",
+  description:
+    "Deletes a single video from an index, including its embeddings. The index and its other videos are kept. This action cannot be undone. " +
+    DELETION_GUARD_NOTE +
+    "Input: { indexId: string; videoId: string; dryRun?: boolean; confirmationToken?: string }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      indexId: { type: "string", description: "ID of the index containing the video" },
+      videoId: { type: "string", description: "ID of the video to delete" },
+      ...DELETION_GUARD_PROPERTIES
+    },
+    required: ["indexId", "videoId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.delete_video
 };
 
 const LIST_TASKS_TOOL: Tool = {
@@ -145,9 +529,10 @@ const LIST_TASKS_TOOL: Tool = {
     "Input: { page?: number; pageLimit?: number; sortBy?: string; sortOption?: string; indexId?: string; status?: string[] }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      page: { type: "number", description: "Page number (default: 1)" },
-      pageLimit: { type: "number", description: "Number of items per page (default: 10, max: 50)" },
+      page: { type: "integer", minimum: 1, description: "Page number (default: 1)" },
+      pageLimit: { type: "integer", minimum: 1, maximum: 50, description: "Number of items per page (default: 10, max: 50)" },
       sortBy: { 
         type: "string", 
         description: "Field to sort by (created_at or updated_at)",
@@ -168,7 +553,8 @@ const LIST_TASKS_TOOL: Tool = {
         description: "Filter by task status" 
       }
     }
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.list_tasks
 };
 
 const GET_TASK_TOOL: Tool = {
@@ -178,69 +564,259 @@ const GET_TASK_TOOL: Tool = {
     "Input: { taskId: string }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       taskId: { type: "string", description: "ID of the task to retrieve" }
     },
     required: ["taskId"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.get_task
+};
+
+const WAIT_FOR_TASK_TOOL: Tool = {
+  name: "wait_for_task",
+  description:
+    "Waits until one or more video indexing tasks are ready or failed, polling with backoff. " +
+    "Use this after upload_videos instead of calling get_task repeatedly, and before generate_text on a new video. " +
+    "Returns the final task and video_id for each task; tasks still running at the timeout are reported as pending. " +
+    "Input: { taskId?: string; taskIds?: string[]; timeoutSec?: number; pollIntervalSec?: number }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      taskId: { type: "string", description: "ID of the task to wait for" },
+      taskIds: { type: "array", items: { type: "string" }, description: "IDs of several tasks to wait for" },
+      timeoutSec: {
+        type: "number",
+        minimum: 1,
+        maximum: MAX_TASK_WAIT_TIMEOUT_SEC,
+        description: `Maximum seconds to wait (default: ${DEFAULT_TASK_WAIT_TIMEOUT_SEC}, max: ${MAX_TASK_WAIT_TIMEOUT_SEC})`
+      },
+      pollIntervalSec: {
+        type: "number",
+        minimum: 1,
+        maximum: MAX_TASK_POLL_INTERVAL_SEC,
+        description: `Initial polling interval in seconds, increased with backoff up to ${MAX_TASK_POLL_INTERVAL_SEC} (default: ${DEFAULT_TASK_POLL_INTERVAL_SEC})`
+      }
+    }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.wait_for_task
 };
 
 const DELETE_TASK_TOOL: Tool = {
   name: "delete_task",
   description:
     "Deletes a specific video indexing task. You can only delete tasks with status 'ready' or 'failed'. " +
-    "Input: { taskId: string }",
+    DELETION_GUARD_NOTE +
+    "Input: { taskId: string; dryRun?: boolean; confirmationToken?: string }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      taskId: { type: "string", description: "ID of the task to delete" }
+      taskId: { type: "string", description: "ID of the task to delete" },
+      ...DELETION_GUARD_PROPERTIES
     },
     required: ["taskId"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.delete_task
 };
 
 const UPLOAD_VIDEOS_TOOL: Tool = {
   name: "upload_videos",
   description:
     "Uploads videos to an existing TwelveLabs index from direct URLs or local file paths. " +
-    "Input: { indexId: string; url?: string; filePath?: string; enableVideoStream?: boolean } " +
+    "Set waitUntilReady to wait until indexing finishes (see wait_for_task) before returning. " +
+    "Input: { indexId: string; url?: string; filePath?: string; enableVideoStream?: boolean; waitUntilReady?: boolean; timeoutSec?: number } " +
     "S3에서 업로드된 비디오 URL(https://<bucket>.s3.<region>.amazonaws.com/<filename>.mp4 형식)도 사용 가능합니다.",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       indexId: { type: "string", description: "Target index ID" },
       url: { type: "string", description: "Direct URL to the raw video file (must be a direct file URL like .mp4, .mov, etc. - NOT supported: YouTube, Vimeo or other video platform URLs). S3 URLs from upload_videos_s3 tool are supported: https://<bucket>.s3.<region>.amazonaws.com/<filename>.mp4" },
-      filePath: { type: "string", description: "Local file path to the video (not implemented yet)" },
-      enableVideoStream: { type: "boolean", description: "Enable video streaming (default: true)" }
+      filePath: {
+        type: "string",
+        description:
+          `Local file path to the video. Relative paths are resolved under the data directory (${DATA_DIR}); absolute paths are used as-is in stdio mode and must be inside that directory in HTTP mode. ` +
+          `Supported extensions: ${SUPPORTED_VIDEO_EXTENSIONS.join(", ")}. Max size: ${MAX_UPLOAD_BYTES} bytes`
+      },
+      enableVideoStream: { type: "boolean", description: `Enable video streaming (default: ${CONFIG.defaults.enableVideoStream})` },
+      waitUntilReady: { type: "boolean", description: "Wait until the indexing task is ready or failed before returning (default: false)" },
+      timeoutSec: {
+        type: "number",
+        minimum: 1,
+        maximum: MAX_TASK_WAIT_TIMEOUT_SEC,
+        description: `Maximum seconds to wait when waitUntilReady is set (default: ${DEFAULT_TASK_WAIT_TIMEOUT_SEC}, max: ${MAX_TASK_WAIT_TIMEOUT_SEC})`
+      }
     },
     required: ["indexId"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.upload_videos
+};
+
+const BATCH_UPLOAD_VIDEOS_TOOL: Tool = {
+  name: "batch_upload_videos",
+  description:
+    "Uploads many videos from a manifest file (CSV with a header row, JSON array or JSONL) in one call, with bounded concurrency. " +
+    "Each item has url or filePath, plus optional id and metadata (CSV: extra columns become metadata); metadata is applied to the video once it is ready. " +
+    "Progress is saved per item (task ID and status) in a state file, so calling again with the same manifest resumes the batch: " +
+    "submitted items are not uploaded twice, their status is refreshed, and failed items are retried only with retryFailed. " +
+    "Returns ready, failed, pending and not yet submitted items separately. " +
+    "Input: { indexId: string; manifestPath: string; manifestFormat?: string; statePath?: string; concurrency?: number; maxItems?: number; " +
+    "retryFailed?: boolean; enableVideoStream?: boolean; waitUntilReady?: boolean; timeoutSec?: number }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      indexId: { type: "string", description: "Target index ID" },
+      manifestPath: {
+        type: "string",
+        description: `Manifest file. Relative paths (including filePath values inside it) are resolved under the data directory (${DATA_DIR})`
+      },
+      manifestFormat: { type: "string", enum: MANIFEST_FORMATS, description: "Manifest format (default: from the file extension)" },
+      statePath: {
+        type: "string",
+        description:
+          `State file for resuming, under ${DATA_DIR} (default: <manifestPath>.state.json, or batch-state/ in ${DATA_DIR} when the manifest is outside it)`
+      },
+      concurrency: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_BATCH_CONCURRENCY,
+        description: `Uploads running at the same time (default: ${DEFAULT_BATCH_CONCURRENCY}, max: ${MAX_BATCH_CONCURRENCY})`
+      },
+      maxItems: { type: "integer", minimum: 1, description: "Submit at most this many new items in this call; call again to continue" },
+      retryFailed: { type: "boolean", description: "Upload failed items again (default: false)" },
+      enableVideoStream: { type: "boolean", description: `Enable video streaming (default: ${CONFIG.defaults.enableVideoStream})` },
+      waitUntilReady: { type: "boolean", description: "Wait until every submitted item is ready or failed before returning (default: false)" },
+      timeoutSec: {
+        type: "number",
+        minimum: 1,
+        maximum: MAX_TASK_WAIT_TIMEOUT_SEC,
+        description: `Maximum seconds to wait when waitUntilReady is set (default: ${DEFAULT_TASK_WAIT_TIMEOUT_SEC}, max: ${MAX_TASK_WAIT_TIMEOUT_SEC})`
+      }
+    },
+    required: ["indexId", "manifestPath"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.batch_upload_videos
 };
 
 const SEARCH_VIDEOS_TOOL: Tool = {
   name: "search_videos",
   description:
-    "Searches videos within a specific index using text queries. " +
-    "Input: { indexId: string; query: string; options?: string[]; operator?: string; limit?: number }",
+    "Searches videos within a specific index using a text query, an image query, or both combined. " +
+    "To search several indexes at once, pass indexIds or indexNamePattern instead of indexId: the indexes are queried concurrently " +
+    "and the hits are merged into one list ranked by score (then confidence), each tagged with index_id and index_name. " +
+    "Provide at most one image source: imagePath (local file), imageUrl or imageBase64. " +
+    "options selects the modalities to search (visual: what is shown, audio: what is heard or said); " +
+    "operator combines multiple options ('or': any option matches, 'and': all options match). " +
+    "Returns one page of results and a nextPageToken; pass it to search_videos_next_page for more, " +
+    "or set autoPaginate to collect up to maxClips matching clips across pages. " +
+    "Input: { indexId?: string; indexIds?: string[]; indexNamePattern?: string; query?: string; imagePath?: string; imageUrl?: string; imageBase64?: string; options?: string[]; operator?: string; limit?: number; groupBy?: string; threshold?: string; sortOption?: string; adjustConfidenceLevel?: number; filter?: object; autoPaginate?: boolean; maxClips?: number }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       indexId: { type: "string", description: "Index ID to search" },
-      query: { type: "string", description: "Search query text" },
+      indexIds: {
+        type: "array",
+        minItems: 1,
+        maxItems: MAX_FEDERATED_INDEXES,
+        items: { type: "string" },
+        description: `Search these indexes together and merge the results (max: ${MAX_FEDERATED_INDEXES})`
+      },
+      indexNamePattern: {
+        type: "string",
+        description: "Search every index whose name matches this pattern (* matches any characters, ? one character, case-insensitive), e.g. \"meetings-*\""
+      },
+      query: { type: "string", description: "Search query text (required unless an image is given)" },
+      imagePath: {
+        type: "string",
+        description:
+          `Local image file to search with (e.g. a logo, product shot or face still). Relative paths are resolved under ${DATA_DIR}. ` +
+          `Supported: ${Object.keys(SUPPORTED_IMAGE_TYPES).join(", ")}`
+      },
+      imageUrl: { type: "string", description: "Publicly accessible URL of an image to search with" },
+      imageBase64: { type: "string", description: "Base64-encoded image (or data: URL) to search with" },
       options: {
         type: "array",
+        minItems: 1,
         items: { type: "string", enum: ["visual", "audio"] },
-        description: "Search options: visual, audio, or both"
+        description: "Search options: visual, audio, or both (default: both)"
       },
       operator: {
         type: "string",
         enum: ["and", "or"],
-        description: "Operator to use when multiple options are specified"
+        description: "Operator to use when multiple options are specified (default: or)"
+      },
+      limit: { type: "integer", minimum: 1, maximum: 50, description: `Number of results to retrieve per page (default: ${CONFIG.defaults.searchLimit}, max: 50). When searching several indexes, each index is searched with this limit and the merged ranking is cut to this many results` },
+      groupBy: {
+        type: "string",
+        enum: ["clip", "video"],
+        description: "Return individual matching clips, or group clips by video (default: video)"
+      },
+      threshold: {
+        type: "string",
+        enum: ["high", "medium", "low", "none"],
+        description: "Minimum confidence level of returned matches (default: low)"
+      },
+      sortOption: {
+        type: "string",
+        enum: ["score", "clip_count"],
+        description: "Sort by relevance score, or by number of matching clips per video when grouped by video (default: score)"
+      },
+      adjustConfidenceLevel: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Strictness of the confidence level assigned to matches (0.0-1.0, default: 0.5)"
+      },
+      filter: {
+        type: "object",
+        description: "Metadata filter, e.g. { \"id\": [\"<videoId>\"] }, { \"duration\": { \"gte\": 60 } } or user metadata fields like { \"category\": \"recording\" }"
+      },
+      autoPaginate: {
+        type: "boolean",
+        description: `Keep fetching result pages until maxClips clips are collected or no pages remain (hard cap: ${MAX_SEARCH_PAGES} pages)`
       },
-      limit: { type: "number", description: "Number of results to retrieve" }
+      maxClips: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_SEARCH_CLIPS,
+        description: `Number of clips to collect when autoPaginate is set, in total across indexes when searching several (default: ${DEFAULT_MAX_SEARCH_CLIPS}, max: ${MAX_SEARCH_CLIPS})`
+      }
     },
-    required: ["indexId", "query"]
-  }
+    // indexId, indexIds, indexNamePattern 중 정확히 하나가 필요 (resolveSearchTargets에서 검사)
+    required: []
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.search_videos
+};
+
+const SEARCH_VIDEOS_NEXT_PAGE_TOOL: Tool = {
+  name: "search_videos_next_page",
+  description:
+    "Retrieves the next page of results of a previous search_videos call. " +
+    "Page tokens expire after a while (see pageInfo.page_expires_at). " +
+    "Input: { pageToken: string; autoPaginate?: boolean; maxClips?: number }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      pageToken: { type: "string", description: "nextPageToken returned by search_videos or a previous search_videos_next_page call" },
+      autoPaginate: {
+        type: "boolean",
+        description: `Keep fetching result pages until maxClips clips are collected or no pages remain (hard cap: ${MAX_SEARCH_PAGES} pages)`
+      },
+      maxClips: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_SEARCH_CLIPS,
+        description: `Number of clips to collect when autoPaginate is set (default: ${DEFAULT_MAX_SEARCH_CLIPS}, max: ${MAX_SEARCH_CLIPS})`
+      }
+    },
+    required: ["pageToken"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.search_videos_next_page
 };
 
 const GENERATE_TEXT_TOOL: Tool = {
@@ -250,9 +826,13 @@ const GENERATE_TEXT_TOOL: Tool = {
     "Uses the /generate endpoint for maximum flexibility. " +
     "Requires a clear prompt to guide the output. " +
     "Can generate any text format: transcripts, tables, action items, analyses, etc. " +
-    "Input: { videoId: string; prompt?: string; temperature?: number }",
+    "Set stream to receive text deltas as progress and log notifications while the text is generated; " +
+    "the full text and usage are still returned at the end. " +
+    "Results are cached per video, prompt and temperature; a cached result is returned without streaming (see cache.hit). " +
+    "Input: { videoId: string; prompt?: string; temperature?: number; stream?: boolean; bypassCache?: boolean }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       videoId: { type: "string", description: "ID of the target video" },
       prompt: { type: "string", description: "Custom prompt for text generation (optional)" },
@@ -261,11 +841,17 @@ const GENERATE_TEXT_TOOL: Tool = {
         description: "Controls randomness (0.0-1.0)",
         minimum: 0,
         maximum: 1,
-        default: 0.2
+        default: CONFIG.defaults.temperature
+      },
+      stream: { type: "boolean", description: "Stream text deltas as notifications while generating (default: false)" },
+      bypassCache: {
+        type: "boolean",
+        description: "Skip the cached result and call the API again; the fresh result replaces the cached one (default: false)"
       }
     },
     required: ["videoId"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.generate_text
 };
 
 const GENERATE_GIST_TOOL: Tool = {
@@ -276,25 +862,33 @@ const GENERATE_GIST_TOOL: Tool = {
     "Title: Succinctly captures a video's main theme. " +
     "Topic: Represents the central theme of a video for categorization. " +
     "Hashtag: Represents key themes for discoverability. " +
-    "Input: { videoId: string; types: string[] } " +
+    "Results are cached per video and types (see cache.hit). " +
+    "Input: { videoId: string; types: string[]; bypassCache?: boolean } " +
     "types: Array of 'title', 'topic', 'hashtag'. " +
     "Returns: { id, title, topics, hashtags, usage } where title is a string, " +
     "topics and hashtags are arrays of strings, and usage contains token information.",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       videoId: { type: "string", description: "ID of the target video" },
       types: { 
         type: "array", 
+        minItems: 1,
         items: { 
           type: "string", 
           enum: ["title", "topic", "hashtag"] 
         },
         description: "Types of gist to generate" 
+      },
+      bypassCache: {
+        type: "boolean",
+        description: "Skip the cached result and call the API again; the fresh result replaces the cached one (default: false)"
       }
     },
     required: ["videoId", "types"]
-  }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.generate_gist
 };
 
 const GENERATE_SUMMARY_TOOL: Tool = {
@@ -305,15 +899,17 @@ const GENERATE_SUMMARY_TOOL: Tool = {
     "Summary: Encapsulates key points of a video concisely. " +
     "Chapter: Chronological list of all chapters with start/end times and descriptions. " +
     "Highlight: Chronologically ordered list of important events with timestamps. " +
-    "Input: { videoId: string; type: string; prompt?: string; temperature?: number } " +
+    "Results are cached per video, type, prompt and temperature (see cache.hit). " +
+    "Input: { videoId: string; type: string; prompt?: string; temperature?: number; bypassCache?: boolean } " +
     "type: 'summary', 'chapter', or 'highlight'. " +
     "Returns: Based on the type parameter: " +
     "- For 'summary': { id, summary, usage } where summary is a concise text. " +
-    "- For 'chapter': { id, chapters, usage } where chapters is an array of objects with start, end, chapter, chapter_summary. " +
-    "- For 'highlight': { id, highlights, usage } where highlights is an array of objects with start, end, highlight, highlight_summary. " +
+    "- For 'chapter': { id, chapters, usage } where chapters is an array of objects with chapter_number, start_sec, end_sec, chapter_title, chapter_summary. " +
+    "- For 'highlight': { id, highlights, usage } where highlights is an array of objects with start_sec, end_sec, highlight, highlight_summary. " +
     "The temperature parameter (0-1) controls text randomness, with higher values producing more creative output.",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
       videoId: { type: "string", description: "ID of the target video" },
       type: { 
@@ -330,100 +926,456 @@ const GENERATE_SUMMARY_TOOL: Tool = {
         description: "Controls randomness (0.0-1.0), lower values for more deterministic output",
         minimum: 0,
         maximum: 1,
-        default: 0.2
+        default: CONFIG.defaults.temperature
+      },
+      bypassCache: {
+        type: "boolean",
+        description: "Skip the cached result and call the API again; the fresh result replaces the cached one (default: false)"
       }
     },
     required: ["videoId", "type"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.generate_summary
+};
+
+const TIMELINE_ITEM_SCHEMA = {
+  type: "object",
+  description: "A chapter or highlight from generate_summary (start_sec, end_sec, chapter_title/highlight, chapter_summary/highlight_summary)",
+  properties: {
+    start_sec: { type: "number", minimum: 0 },
+    end_sec: { type: "number", minimum: 0 },
+    chapter_title: { type: "string" },
+    chapter_summary: { type: "string" },
+    highlight: { type: "string" },
+    highlight_summary: { type: "string" }
   }
 };
 
-// 새로운 도구 추가: 비디오 임포트 상태 조회 도구
-const GET_IMPORT_STATUS_TOOL: Tool = {
-  name: "get_import_status",
+const EXPORT_TIMELINE_TOOL: Tool = {
+  name: "export_timeline",
   description:
-    "Retrieves the current status for each video from a specified integration and index. " +
-    "Input: { integrationId: string; indexId: string }",
+    "Exports chapters or highlights as a timeline file for editors and players: WebVTT (webvtt), SRT (srt), CMX3600 EDL (edl), " +
+    "YouTube description chapter lines (youtube) or OpenTimelineIO JSON (otio). " +
+    "Pass the chapters or highlights returned by generate_summary, or pass videoId and type to generate them (cached like generate_summary). " +
+    "Items are sorted by start time; overlapping ranges are trimmed (default), merged, or kept, and every change is listed in adjustments. " +
+    `Set outputPath to write a file under ${DATA_DIR} (relative paths are resolved there); otherwise the content is returned inline. ` +
+    "Input: { format: string; videoId?: string; type?: string; chapters?: object[]; highlights?: object[]; prompt?: string; overlap?: string; " +
+    "outputPath?: string; title?: string; clipName?: string; frameRate?: number; bypassCache?: boolean }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      integrationId: { type: "string", description: "Integration ID" },
-      indexId: { type: "string", description: "Index ID" }
+      format: { type: "string", enum: Object.keys(TIMELINE_FORMATS), description: "Output format" },
+      videoId: { type: "string", description: "Video to generate chapters/highlights for (when chapters/highlights are not given)" },
+      type: { type: "string", enum: ["chapter", "highlight"], description: "What to generate when chapters/highlights are not given" },
+      chapters: { type: "array", items: TIMELINE_ITEM_SCHEMA, description: "chapters from a generate_summary result" },
+      highlights: { type: "array", items: TIMELINE_ITEM_SCHEMA, description: "highlights from a generate_summary result" },
+      prompt: { type: "string", description: "Prompt for the generation (only when generating)" },
+      overlap: {
+        type: "string",
+        enum: ["trim", "merge", "keep"],
+        description: "How to handle overlapping ranges: trim the earlier range (default), merge them, or keep them as is"
+      },
+      outputPath: {
+        type: "string",
+        description: `File to write under ${DATA_DIR} (relative paths are resolved there); the format's extension is added if missing`
+      },
+      title: { type: "string", description: "Timeline title (EDL TITLE, OTIO name)" },
+      clipName: { type: "string", description: "Source clip name for EDL/OTIO (default: the video ID)" },
+      frameRate: {
+        type: "number",
+        enum: SUPPORTED_FRAME_RATES,
+        description: `Frame rate for EDL timecodes and OTIO times (default: ${DEFAULT_FRAME_RATE})`
+      },
+      bypassCache: { type: "boolean", description: "Regenerate instead of using a cached generate_summary result (default: false)" }
     },
-    required: ["integrationId", "indexId"]
-  }
+    required: ["format"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.export_timeline
 };
 
-const GET_IMPORT_LOGS_TOOL: Tool = {
-  name: "get_import_logs",
+const CREATE_EMBEDDING_TOOL: Tool = {
+  name: "create_embedding",
   description:
-    "Retrieves the import logs for a specified integration. " +
-    "Input: { integrationId: string }",
+    `Creates Marengo (${EMBEDDING_MODEL}) embeddings synchronously for text, an image and/or an audio clip. ` +
+    "Provide at least one input; at most one image source and one audio source, and at most one local file per call. " +
+    "Audio is split into segments, each with its own vector and start offset. " +
+    "Set outputPath to write the vectors to a JSONL file (one segment per line) instead of returning them inline. " +
+    "Input: { text?: string; textTruncate?: string; imagePath?: string; imageUrl?: string; audioPath?: string; audioUrl?: string; audioStartOffsetSec?: number; outputPath?: string }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      integrationId: { type: "string", description: "Integration ID" }
-    },
-    required: ["integrationId"]
-  }
+      text: { type: "string", description: "Text to embed (max 77 tokens)" },
+      textTruncate: {
+        type: "string",
+        enum: ["start", "end", "none"],
+        description: "How to truncate text longer than the limit (default: end)"
+      },
+      imagePath: {
+        type: "string",
+        description: `Local image file. Relative paths are resolved under ${DATA_DIR}. Supported: ${Object.keys(SUPPORTED_IMAGE_TYPES).join(", ")}`
+      },
+      imageUrl: { type: "string", description: "Publicly accessible image URL" },
+      audioPath: {
+        type: "string",
+        description: `Local audio file. Relative paths are resolved under ${DATA_DIR}. Supported: ${Object.keys(SUPPORTED_AUDIO_TYPES).join(", ")}`
+      },
+      audioUrl: { type: "string", description: "Publicly accessible audio URL" },
+      audioStartOffsetSec: { type: "number", minimum: 0, description: "Start offset in seconds within the audio (default: 0)" },
+      outputPath: {
+        type: "string",
+        description: `JSONL file under ${DATA_DIR} to write the vectors to (relative paths are resolved there)`
+      }
+    }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.create_embedding
 };
 
-const IMPORT_VIDEOS_TOOL: Tool = {
-  name: "import_videos",
+const CREATE_VIDEO_EMBEDDING_TASK_TOOL: Tool = {
+  name: "create_video_embedding_task",
   description:
-    "Imports videos from an integration into an index. " +
-    "Input: { integrationId: string; indexId: string; incrementalImport?: boolean; retryFailed?: boolean }",
+    `Starts an asynchronous video embedding task (${EMBEDDING_MODEL}) from a direct video URL or a local file, like upload_videos. ` +
+    "Poll it with get_video_embedding_task and fetch the vectors with retrieve_video_embeddings once it is ready. " +
+    "Input: { url?: string; filePath?: string; startOffsetSec?: number; endOffsetSec?: number; clipLength?: number; embeddingScope?: string[] }",
   inputSchema: {
     type: "object",
+    additionalProperties: false,
     properties: {
-      integrationId: { type: "string", description: "Integration ID" },
-      indexId: { type: "string", description: "Index ID" },
-      incrementalImport: { type: "boolean", description: "Whether to perform incremental import (default: true)" },
-      retryFailed: { type: "boolean", description: "Whether to retry failed uploads (default: false)" }
+      url: { type: "string", description: "Direct URL to the raw video file (not YouTube or other platform URLs)" },
+      filePath: {
+        type: "string",
+        description: `Local video file. Relative paths are resolved under ${DATA_DIR}. Supported extensions: ${SUPPORTED_VIDEO_EXTENSIONS.join(", ")}`
+      },
+      startOffsetSec: { type: "number", minimum: 0, description: "Start offset in seconds (default: 0)" },
+      endOffsetSec: { type: "number", minimum: 0, description: "End offset in seconds (default: end of video)" },
+      clipLength: { type: "number", minimum: 2, maximum: 10, description: "Length of each embedded segment in seconds, 2-10 (default: 6)" },
+      embeddingScope: {
+        type: "array",
+        items: { type: "string", enum: ["clip", "video"] },
+        description: "clip: one vector per segment; video: one vector for the whole video (default: [\"clip\"])"
+      }
+    }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.create_video_embedding_task
+};
+
+const GET_VIDEO_EMBEDDING_TASK_TOOL: Tool = {
+  name: "get_video_embedding_task",
+  description:
+    "Retrieves the status of a video embedding task (processing, ready or failed). " +
+    "Input: { taskId: string }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      taskId: { type: "string", description: "ID of the video embedding task" }
     },
-    required: ["integrationId", "indexId"]
-  }
+    required: ["taskId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.get_video_embedding_task
 };
 
-// Tool 목록 요청 핸들러
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      CREATE_INDEX_TOOL, 
-      LIST_INDEXES_TOOL,
-      GET_INDEX_TOOL,
-      UPDATE_INDEX_TOOL,
-      DELETE_INDEX_TOOL,
-      UPLOAD_VIDEOS_TOOL, 
-      IMPORT_VIDEOS_TOOL,
-      GET_IMPORT_STATUS_TOOL,
-      GET_IMPORT_LOGS_TOOL,
-      LIST_TASKS_TOOL,
-      GET_TASK_TOOL,
-      DELETE_TASK_TOOL,
-      SEARCH_VIDEOS_TOOL, 
-      GENERATE_TEXT_TOOL,
-      GENERATE_GIST_TOOL,
-      GENERATE_SUMMARY_TOOL
-    ],
-  };
-});
+const RETRIEVE_VIDEO_EMBEDDINGS_TOOL: Tool = {
+  name: "retrieve_video_embeddings",
+  description:
+    "Retrieves the segment-level vectors of a finished video embedding task, with start/end offsets and embedding scope for each segment. " +
+    "Video embeddings can be large: set outputPath to write them to a JSONL file and return only a summary. " +
+    "Input: { taskId: string; outputPath?: string }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      taskId: { type: "string", description: "ID of the video embedding task" },
+      outputPath: {
+        type: "string",
+        description: `JSONL file under ${DATA_DIR} to write the vectors to (relative paths are resolved there)`
+      }
+    },
+    required: ["taskId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.retrieve_video_embeddings
+};
+
+// 새로운 도구 추가: 비디오 임포트 상태 조회 도구
+const GET_IMPORT_STATUS_TOOL: Tool = {
+  name: "get_import_status",
+  description:
+    "Retrieves the current status for each video from a specified integration and index. " +
+    "Input: { integrationId: string; indexId: string }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      integrationId: { type: "string", description: "Integration ID" },
+      indexId: { type: "string", description: "Index ID" }
+    },
+    required: ["integrationId", "indexId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.get_import_status
+};
+
+const GET_IMPORT_LOGS_TOOL: Tool = {
+  name: "get_import_logs",
+  description:
+    "Retrieves the import logs for a specified integration. " +
+    "Input: { integrationId: string }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      integrationId: { type: "string", description: "Integration ID" }
+    },
+    required: ["integrationId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.get_import_logs
+};
+
+const IMPORT_VIDEOS_TOOL: Tool = {
+  name: "import_videos",
+  description:
+    "Imports videos from an integration into an index. " +
+    "Input: { integrationId: string; indexId: string; incrementalImport?: boolean; retryFailed?: boolean }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      integrationId: { type: "string", description: "Integration ID" },
+      indexId: { type: "string", description: "Index ID" },
+      incrementalImport: { type: "boolean", description: "Whether to perform incremental import (default: true)" },
+      retryFailed: { type: "boolean", description: "Whether to retry failed uploads (default: false)" }
+    },
+    required: ["integrationId", "indexId"]
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.import_videos
+};
+
+const CLEAR_CACHE_TOOL: Tool = {
+  name: "clear_cache",
+  description:
+    "Removes cached generate_text, generate_gist and generate_summary results of the current API key. " +
+    "Without filters every cached result is removed; filter by videoId, endpoint or expiredOnly to remove less. " +
+    "Input: { videoId?: string; endpoint?: 'generate' | 'gist' | 'summarize'; expiredOnly?: boolean }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      videoId: { type: "string", description: "Only remove results of this video" },
+      endpoint: { type: "string", enum: ["generate", "gist", "summarize"], description: "Only remove results of this endpoint" },
+      expiredOnly: { type: "boolean", description: "Only remove entries whose TTL has passed (default: false)" }
+    }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.clear_cache
+};
+
+const GET_USAGE_REPORT_TOOL: Tool = {
+  name: "get_usage_report",
+  description:
+    "Reports the usage recorded by this server: generated tokens (generate_text, generate_gist, generate_summary), " +
+    "minutes of video indexed and search requests, with cached calls counted separately. " +
+    "By default only the current session is reported; set scope to 'account' for every session of the same API key. " +
+    "Optionally group by index, video, tool or session, split into hour or day windows (UTC), and limit the time range. " +
+    "Also returns the configured usage budgets with used and remaining amounts. " +
+    "Input: { scope?: 'session' | 'account'; groupBy?: 'index' | 'video' | 'tool' | 'session'; window?: 'hour' | 'day'; since?: string; until?: string; lastHours?: number }",
+  inputSchema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      scope: { type: "string", enum: ["session", "account"], description: "session (default) or account (all sessions of this API key)" },
+      groupBy: { type: "string", enum: ["index", "video", "tool", "session"], description: "Also report totals per index, video, tool or session" },
+      window: { type: "string", enum: ["hour", "day"], description: "Also report totals per hour or day (UTC)" },
+      since: { type: "string", description: "Only include usage at or after this time (ISO 8601, e.g. 2025-01-31T00:00:00Z)" },
+      until: { type: "string", description: "Only include usage before this time (ISO 8601)" },
+      lastHours: { type: "number", minimum: 0, description: "Only include usage of the last N hours (ignored when since is given)" }
+    }
+  },
+  outputSchema: TOOL_OUTPUT_SCHEMAS.get_usage_report
+};
+
+// 전체 도구 목록 (ListTools 응답 순서)
+const ALL_TOOLS: Tool[] = [
+  CREATE_INDEX_TOOL,
+  LIST_INDEXES_TOOL,
+  GET_INDEX_TOOL,
+  UPDATE_INDEX_TOOL,
+  DELETE_INDEX_TOOL,
+  LIST_VIDEOS_TOOL,
+  GET_VIDEO_TOOL,
+  UPDATE_VIDEO_METADATA_TOOL,
+  DELETE_VIDEO_TOOL,
+  UPLOAD_VIDEOS_TOOL,
+  BATCH_UPLOAD_VIDEOS_TOOL,
+  IMPORT_VIDEOS_TOOL,
+  GET_IMPORT_STATUS_TOOL,
+  GET_IMPORT_LOGS_TOOL,
+  LIST_TASKS_TOOL,
+  GET_TASK_TOOL,
+  WAIT_FOR_TASK_TOOL,
+  DELETE_TASK_TOOL,
+  SEARCH_VIDEOS_TOOL,
+  SEARCH_VIDEOS_NEXT_PAGE_TOOL,
+  GENERATE_TEXT_TOOL,
+  GENERATE_GIST_TOOL,
+  GENERATE_SUMMARY_TOOL,
+  EXPORT_TIMELINE_TOOL,
+  CLEAR_CACHE_TOOL,
+  GET_USAGE_REPORT_TOOL,
+  CREATE_EMBEDDING_TOOL,
+  CREATE_VIDEO_EMBEDDING_TASK_TOOL,
+  GET_VIDEO_EMBEDDING_TASK_TOOL,
+  RETRIEVE_VIDEO_EMBEDDINGS_TOOL
+];
+
+// 설정에 기본 인덱스(defaultIndexId)가 있으면 indexId를 생략할 수 있는 도구
+// (인덱스 자체를 바꾸거나 지우는 update_index, delete_index는 항상 명시해야 함)
+const DEFAULT_INDEX_TOOLS = new Set([
+  "list_videos",
+  "get_video",
+  "update_video_metadata",
+  "delete_video",
+  "upload_videos",
+  "batch_upload_videos",
+  "search_videos",
+  "get_import_status",
+  "import_videos"
+]);
+
+// 기본 인덱스가 설정된 경우 ListTools 스키마에서 indexId를 선택 항목으로 바꿈
+function applyDefaultIndex(tool: Tool): Tool {
+  if (!CONFIG.defaultIndexId || !DEFAULT_INDEX_TOOLS.has(tool.name)) {
+    return tool;
+  }
+  const properties = tool.inputSchema.properties as Record<string, { description?: string }>;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...properties,
+        indexId: { ...properties.indexId, description: `${properties.indexId.description} (default: ${CONFIG.defaultIndexId})` }
+      },
+      required: (tool.inputSchema.required ?? []).filter((field) => field !== "indexId")
+    }
+  };
+}
+
+// indexId/indexIds 인자에 인덱스 이름도 쓸 수 있음을 설명에 표시
+function acceptIndexNames(tool: Tool): Tool {
+  const properties = tool.inputSchema.properties as Record<string, { description?: string }> | undefined;
+  const fields = ["indexId", "indexIds"].filter((field) => properties?.[field]);
+  if (!properties || fields.length === 0) {
+    return tool;
+  }
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...properties,
+        ...Object.fromEntries(fields.map((field) => [
+          field,
+          { ...properties[field], description: `${properties[field].description}. Accepts an index ID or an exact index name` }
+        ]))
+      }
+    }
+  };
+}
+
+// 설정(tools.enabled/disabled)에서 켠 도구만 노출
+let ENABLED_TOOL_NAMES: Set<string>;
+try {
+  ENABLED_TOOL_NAMES = resolveEnabledTools(CONFIG.tools, ALL_TOOLS.map((tool) => tool.name));
+} catch (e) {
+  logger.error(`Error: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+}
+// guardrails.destructiveTools가 false면 삭제 도구는 목록에서 빠지고 호출도 알 수 없는 도구로 거부됨
+const TOOLS: Tool[] = ALL_TOOLS
+  .filter((tool) => ENABLED_TOOL_NAMES.has(tool.name))
+  .filter((tool) => CONFIG.guardrails.destructiveTools || !DESTRUCTIVE_TOOLS.has(tool.name)).map(acceptIndexNames).map(applyDefaultIndex);
+
+const TOOLS_BY_NAME = new Map(TOOLS.map((tool) => [tool.name, tool]));
+
+// Tool 목록 요청 핸들러
+async function handleListTools() {
+  return { tools: TOOLS };
+}
+
+// 클라이언트가 progressToken을 보낸 경우 MCP 진행 상황 알림을 전송하는 함수를 만듦
+// 알림은 요청을 보낸 세션(HTTP 모드에서는 해당 요청의 응답 스트림)으로 전송됨
+function createProgressReporter(extra: RequestExtra, progressToken?: string | number) {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  return (progress: number, total?: number, message?: string) => {
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message }
+      })
+      .catch((e) => logger.warn(`진행 상황 알림 전송 실패: ${e}`));
+  };
+}
+
+// 스트리밍 텍스트 조각을 진행 상황 알림(progressToken이 있을 때)과 로그 알림으로 전달하는 함수를 만듦
+function createTextDeltaForwarder(
+  extra: RequestExtra,
+  loggerName: string,
+  reportProgress?: (progress: number, total?: number, message?: string) => void
+) {
+  let length = 0;
+  return (delta: string) => {
+    length += delta.length;
+    reportProgress?.(length, undefined, delta);
+    extra
+      .sendNotification({ method: "notifications/message", params: { level: "info", logger: loggerName, data: { delta } } })
+      .catch((e) => logger.warn(`로그 알림 전송 실패: ${e}`));
+  };
+}
+
+// indexId를 생략한 호출에 설정의 기본 인덱스를 채움
+function withDefaultIndexId(name: string, args: Record<string, unknown> | undefined) {
+  if (!CONFIG.defaultIndexId || !DEFAULT_INDEX_TOOLS.has(name) || (args?.indexId !== undefined && args.indexId !== "")) {
+    return args;
+  }
+  // 여러 인덱스를 지정한 검색에는 기본 인덱스를 더하지 않음
+  if (name === "search_videos" && (args?.indexIds !== undefined || args?.indexNamePattern !== undefined)) {
+    return args;
+  }
+  return { ...args, indexId: CONFIG.defaultIndexId };
+}
 
 // Tool 실행 핸들러
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  if (!args) {
+async function handleCallTool(request: CallToolRequest, extra: RequestExtra) {
+  const { name } = request.params;
+  const reportProgress = createProgressReporter(extra, request.params._meta?.progressToken);
+  const tool = TOOLS_BY_NAME.get(name);
+  if (!tool) {
     return {
-      content: [{ type: "text", text: "No arguments provided" }],
+      content: [{ type: "text", text: `Unknown tool: ${name}` }],
       isError: true
     };
   }
 
   try {
+    // API 호출 전에 inputSchema로 인자를 검증하고 안전한 범위에서 타입을 변환
+    const validated = validateToolArguments(name, tool.inputSchema, withDefaultIndexId(name, request.params.arguments));
+    // 사용량 예산에 도달했으면 비용이 드는 도구는 인덱스 이름 확인을 포함해 API를 호출하지 않음
+    const metric = TOOL_USAGE_METRICS[name];
+    if (metric) {
+      USAGE_LEDGER.checkBudgets(metric, api().accountId, usageSession(extra));
+    }
+    const { args, indexes: resolvedIndexes } = await resolveIndexArguments(validated);
     switch (name) {
       case "create_index": {
-        const { indexName } = args as { indexName: string };
-        const res = await createIndex(indexName);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        const { indexName, preset, models, addons } = args as {
+          indexName: string;
+          preset?: string;
+          models?: { modelName: string; modelOptions: string[] }[];
+          addons?: string[];
+        };
+        const res = await createIndex(indexName, preset, models, addons);
+        return toolResult(name, res);
       }
       case "list_indexes": {
         const { page, pageLimit, sortBy, sortOption, indexName } = args as {
@@ -434,29 +1386,84 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           indexName?: string;
         };
         const res = await listIndexes(page, pageLimit, sortBy, sortOption, indexName);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, res);
       }
       case "get_index": {
-        const { indexName } = args as { indexName: string };
-        const res = await getIndex(indexName);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        const { indexId } = args as { indexId: string };
+        const res = await getIndex(indexId);
+        return toolResult(name, res);
       }
       case "update_index": {
         const { indexId, indexName } = args as { indexId: string; indexName: string };
         const res = await updateIndex(indexId, indexName);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, res);
       }
       case "delete_index": {
-        const { indexId } = args as { indexId: string };
+        const { indexId, dryRun, confirmationToken } = args as { indexId: string; dryRun?: boolean; confirmationToken?: string };
+        const target = await indexDeletionTarget(indexId);
+        const preview = guardDeletion(name, { indexId }, target, { dryRun, confirmationToken });
+        if (preview) {
+          return toolResult(name, preview);
+        }
         const res = await deleteIndex(indexId);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, { ...res, deleted: true, target });
+      }
+      case "list_videos": {
+        const { indexId, page, pageLimit, sortBy, sortOption, filename, duration, createdAt, updatedAt } = args as {
+          indexId: string;
+          page?: number;
+          pageLimit?: number;
+          sortBy?: string;
+          sortOption?: string;
+          filename?: string;
+          duration?: number;
+          createdAt?: string;
+          updatedAt?: string;
+        };
+        const res = await listVideos(indexId, page, pageLimit, sortBy, sortOption, { filename, duration, createdAt, updatedAt });
+        return toolResult(name, res);
+      }
+      case "get_video": {
+        const { indexId, videoId, includeTranscription = false } = args as {
+          indexId: string;
+          videoId: string;
+          includeTranscription?: boolean;
+        };
+        const res = await getVideo(indexId, videoId, includeTranscription);
+        return toolResult(name, res);
+      }
+      case "update_video_metadata": {
+        const { indexId, videoId, userMetadata } = args as {
+          indexId: string;
+          videoId: string;
+          userMetadata: Record<string, string | number | boolean | null>;
+        };
+        const res = await updateVideoMetadata(indexId, videoId, userMetadata);
+        return toolResult(name, res);
+      }
+      case "delete_video": {
+        const { indexId, videoId, dryRun, confirmationToken } = args as {
+          indexId: string;
+          videoId: string;
+          dryRun?: boolean;
+          confirmationToken?: string;
+        };
+        const target = await videoDeletionTarget(indexId, videoId);
+        const preview = guardDeletion(name, { indexId, videoId }, target, { dryRun, confirmationToken });
+        if (preview) {
+          return toolResult(name, preview);
+        }
+        const res = await deleteVideo(indexId, videoId);
+        return toolResult(name, { ...res, deleted: true, target });
       }
       case "upload_videos": {
-        const { indexId, url, filePath, enableVideoStream = true } = args as {
+        const { indexId, url, filePath, enableVideoStream = CONFIG.defaults.enableVideoStream, waitUntilReady = false, timeoutSec } = args as {
           indexId: string;
           url?: string;
           filePath?: string;
           enableVideoStream?: boolean;
+          waitUntilReady?: boolean;
+          timeoutSec?: number;
         };
         if (!url && !filePath) {
           return {
@@ -464,8 +1471,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             isError: true
           };
         }
-        const res = await uploadVideos(indexId, url, filePath, enableVideoStream);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        const res = await uploadVideos(indexId, url, filePath, enableVideoStream, reportProgress);
+        if (waitUntilReady) {
+          const waited = await waitForTasks([res.taskId], { timeoutSec }, reportProgress, extra.signal);
+          const task = waited.tasks[0];
+          return toolResult(
+            name,
+            { ...res, videoId: task.videoId || res.videoId, taskStatus: task.taskStatus, task: task.task },
+            task.taskStatus === "failed"
+          );
+        }
+        return toolResult(name, res);
+      }
+      case "batch_upload_videos": {
+        const res = await batchUploadVideos(args as unknown as BatchUploadArgs, reportProgress, extra.signal);
+        return toolResult(name, res);
       }
       case "list_tasks": {
         const { page, pageLimit, sortBy, sortOption, indexId, status } = args as {
@@ -477,56 +1497,205 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           status?: string[];
         };
         const res = await listTasks(page, pageLimit, sortBy, sortOption, indexId, status);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, res);
       }
       case "get_task": {
         const { taskId } = args as { taskId: string };
         const res = await getTask(taskId);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, res);
+      }
+      case "wait_for_task": {
+        const { taskId, taskIds = [], timeoutSec, pollIntervalSec } = args as {
+          taskId?: string;
+          taskIds?: string[];
+          timeoutSec?: number;
+          pollIntervalSec?: number;
+        };
+        const ids = [...new Set([...(taskId ? [taskId] : []), ...taskIds])];
+        if (ids.length === 0) {
+          return {
+            content: [{ type: "text", text: "Either taskId or taskIds is required" }],
+            isError: true
+          };
+        }
+        const res = await waitForTasks(ids, { timeoutSec, pollIntervalSec }, reportProgress, extra.signal);
+        return toolResult(name, res);
       }
       case "delete_task": {
-        const { taskId } = args as { taskId: string };
+        const { taskId, dryRun, confirmationToken } = args as { taskId: string; dryRun?: boolean; confirmationToken?: string };
+        const target = await taskDeletionTarget(taskId);
+        const preview = guardDeletion(name, { taskId }, target, { dryRun, confirmationToken });
+        if (preview) {
+          return toolResult(name, preview);
+        }
         const res = await deleteTask(taskId);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, { ...res, deleted: true, target });
       }
       case "search_videos": {
-        const { indexId, query, options = ["visual", "audio"], operator = "or", limit = 10 } =
+        const {
+          indexId, indexIds, indexNamePattern, query, imagePath, imageUrl, imageBase64, options, operator, limit, groupBy, threshold, sortOption,
+          adjustConfidenceLevel, filter, autoPaginate = false, maxClips
+        } =
           args as {
-            indexId: string;
-            query: string;
+            indexId?: string;
+            indexIds?: string[];
+            indexNamePattern?: string;
+            query?: string;
+            imagePath?: string;
+            imageUrl?: string;
+            imageBase64?: string;
             options?: string[];
             operator?: string;
             limit?: number;
+            groupBy?: string;
+            threshold?: string;
+            sortOption?: string;
+            adjustConfidenceLevel?: number;
+            filter?: Record<string, unknown>;
+            autoPaginate?: boolean;
+            maxClips?: number;
           };
-        const res = await searchVideos(indexId, query, options, operator, limit);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        const searchQuery = await prepareSearchQuery({ text: query, imagePath, imageUrl, imageBase64 });
+        const searchParams = { options, operator, limit, groupBy, threshold, sortOption, adjustConfidenceLevel, filter };
+        const clipLimit = autoPaginate ? maxClips ?? DEFAULT_MAX_SEARCH_CLIPS : undefined;
+        const targets = await resolveSearchTargets({ indexId, indexIds, indexNamePattern }, resolvedIndexes);
+        if (!targets) {
+          const res = await searchVideos(indexId!, searchQuery, searchParams, clipLimit);
+          recordUsage({ indexId: indexId!, searches: 1 });
+          return toolResult(name, res);
+        }
+        const res = await searchIndexes(targets, searchQuery, searchParams, clipLimit);
+        return toolResult(name, res);
+      }
+      case "search_videos_next_page": {
+        const { pageToken, autoPaginate = false, maxClips } = args as {
+          pageToken: string;
+          autoPaginate?: boolean;
+          maxClips?: number;
+        };
+        const res = await searchVideosNextPage(pageToken, autoPaginate ? maxClips ?? DEFAULT_MAX_SEARCH_CLIPS : undefined);
+        return toolResult(name, res);
       }
       case "generate_text": {
-        const { videoId, prompt, temperature = 0.2 } = args as { 
+        const { videoId, prompt, temperature = CONFIG.defaults.temperature, stream = false, bypassCache = false } = args as { 
           videoId: string; 
           prompt?: string;
           temperature?: number;
+          stream?: boolean;
+          bypassCache?: boolean;
         };
-        const res = await generateTextFromVideo(videoId, prompt, temperature);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        const res = await withResultCache(
+          { endpoint: "generate", videoId, prompt, temperature },
+          bypassCache,
+          () => stream
+            ? generateTextFromVideoStream(videoId, prompt, temperature, createTextDeltaForwarder(extra, "generate_text", reportProgress), extra.signal)
+            : generateTextFromVideo(videoId, prompt, temperature),
+          // 중간에 끊긴 스트림의 일부 텍스트는 캐시하지 않음
+          (result) => !("complete" in result) || result.complete !== false
+        );
+        recordGenerationUsage(videoId, res);
+        return toolResult(name, res);
       }
       case "generate_gist": {
-        const { videoId, types } = args as { 
+        const { videoId, types, bypassCache = false } = args as { 
           videoId: string; 
           types: string[];
+          bypassCache?: boolean;
         };
-        const res = await generateGist(videoId, types);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        const res = await withResultCache({ endpoint: "gist", videoId, type: types }, bypassCache, () => generateGist(videoId, types));
+        recordGenerationUsage(videoId, res);
+        return toolResult(name, res);
       }
       case "generate_summary": {
-        const { videoId, type, prompt, temperature = 0.2 } = args as { 
+        const { videoId, type, prompt, temperature = CONFIG.defaults.temperature, bypassCache = false } = args as { 
           videoId: string; 
           type: string;
           prompt?: string;
           temperature?: number;
+          bypassCache?: boolean;
         };
-        const res = await generateSummary(videoId, type, prompt, temperature);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        const res = await withResultCache(
+          { endpoint: "summarize", videoId, type, prompt, temperature },
+          bypassCache,
+          () => generateSummary(videoId, type, prompt, temperature)
+        );
+        recordGenerationUsage(videoId, res);
+        return toolResult(name, res);
+      }
+      case "export_timeline": {
+        const res = await exportTimeline(args as unknown as ExportTimelineArgs, extra);
+        return toolResult(name, res);
+      }
+      case "clear_cache": {
+        const { videoId, endpoint, expiredOnly = false } = args as {
+          videoId?: string;
+          endpoint?: string;
+          expiredOnly?: boolean;
+        };
+        const res = await clearResultCache(videoId, endpoint, expiredOnly);
+        return toolResult(name, res);
+      }
+      case "get_usage_report": {
+        const { scope = "session", groupBy, window, since, until, lastHours } = args as {
+          scope?: "session" | "account";
+          groupBy?: UsageGroupBy;
+          window?: UsageWindow;
+          since?: string;
+          until?: string;
+          lastHours?: number;
+        };
+        const res = getUsageReport(usageSession(extra), { scope, groupBy, window, since, until, lastHours });
+        return toolResult(name, res);
+      }
+      case "create_embedding": {
+        const { text, textTruncate, imagePath, imageUrl, audioPath, audioUrl, audioStartOffsetSec, outputPath } = args as {
+          text?: string;
+          textTruncate?: string;
+          imagePath?: string;
+          imageUrl?: string;
+          audioPath?: string;
+          audioUrl?: string;
+          audioStartOffsetSec?: number;
+          outputPath?: string;
+        };
+        const res = await createEmbedding(
+          { text, textTruncate, imagePath, imageUrl, audioPath, audioUrl, audioStartOffsetSec },
+          outputPath
+        );
+        return toolResult(name, res);
+      }
+      case "create_video_embedding_task": {
+        const { url, filePath, startOffsetSec, endOffsetSec, clipLength, embeddingScope } = args as {
+          url?: string;
+          filePath?: string;
+          startOffsetSec?: number;
+          endOffsetSec?: number;
+          clipLength?: number;
+          embeddingScope?: string[];
+        };
+        if (!url && !filePath) {
+          return {
+            content: [{ type: "text", text: "Either url or filePath is required" }],
+            isError: true
+          };
+        }
+        const res = await createVideoEmbeddingTask(
+          url,
+          filePath,
+          { startOffsetSec, endOffsetSec, clipLength, embeddingScope },
+          reportProgress
+        );
+        return toolResult(name, res);
+      }
+      case "get_video_embedding_task": {
+        const { taskId } = args as { taskId: string };
+        const res = await getVideoEmbeddingTask(taskId);
+        return toolResult(name, res);
+      }
+      case "retrieve_video_embeddings": {
+        const { taskId, outputPath } = args as { taskId: string; outputPath?: string };
+        const res = await retrieveVideoEmbeddings(taskId, outputPath);
+        return toolResult(name, res);
       }
       case "import_videos": {
         const { integrationId, indexId, incrementalImport = true, retryFailed = false } = args as {
@@ -536,7 +1705,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           retryFailed?: boolean;
         };
         const res = await importVideos(integrationId, indexId, incrementalImport, retryFailed);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, res);
       }
       case "get_import_status": {
         const { integrationId, indexId } = args as {
@@ -544,14 +1713,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           indexId: string;
         };
         const res = await getImportStatus(integrationId, indexId);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, res);
       }
       case "get_import_logs": {
         const { integrationId } = args as {
           integrationId: string;
         };
         const res = await getImportLogs(integrationId);
-        return { content: [{ type: "text", text: JSON.stringify(res, null, 2) }] };
+        return toolResult(name, res);
       }
       default:
         return {
@@ -560,224 +1729,689 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
     }
   } catch (error) {
+    return toolErrorResult(error);
+  }
+}
+
+// 결과 객체를 structuredContent로, 사람이 읽기 쉬운 요약을 텍스트로 함께 반환
+function toolResult(name: string, result: Record<string, unknown>, isError = false) {
+  return {
+    content: [{ type: "text", text: renderToolText(name, result) }],
+    structuredContent: result,
+    ...(isError ? { isError } : {})
+  };
+}
+
+// 오류를 isError 도구 결과로 변환. API 오류는 원인, 조치 방법, 요청 ID를 포함한 JSON으로 반환
+function toolErrorResult(error: unknown) {
+  if (error instanceof TwelveLabsError) {
     return {
-      content: [{ type: "text", text: `Error: ${String(error)}` }],
+      content: [{ type: "text", text: JSON.stringify(error.toJSON(), null, 2) }],
       isError: true
     };
   }
-});
+  return {
+    content: [{ type: "text", text: `Error: ${String(error)}` }],
+    isError: true
+  };
+}
 
 // 실제 TwelveLabs API 호출 부분
-async function createIndex(indexName: string) {
+async function createIndex(
+  indexName: string,
+  preset?: string,
+  models?: { modelName: string; modelOptions: string[] }[],
+  addons?: string[]
+) {
   try {
-    // SDK 대신 직접 REST API 호출로 변경
-    const url = `${BASE_URL}/indexes`;
-    
+    // 프리셋 → 명시적 models/addons 순서로 구성 결정
+    let indexModels: IndexModel[] = CONFIG.defaults.indexModels;
+    let indexAddons: IndexAddon[] = CONFIG.defaults.indexAddons;
+    if (preset) {
+      const selected = INDEX_PRESETS[preset];
+      if (!selected) {
+        throw new ValidationError(`알 수 없는 프리셋입니다: ${preset} (사용 가능: ${Object.keys(INDEX_PRESETS).join(", ")})`);
+      }
+      indexModels = selected.models;
+      indexAddons = selected.addons ?? [];
+    }
+    if (models) {
+      indexModels = models.map((m) => ({
+        model_name: m.modelName as IndexModel["model_name"],
+        model_options: m.modelOptions as IndexModel["model_options"]
+      }));
+    }
+    if (addons) {
+      indexAddons = addons as IndexAddon[];
+    }
+
+    // API 호출 전에 지원되는 모델/옵션 조합인지 확인
+    validateIndexConfiguration(indexModels, indexAddons);
+
     const body = {
       index_name: indexName,
-      models: [
-        {
-          model_name: "marengo2.7", // 문서 기반으로 모델 변경 (marengo2.7이 검색용)
-          model_options: ["visual", "audio"],
-        },
-        {
-          model_name: "pegasus1.2", // 문서 기반으로 모델 변경 (pegasus1.2가 텍스트 생성용)
-          model_options: ["visual", "audio"],
-        },
-      ],
-      addons: ["thumbnail"]
+      models: indexModels,
+      addons: indexAddons
     };
     
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
-    
-    if (!response.ok) {
-      throw new Error(`인덱스 생성 실패: ${response.status}`);
-    }
-    
-    const result = await response.json() as any;
-    console.error(`인덱스가 생성되었습니다: id=${result._id || result.id} name=${result.index_name || indexName}`);
+    const result = await api().post<ApiIndex>("/indexes", { json: body });
+    logger.info(`인덱스가 생성되었습니다: id=${result._id || result.id} name=${result.index_name || indexName}`);
     
     return {
       status: 'success',
       indexId: result._id || result.id,
       indexName: result.index_name || indexName,
+      models: indexModels,
+      addons: indexAddons,
       message: "인덱스가 성공적으로 생성되었습니다"
     };
   } catch (error) {
-    console.error('인덱스 생성 중 오류:', error);
+    logger.error('인덱스 생성 중 오류:', error);
     throw error;
   }
 }
 
-async function uploadVideos(indexId: string, url?: string, filePath?: string, enableVideoStream: boolean = true) {
+async function uploadVideos(
+  indexId: string,
+  url?: string,
+  filePath?: string,
+  enableVideoStream: boolean = CONFIG.defaults.enableVideoStream,
+  reportProgress?: (progress: number, total?: number, message?: string) => void
+) {
   try {
-    // API 엔드포인트
-    const apiUrl = `${BASE_URL}/tasks`;
-    
-    // FormData 객체 생성
-    const form = new FormData();
-    form.append('index_id', indexId);
-    
-    // 스트리밍 옵션 추가
-    form.append('enable_video_stream', enableVideoStream.toString());
-    
+    let result: ApiCreated;
     if (url) {
+      // FormData 객체 생성
+      const form = new FormData();
+      form.append('index_id', indexId);
+      
+      // 스트리밍 옵션 추가
+      form.append('enable_video_stream', enableVideoStream.toString());
       form.append('video_url', url);
-      console.error(`URL로 비디오 업로드: ${url}`);
+      logger.info(`URL로 비디오 업로드: ${url}`);
+
+      result = await api().post<ApiCreated>("/tasks", { form });
     } else if (filePath) {
-      // 현재는 URL만 지원하고 로컬 파일 업로드는 구현되지 않음
-      throw new Error("파일 업로드는 아직 지원되지 않습니다. URL을 사용해주세요.");
-    } else {
-      throw new Error("URL 또는 파일 경로가 필요합니다.");
-    }
+      // 전송 전에 경로, 확장자, 크기 검증
+      const file = await resolveLocalVideoFile(filePath);
+      logger.info(`로컬 파일로 비디오 업로드: ${file.absolutePath} (${file.size} bytes)`);
 
-    // 요청 옵션 설정 (multipart/form-data 형식)
-    const options = {
-      method: 'POST',
-      headers: {
-        'x-api-key': TWELVELABS_API_KEY
-      },
-      body: form
-    };
-    
-    console.error(`API 요청: ${apiUrl}`);
-    
-    const response = await fetch(apiUrl, options);
-    const responseText = await response.text();
-    
-    console.error(`API 응답 상태: ${response.status}`);
-    
-    if (!response.ok) {
-      console.error(`API 응답 에러: ${responseText}`);
-      throw new Error(`비디오 업로드 실패: ${response.status}, 응답: ${responseText}`);
+      result = await api().post<ApiCreated>("/tasks", {
+        multipart: () => createMultipartFileBody(
+          {
+            index_id: indexId,
+            enable_video_stream: enableVideoStream.toString()
+          },
+          'video_file',
+          file,
+          createUploadProgressCallback(file.fileName, reportProgress)
+        ),
+        timeoutMs: UPLOAD_TIMEOUT_MS
+      });
+    } else {
+      throw new ValidationError("URL 또는 파일 경로가 필요합니다.");
     }
     
-    // 응답이 유효한 JSON인지 확인
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      console.error(`JSON 파싱 오류: ${e}`);
-      throw new Error(`응답을 파싱할 수 없습니다: ${responseText}`);
+    const taskId = result._id || result.id;
+    if (!taskId) {
+      throw new TwelveLabsError("작업 생성 응답에 작업 ID가 없습니다.", { method: "POST", path: "/tasks" });
     }
-    
-    console.error(`태스크 생성됨: id=${result._id || result.id}, video_id=${result.video_id}`);
+    logger.info(`태스크 생성됨: id=${taskId}, video_id=${result.video_id}`);
+    // 제출한 호출을 기록. 인덱싱이 끝나면 길이를 이 세션과 도구에 기록
+    recordUsage({ indexId, taskId });
     
     return {
       status: 'success',
-      taskId: result._id || result.id,
+      taskId,
       videoId: result.video_id,
       indexId: indexId,
       message: "비디오 업로드 작업이 시작되었습니다."
     };
   } catch (error) {
-    console.error('비디오 업로드 중 오류:', error);
+    logger.error('비디오 업로드 중 오류:', error);
     throw error;
   }
 }
 
-async function searchVideos(
-  indexId: string, 
-  queryText: string, 
-  options: string[] = ["visual", "audio"], 
-  operator: string = "or",
-  limit: number = 10
+// 업로드 진행률 알림은 5% 단위로만 전송
+function createUploadProgressCallback(
+  fileName: string,
+  reportProgress?: (progress: number, total?: number, message?: string) => void
 ) {
-  try {
-    // SDK 직접 사용 대신 REST API 호출로 변경
-    const url = `${BASE_URL}/indexes/${indexId}/search`;
-    
-    const body = {
-      query: queryText,
-      search_options: {
-        query_mode: "semantic",
-        search_type: options.includes("visual") ? "visual" : "conversation",
-      },
-      group_by: "video",
-      page_limit: limit
-    };
-    
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
-    
-    if (!response.ok) {
-      throw new Error(`검색 실패: ${response.status}`);
+  let lastPercent = -1;
+  return (sentBytes: number, totalBytes: number) => {
+    const percent = Math.floor((sentBytes / totalBytes) * 100);
+    if (percent - lastPercent >= 5 || sentBytes === totalBytes) {
+      lastPercent = percent;
+      reportProgress?.(sentBytes, totalBytes, `${fileName} 업로드 중 (${percent}%)`);
     }
-    
-    const result = await response.json() as any;
-    console.error(`검색 완료: ${result.data?.length || 0}개 결과 찾음`);
-    
-    return {
-      status: 'success',
-      totalCount: result.data?.length || 0,
-      results: result.data || []
-    };
-  } catch (error) {
-    console.error('비디오 검색 중 오류:', error);
-    throw error;
-  }
+  };
 }
 
-async function generateTextFromVideo(videoId: string, prompt?: string, temperature: number = 0.2) {
-  try {
-    // 엔드포인트 확인
-    const url = `${BASE_URL}/generate`;
-    
-    // 프롬프트 구성 (mode에 따라 다른 프롬프트 생성)
-    let finalPrompt = prompt;
-    if (!finalPrompt) {
-      finalPrompt = "Generate a detailed text based on this video.";
-    }
-    
-    // 요청 본문 구성 - 문서 기반으로 정확한 필드 사용
-    const body = {
-      video_id: videoId,
-      prompt: finalPrompt,
-      temperature: temperature,
-      stream: false // 스트리밍 미사용
-    };
-    
-    console.error(`텍스트 생성 요청: ${JSON.stringify(body)}`);
-    
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
-    
-    const responseText = await response.text();
-    console.error(`API 응답 상태: ${response.status}, 응답 본문: ${responseText.substring(0, 500)}...`); // 응답 본문 일부만 로깅
-    
-    if (!response.ok) {
-      throw new Error(`텍스트 생성 실패: ${response.status}, 응답: ${responseText}`);
+interface SearchParams {
+  options?: string[];
+  operator?: string;
+  limit?: number;
+  groupBy?: string;
+  threshold?: string;
+  sortOption?: string;
+  adjustConfidenceLevel?: number;
+  filter?: Record<string, unknown>;
+}
+
+// 검색 파라미터를 검증하고 기본값을 채움
+function resolveSearchParams(params: SearchParams) {
+  const {
+    options = ["visual", "audio"],
+    operator = "or",
+    limit = CONFIG.defaults.searchLimit,
+    groupBy = "video",
+    threshold,
+    sortOption,
+    adjustConfidenceLevel,
+    filter
+  } = params;
+
+  const errors: string[] = [];
+  if (!Array.isArray(options) || options.length === 0) {
+    errors.push("options must contain at least one of: visual, audio");
+  } else {
+    for (const option of options) {
+      if (!["visual", "audio"].includes(option)) {
+        errors.push(`unsupported search option "${option}" (supported: visual, audio)`);
+      }
     }
-    
-    // 응답이 유효한 JSON인지 확인
-    let result;
-    try {
-      result = JSON.parse(responseText);
+  }
+  if (!["and", "or"].includes(operator)) {
+    errors.push(`operator must be "and" or "or" (got "${operator}")`);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+    errors.push(`limit must be an integer between 1 and 50 (got ${limit})`);
+  }
+  if (!["clip", "video"].includes(groupBy)) {
+    errors.push(`groupBy must be "clip" or "video" (got "${groupBy}")`);
+  }
+  if (threshold !== undefined && !["high", "medium", "low", "none"].includes(threshold)) {
+    errors.push(`threshold must be one of high, medium, low, none (got "${threshold}")`);
+  }
+  if (sortOption !== undefined && !["score", "clip_count"].includes(sortOption)) {
+    errors.push(`sortOption must be "score" or "clip_count" (got "${sortOption}")`);
+  }
+  if (sortOption === "clip_count" && groupBy !== "video") {
+    errors.push(`sortOption "clip_count" requires groupBy "video"`);
+  }
+  if (adjustConfidenceLevel !== undefined && (typeof adjustConfidenceLevel !== "number" || adjustConfidenceLevel < 0 || adjustConfidenceLevel > 1)) {
+    errors.push(`adjustConfidenceLevel must be a number between 0 and 1 (got ${adjustConfidenceLevel})`);
+  }
+  if (filter !== undefined && (typeof filter !== "object" || filter === null || Array.isArray(filter))) {
+    errors.push("filter must be an object");
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(`잘못된 검색 파라미터: ${errors.join("; ")}`);
+  }
+
+  return { options, operator, limit, groupBy, threshold, sortOption, adjustConfidenceLevel, filter };
+}
+
+interface SearchQuery {
+  text?: string;
+  imagePath?: string;
+  imageUrl?: string;
+  imageBase64?: string;
+}
+
+// 검색 요청에 넣을 수 있게 검증한 쿼리. 이미지 파일/base64는 한 번만 읽어 여러 인덱스 검색에 함께 사용
+interface PreparedSearchQuery {
+  queryType: "text" | "image" | "text+image";
+  text?: string;
+  imageUrl?: string;
+  image?: { buffer: Buffer; mimeType: string; fileName: string };
+}
+
+// 텍스트/이미지 쿼리를 검증하고 이미지를 읽어 둠
+async function prepareSearchQuery(query: SearchQuery): Promise<PreparedSearchQuery> {
+  const text = query.text?.trim();
+  const imageSources = [query.imagePath, query.imageUrl, query.imageBase64].filter((v) => v);
+  if (imageSources.length > 1) {
+    throw new ValidationError("이미지 쿼리는 imagePath, imageUrl, imageBase64 중 하나만 지정할 수 있습니다.");
+  }
+  if (!text && imageSources.length === 0) {
+    throw new ValidationError("query 텍스트 또는 이미지(imagePath, imageUrl, imageBase64) 중 하나가 필요합니다.");
+  }
+
+  const queryType = text && imageSources.length > 0 ? "text+image" : text ? "text" : "image";
+  if (query.imagePath) {
+    const file = await resolveLocalImageFile(query.imagePath);
+    const buffer = await readFile(file.absolutePath);
+    return { queryType, text, image: { buffer, mimeType: file.mimeType, fileName: file.fileName } };
+  }
+  if (query.imageUrl) {
+    if (!/^https?:\/\//i.test(query.imageUrl)) {
+      throw new ValidationError(`imageUrl은 http(s) URL이어야 합니다: ${query.imageUrl}`);
+    }
+    return { queryType, text, imageUrl: query.imageUrl };
+  }
+  if (query.imageBase64) {
+    return { queryType, text, image: decodeBase64Image(query.imageBase64) };
+  }
+  return { queryType, text };
+}
+
+// 준비된 쿼리를 검색 요청 form에 추가
+function appendSearchQuery(form: FormData, query: PreparedSearchQuery) {
+  if (query.text) {
+    form.append('query_text', query.text);
+  }
+  if (query.image) {
+    form.append('query_media_type', 'image');
+    form.append('query_media_file', new Blob([query.image.buffer], { type: query.image.mimeType }), query.image.fileName);
+  } else if (query.imageUrl) {
+    form.append('query_media_type', 'image');
+    form.append('query_media_url', query.imageUrl);
+  }
+}
+
+async function searchVideos(indexId: string, query: PreparedSearchQuery, params: SearchParams = {}, maxClips?: number) {
+  try {
+    const { options, operator, limit, groupBy, threshold, sortOption, adjustConfidenceLevel, filter } =
+      resolveSearchParams(params);
+
+    // v1.3 검색 API는 multipart/form-data 형식의 /search 엔드포인트를 사용
+    const form = new FormData();
+    form.append('index_id', indexId);
+    appendSearchQuery(form, query);
+    const { queryType } = query;
+    // search_options는 옵션마다 같은 필드명을 반복해서 전송
+    for (const option of options) {
+      form.append('search_options', option);
+    }
+    if (options.length > 1) {
+      form.append('operator', operator);
+    }
+    form.append('group_by', groupBy);
+    form.append('page_limit', limit.toString());
+    if (threshold) form.append('threshold', threshold);
+    if (sortOption) form.append('sort_option', sortOption);
+    if (adjustConfidenceLevel !== undefined) form.append('adjust_confidence_level', adjustConfidenceLevel.toString());
+    if (filter) form.append('filter', JSON.stringify(filter));
+    
+    logger.info(`검색 요청: index=${indexId}, query_type=${queryType}, options=${options.join(",")}, operator=${operator}, group_by=${groupBy}`);
+    
+    // 검색은 상태를 바꾸지 않으므로 5xx에도 재시도
+    const result = await api().post<ApiPage<ApiSearchHit>>("/search", { form, idempotent: true });
+    logger.info(`검색 완료: ${result.data?.length || 0}개 결과 찾음`);
+    
+    const pages = await collectSearchPages(result, maxClips);
+    
+    return {
+      status: 'success',
+      totalCount: pages.results.length,
+      queryType,
+      searchOptions: options,
+      operator,
+      groupBy,
+      ...pages
+    };
+  } catch (error) {
+    logger.error('비디오 검색 중 오류:', error);
+    throw error;
+  }
+}
+
+interface SearchTarget {
+  indexId: string;
+  indexName: string | null;
+}
+
+// 검색 결과의 신뢰도 순위 (높을수록 앞)
+const CONFIDENCE_ORDER: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+// 모든 페이지를 순회해 계정의 인덱스 목록을 가져옴 (indexName이 있으면 그 이름으로 필터)
+async function listAllIndexes(indexName?: string) {
+  const indexes: ApiIndex[] = [];
+  for (let page = 1; ; page++) {
+    const result = await listIndexes(page, 50, undefined, undefined, indexName);
+    indexes.push(...result.indexes);
+    const totalPage = Number(result.pageInfo.total_page ?? page);
+    if (result.indexes.length === 0 || page >= totalPage) break;
+  }
+  return indexes;
+}
+
+/**
+ * search_videos의 검색 대상을 정합니다. indexId 하나만 주어지면 null을 반환해 기존 단일 인덱스 검색을 사용하고,
+ * indexIds나 indexNamePattern이 주어지면 인덱스 이름을 붙인 대상 목록을 반환합니다.
+ * 인자를 해석할 때 이미 가져온 인덱스 목록(knownIndexes)이 있으면 다시 조회하지 않습니다.
+ */
+async function resolveSearchTargets(
+  params: { indexId?: string; indexIds?: string[]; indexNamePattern?: string },
+  knownIndexes?: ApiIndex[]
+): Promise<SearchTarget[] | null> {
+  const given = (["indexId", "indexIds", "indexNamePattern"] as const).filter((key) => params[key] !== undefined && params[key] !== "");
+  if (given.length === 0) {
+    throw new ValidationError("indexId, indexIds, indexNamePattern 중 하나가 필요합니다.");
+  }
+  if (given.length > 1) {
+    throw new ValidationError(`indexId, indexIds, indexNamePattern 중 하나만 지정할 수 있습니다 (지정됨: ${given.join(", ")})`);
+  }
+  if (params.indexId) {
+    return null;
+  }
+
+  const indexes = knownIndexes ?? await listAllIndexes();
+  if (params.indexIds) {
+    const names = new Map(indexes.map((index) => [index._id, index.index_name]));
+    return [...new Set(params.indexIds)].map((indexId) => ({ indexId, indexName: names.get(indexId) ?? null }));
+  }
+
+  const pattern = namePatternToRegExp(params.indexNamePattern!);
+  const matched = indexes.filter((index) => pattern.test(index.index_name ?? ""));
+  if (matched.length === 0) {
+    throw new ValidationError(
+      `"${params.indexNamePattern}" 패턴과 일치하는 인덱스가 없습니다 (인덱스 ${indexes.length}개 확인). list_indexes로 이름을 확인하세요.`
+    );
+  }
+  if (matched.length > MAX_FEDERATED_INDEXES) {
+    throw new ValidationError(
+      `"${params.indexNamePattern}" 패턴과 일치하는 인덱스가 ${matched.length}개로 한도(${MAX_FEDERATED_INDEXES}개)를 넘습니다. 패턴을 좁히거나 indexIds를 사용하세요.`
+    );
+  }
+  logger.info(`인덱스 패턴 "${params.indexNamePattern}" 일치: ${matched.map((index) => index.index_name).join(", ")}`);
+  return matched.map((index) => ({ indexId: index._id, indexName: index.index_name ?? null }));
+}
+
+// 클립은 자신의 score/confidence, 비디오 그룹은 가장 좋은 클립의 값으로 순위를 매김
+function searchHitRanking(hit: ApiSearchHit) {
+  const clips: ApiSearchClip[] = Array.isArray(hit.clips) ? hit.clips : [hit];
+  return {
+    score: Math.max(...clips.map((clip) => (typeof clip.score === "number" ? clip.score : -Infinity))),
+    confidence: Math.max(0, ...clips.map((clip) => CONFIDENCE_ORDER[clip.confidence ?? ""] ?? 0))
+  };
+}
+
+/**
+ * 여러 인덱스를 동시에 검색하고 결과를 하나의 목록으로 합칩니다.
+ * 각 결과에는 index_id/index_name을 붙이고 score, confidence 순으로 정렬합니다.
+ * 합친 목록은 요청한 개수(maxClips가 있으면 클립 수, 없으면 limit)로 자르고, 잘린 결과가 있으면 hasMore로 알립니다.
+ * 일부 인덱스가 실패하면 sources에 오류를 기록하고, 모두 실패하면 첫 오류를 던집니다.
+ * 쿼리 이미지는 호출하는 쪽에서 한 번 준비해 모든 인덱스 검색에 씁니다.
+ */
+async function searchIndexes(targets: SearchTarget[], query: PreparedSearchQuery, params: SearchParams = {}, maxClips?: number) {
+  const outcomes: ({ target: SearchTarget; result?: Awaited<ReturnType<typeof searchVideos>>; error?: unknown })[] = targets.map((target) => ({ target }));
+  await runWithConcurrency(outcomes, FEDERATED_SEARCH_CONCURRENCY, async (outcome) => {
+    try {
+      // 검색마다 비용이 들므로 인덱스마다 예산을 확인 (한도에 도달한 뒤의 인덱스는 sources에 BudgetExceededError로 표시)
+      checkUsageBudget("searches");
+      outcome.result = await searchVideos(outcome.target.indexId, query, params, maxClips);
+      recordUsage({ indexId: outcome.target.indexId, searches: 1 });
+    } catch (error) {
+      outcome.error = error;
+    }
+  });
+
+  const succeeded = outcomes.flatMap(({ target, result }) => (result ? [{ target, result }] : []));
+  if (succeeded.length === 0) {
+    throw outcomes[0].error;
+  }
+
+  const ranked = succeeded
+    .flatMap(({ target, result }) =>
+      result.results.map((hit): ApiSearchHit => ({ ...hit, index_id: target.indexId, index_name: target.indexName }))
+    )
+    .map((hit) => ({ hit, ranking: searchHitRanking(hit) }))
+    .sort((a, b) => b.ranking.score - a.ranking.score || b.ranking.confidence - a.ranking.confidence)
+    .map(({ hit }) => hit);
+  const results = maxClips !== undefined
+    ? takeSearchClips(ranked, Math.min(Math.max(1, Math.floor(maxClips)), MAX_SEARCH_CLIPS))
+    : ranked.slice(0, params.limit ?? CONFIG.defaults.searchLimit);
+  const first = succeeded[0].result;
+  logger.info(
+    `다중 인덱스 검색 완료: ${succeeded.length}/${targets.length}개 인덱스, ${ranked.length}개 결과 중 ${results.length}개 반환`
+  );
+
+  return {
+    status: 'success',
+    totalCount: results.length,
+    queryType: first.queryType,
+    searchOptions: first.searchOptions,
+    operator: first.operator,
+    groupBy: first.groupBy,
+    clipCount: countSearchClips(results),
+    pagesFetched: succeeded.reduce((sum, { result }) => sum + result.pagesFetched, 0),
+    hasMore: results.length < ranked.length || succeeded.some(({ result }) => result.hasMore),
+    // 다음 페이지 토큰은 인덱스마다 다르므로 sources에서 확인
+    nextPageToken: null,
+    sources: outcomes.map(({ target, result, error }) => ({
+      indexId: target.indexId,
+      indexName: target.indexName,
+      ...(result
+        ? { totalCount: result.totalCount, clipCount: result.clipCount, hasMore: result.hasMore, nextPageToken: result.nextPageToken }
+        : { error: error instanceof Error ? error.message : String(error) })
+    })),
+    results
+  };
+}
+
+async function searchVideosNextPage(pageToken: string, maxClips?: number) {
+  try {
+    const result = await fetchSearchPage(pageToken);
+    const pages = await collectSearchPages(result, maxClips);
+    
+    return {
+      status: 'success',
+      totalCount: pages.results.length,
+      ...pages
+    };
+  } catch (error) {
+    logger.error('검색 다음 페이지 조회 중 오류:', error);
+    throw error;
+  }
+}
+
+async function fetchSearchPage(pageToken: string) {
+  const result = await api().get<ApiPage<ApiSearchHit>>(`/search/${encodeURIComponent(pageToken)}`);
+  logger.info(`검색 페이지 조회 완료: ${result.data?.length || 0}개 결과 찾음`);
+  return result;
+}
+
+// video 단위로 묶인 결과는 clips 개수, clip 단위 결과는 1개로 계산
+function countSearchClips(items: ApiSearchHit[]): number {
+  return items.reduce((sum, item) => sum + (Array.isArray(item?.clips) ? item.clips.length : 1), 0);
+}
+
+// 순위순 결과의 앞에서부터 클립 수가 clipLimit에 도달할 때까지 가져옴 (영상별 결과는 통째로 포함)
+function takeSearchClips(items: ApiSearchHit[], clipLimit: number): ApiSearchHit[] {
+  const taken: ApiSearchHit[] = [];
+  let clips = 0;
+  for (const item of items) {
+    if (clips >= clipLimit) break;
+    taken.push(item);
+    clips += countSearchClips([item]);
+  }
+  return taken;
+}
+
+/**
+ * 첫 페이지 응답에서 시작해 maxClips가 주어지면 다음 페이지를 계속 가져옵니다.
+ * maxClips를 채우거나, 더 이상 페이지가 없거나, MAX_SEARCH_PAGES에 도달하면 멈춥니다.
+ */
+async function collectSearchPages(firstPage: ApiPage<ApiSearchHit>, maxClips?: number) {
+  const results: ApiSearchHit[] = [...(firstPage.data || [])];
+  let pageInfo: ApiPageInfo = firstPage.page_info || {};
+  let nextPageToken: string | undefined = pageInfo.next_page_token;
+  let pagesFetched = 1;
+
+  if (maxClips !== undefined) {
+    const clipLimit = Math.min(Math.max(1, Math.floor(maxClips)), MAX_SEARCH_CLIPS);
+    while (nextPageToken && countSearchClips(results) < clipLimit && pagesFetched < MAX_SEARCH_PAGES) {
+      const page = await fetchSearchPage(nextPageToken);
+      results.push(...(page.data || []));
+      pageInfo = page.page_info || {};
+      nextPageToken = pageInfo.next_page_token;
+      pagesFetched++;
+    }
+    logger.info(`검색 페이지 수집 완료: ${pagesFetched}페이지, ${countSearchClips(results)}개 클립`);
+  }
+
+  return {
+    clipCount: countSearchClips(results),
+    pagesFetched,
+    hasMore: Boolean(nextPageToken),
+    nextPageToken: nextPageToken || null,
+    pageInfo,
+    results
+  };
+}
+
+// 사용량 기록의 세션 구분 값 (stdio는 세션 ID가 없음)
+function usageSession(extra: RequestExtra) {
+  return extra.sessionId ?? "stdio";
+}
+
+// 현재 도구 호출의 세션과 API 키에 걸린 예산을 확인
+function checkUsageBudget(metric: UsageMetric) {
+  const context = usageContext.getStore();
+  USAGE_LEDGER.checkBudgets(metric, api().accountId, context?.session ?? "-");
+}
+
+// 현재 도구 호출(없으면 리소스 조회)과 API 키로 사용량을 기록. attribution을 주면 그 세션과 도구에 기록
+function recordUsage(
+  record: Omit<UsageRecord, "time" | "account" | "session" | "tool">,
+  attribution: { session: string; tool: string } | undefined = usageContext.getStore()
+) {
+  USAGE_LEDGER.record({ account: api().accountId, session: attribution?.session ?? "-", tool: attribution?.tool ?? "resources", ...record });
+}
+
+// 생성 결과의 usage 토큰을 기록. 캐시에서 돌려준 결과는 비용 없이 호출 수만 기록
+function recordGenerationUsage(videoId: string, result: Record<string, unknown>) {
+  const cached = (result.cache as { hit?: boolean } | undefined)?.hit === true;
+  recordUsage({ videoId, ...(cached ? {} : tokensFromUsage(result.usage)), cached });
+}
+
+/**
+ * 인덱싱 작업이 ready가 되면 영상 길이를 인덱싱 사용량으로 한 번만 기록합니다.
+ * 이 서버로 제출한 작업이면 ready를 본 경로와 관계없이 제출한 세션과 도구에 기록합니다.
+ * 작업 응답에 길이가 없으면 영상 정보를 조회합니다.
+ */
+async function recordIndexingUsage(task: ApiTask) {
+  const account = api().accountId;
+  if (task?.status !== "ready" || !task._id || USAGE_LEDGER.hasIndexedTask(account, task._id)) {
+    return;
+  }
+  const submitter = USAGE_LEDGER.taskSubmitter(account, task._id);
+  let duration = task.system_metadata?.duration;
+  if (typeof duration !== "number" && task.index_id && task.video_id) {
+    try {
+      const video = await api().get<ApiVideo>(`/indexes/${task.index_id}/videos/${task.video_id}`);
+      duration = video.system_metadata?.duration;
     } catch (e) {
-      console.error(`JSON 파싱 오류: ${e}`);
-      throw new Error(`응답을 파싱할 수 없습니다: ${responseText}`);
+      logger.warn(`인덱싱 사용량의 영상 길이 조회 실패 (${task.video_id}): ${e}`);
+    }
+  }
+  recordUsage(
+    { indexId: task.index_id, videoId: task.video_id ?? undefined, taskId: task._id, indexedSec: typeof duration === "number" ? duration : 0 },
+    submitter ?? usageContext.getStore()
+  );
+}
+
+function parseReportTime(value: string, field: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be an ISO 8601 date-time (got "${value}")`);
+  }
+  return date;
+}
+
+function getUsageReport(
+  session: string,
+  params: { scope: "session" | "account"; groupBy?: UsageGroupBy; window?: UsageWindow; since?: string; until?: string; lastHours?: number }
+) {
+  const account = api().accountId;
+  const since = params.since
+    ? parseReportTime(params.since, "since")
+    : params.lastHours !== undefined ? new Date(Date.now() - params.lastHours * 60 * 60 * 1000) : undefined;
+  const until = params.until ? parseReportTime(params.until, "until") : undefined;
+  const report = USAGE_LEDGER.report({
+    account,
+    session: params.scope === "session" ? session : undefined,
+    since,
+    until,
+    groupBy: params.groupBy,
+    window: params.window
+  });
+  return {
+    status: 'success',
+    scope: params.scope,
+    session,
+    since: since?.toISOString() ?? null,
+    until: until?.toISOString() ?? null,
+    ...report,
+    budgets: USAGE_LEDGER.budgetStatus(account, session)
+  };
+}
+
+/**
+ * 결과 캐시를 거쳐 produce를 실행합니다. 캐시에 유효한 결과가 있으면 API를 호출하지 않고 그 결과를 반환합니다.
+ * bypassCache면 조회만 건너뛰고 새 결과로 캐시를 갱신합니다. 반환값의 cache 필드에 적중 여부를 담습니다.
+ */
+async function withResultCache<T extends Record<string, unknown>>(
+  parts: Omit<ResultCacheKeyParts, "account">,
+  bypassCache: boolean,
+  produce: () => Promise<T>,
+  shouldStore: (result: T) => boolean = () => true
+): Promise<Record<string, unknown>> {
+  if (!RESULT_CACHE.enabled) {
+    return produce();
+  }
+  const keyParts: ResultCacheKeyParts = { ...parts, account: api().accountId };
+  const key = resultCacheKey(keyParts);
+  if (!bypassCache) {
+    const cached = await RESULT_CACHE.get(key);
+    if (cached) {
+      logger.info(`결과 캐시 적중: ${parts.endpoint} ${parts.videoId} (${cached.info.store}, ${cached.info.cachedAt} 저장)`);
+      return { ...cached.value, cache: cached.info };
+    }
+  }
+  const result = await produce();
+  const cache = shouldStore(result) ? await RESULT_CACHE.set(key, keyParts, result) : { hit: false };
+  return { ...result, cache };
+}
+
+async function clearResultCache(videoId?: string, endpoint?: string, expiredOnly: boolean = false) {
+  const removedByStore = await RESULT_CACHE.clear({ account: api().accountId, videoId, endpoint, expiredOnly });
+  const removed = Object.values(removedByStore).reduce((sum, count) => sum + count, 0);
+  logger.info(`결과 캐시 삭제: ${removed}개 (${JSON.stringify(removedByStore)})`);
+  return {
+    status: 'success',
+    enabled: RESULT_CACHE.enabled,
+    removed,
+    removedByStore,
+    remainingByStore: await RESULT_CACHE.stats(),
+    ttlSec: RESULT_CACHE.ttlSec
+  };
+}
+
+async function generateTextFromVideo(videoId: string, prompt?: string, temperature: number = CONFIG.defaults.temperature) {
+  try {
+    // 프롬프트 구성 (mode에 따라 다른 프롬프트 생성)
+    let finalPrompt = prompt;
+    if (!finalPrompt) {
+      finalPrompt = "Generate a detailed text based on this video.";
     }
     
-    console.error(`텍스트 생성 완료: ${videoId}, 응답 구조: ${Object.keys(result).join(", ")}`);
+    // 요청 본문 구성 - 문서 기반으로 정확한 필드 사용
+    const body = {
+      video_id: videoId,
+      prompt: finalPrompt,
+      temperature: temperature,
+      stream: false // 스트리밍 미사용
+    };
+    
+    logger.info(`텍스트 생성 요청: ${JSON.stringify(body)}`);
+    
+    const result = await api().post<ApiGenerateResponse>("/generate", { json: body });
+    
+    logger.info(`텍스트 생성 완료: ${videoId}, 응답 구조: ${Object.keys(result).join(", ")}`);
     
     // API 문서 기반 필드 처리 - 응답에 id, data, usage 필드 포함됨
     return {
@@ -789,7 +2423,89 @@ async function generateTextFromVideo(videoId: string, prompt?: string, temperatu
       temperature // 응답에 사용된 temperature 값도 포함
     };
   } catch (error) {
-    console.error('텍스트 생성 중 오류:', error);
+    logger.error('텍스트 생성 중 오류:', error);
+    throw error;
+  }
+}
+
+/**
+ * /generate를 stream: true로 호출해 NDJSON 이벤트(stream_start, text_generation, stream_end)를 읽습니다.
+ * 텍스트 조각은 도착하는 대로 onDelta로 전달하고, 끝나면 전체 텍스트와 usage를 반환합니다.
+ */
+async function generateTextFromVideoStream(
+  videoId: string,
+  prompt?: string,
+  temperature: number = CONFIG.defaults.temperature,
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
+) {
+  try {
+    const body = {
+      video_id: videoId,
+      prompt: prompt || "Generate a detailed text based on this video.",
+      temperature: temperature,
+      stream: true
+    };
+    
+    logger.info(`스트리밍 텍스트 생성 요청: ${JSON.stringify(body)}`);
+    
+    // 본문을 다 읽을 때까지 취소 신호를 유지하고, 이벤트 사이 대기가 길어지면 중단
+    const { chunks, requestId } = await api().stream("POST", "/generate", { json: body, signal });
+    
+    let id = "";
+    let usage: ApiUsage = {};
+    let text = "";
+    let buffer = "";
+    let finished = false;
+    // 청크 경계에서 멀티바이트 문자가 깨지지 않도록 스트리밍 디코더 사용
+    const decoder = new TextDecoder("utf-8");
+    
+    const handleLine = (line: string) => {
+      if (line.trim() === "") return;
+      let event;
+      try {
+        event = JSON.parse(line);
+      } catch (e) {
+        logger.warn(`NDJSON 파싱 오류 (무시): ${line.substring(0, 200)}`);
+        return;
+      }
+      if (event.event_type === "stream_start") {
+        id = event.metadata?.generation_id || id;
+      } else if (event.event_type === "text_generation") {
+        const delta = event.text || "";
+        text += delta;
+        if (delta) onDelta?.(delta);
+      } else if (event.event_type === "stream_end") {
+        id = event.metadata?.generation_id || id;
+        usage = event.metadata?.usage || usage;
+        finished = true;
+      }
+    };
+    
+    for await (const chunk of chunks) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newline;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        handleLine(buffer.substring(0, newline));
+        buffer = buffer.substring(newline + 1);
+      }
+    }
+    handleLine(buffer + decoder.decode());
+    
+    logger.info(`스트리밍 텍스트 생성 완료: ${videoId}, ${text.length}자, stream_end=${finished} [request_id=${requestId}]`);
+    
+    return {
+      status: 'success',
+      text,
+      id,
+      usage,
+      videoId,
+      temperature,
+      streamed: true,
+      complete: finished
+    };
+  } catch (error) {
+    logger.error('스트리밍 텍스트 생성 중 오류:', error);
     throw error;
   }
 }
@@ -803,29 +2519,16 @@ async function listIndexes(
   indexName?: string
 ) {
   try {
-    // 쿼리 파라미터 구성
-    const queryParams = new URLSearchParams();
-    if (page) queryParams.append('page', page.toString());
-    if (pageLimit) queryParams.append('page_limit', pageLimit.toString());
-    if (sortBy) queryParams.append('sort_by', sortBy);
-    if (sortOption) queryParams.append('sort_option', sortOption);
-    if (indexName) queryParams.append('index_name', indexName);
-
-    const url = `${BASE_URL}/indexes${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
+    const result = await api().get<ApiPage<ApiIndex>>("/indexes", {
+      query: {
+        page,
+        page_limit: pageLimit,
+        sort_by: sortBy,
+        sort_option: sortOption,
+        index_name: indexName
       }
     });
-    
-    if (!response.ok) {
-      throw new Error(`인덱스 목록 조회 실패: ${response.status}`);
-    }
-    
-    const result = await response.json() as any;
-    console.error(`인덱스 목록 조회 완료: ${result.data?.length || 0}개 인덱스 찾음`);
+    logger.info(`인덱스 목록 조회 완료: ${result.data?.length || 0}개 인덱스 찾음`);
     
     return {
       status: 'success',
@@ -834,97 +2537,346 @@ async function listIndexes(
       pageInfo: result.page_info || {}
     };
   } catch (error) {
-    console.error('인덱스 목록 조회 중 오류:', error);
+    logger.error('인덱스 목록 조회 중 오류:', error);
     throw error;
   }
 }
 
-async function getIndex(indexName: string) {
-  try {
-    const url = `${BASE_URL}/indexes?index_name=${indexName}`;
-    
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`인덱스 조회 실패: ${response.status}`);
+// TwelveLabs 인덱스 ID 형식 (24자리 16진수)
+const INDEX_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+// 계정(API 키)별로 존재를 확인한 인덱스 ID. 같은 ID로 다시 호출할 때 확인 요청을 생략
+const KNOWN_INDEX_IDS = new Map<string, Set<string>>();
+
+function rememberIndexId(indexId: string) {
+  const account = api().accountId;
+  let known = KNOWN_INDEX_IDS.get(account);
+  if (!known) {
+    known = new Set();
+    KNOWN_INDEX_IDS.set(account, known);
+  }
+  known.add(indexId);
+}
+
+function forgetIndexId(indexId: string) {
+  KNOWN_INDEX_IDS.get(api().accountId)?.delete(indexId);
+}
+
+/**
+ * 인덱스 ID 또는 정확한 인덱스 이름을 인덱스 ID로 바꿉니다.
+ * ID 형식이면 먼저 그 ID의 인덱스를 조회하고, 없으면 이름으로 찾습니다 (이름도 ID 형식일 수 있음).
+ * 이미 확인한 ID는 다시 조회하지 않습니다.
+ * 이름은 모든 페이지를 조회해 정확히 하나가 일치할 때만 그 ID를 반환합니다.
+ */
+async function resolveIndexId(reference: string): Promise<string> {
+  let idError: unknown;
+  if (INDEX_ID_PATTERN.test(reference)) {
+    if (KNOWN_INDEX_IDS.get(api().accountId)?.has(reference)) {
+      return reference;
     }
-    
-    const result = await response.json() as any;
-    console.error(`인덱스 조회 완료: id=${result._id}`);
+    try {
+      await api().get(`/indexes/${encodeURIComponent(reference)}`);
+      rememberIndexId(reference);
+      return reference;
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      idError = error;
+    }
+  }
+  // 이름 필터가 부분 일치일 수 있으므로 정확히 같은 이름만 사용
+  const matches = (await listAllIndexes(reference)).filter((index) => index.index_name === reference);
+  if (matches.length === 0) {
+    if (idError) throw idError;
+    throw new NotFoundError(`"${reference}"은(는) 인덱스 ID 형식이 아니고, 이 이름의 인덱스도 없습니다. list_indexes로 ID나 이름을 확인하세요.`);
+  }
+  if (matches.length > 1) {
+    throw new ValidationError(
+      `"${reference}" 이름의 인덱스가 ${matches.length}개입니다 (${matches.map((index) => index._id).join(", ")}). 인덱스 ID를 지정하세요.`
+    );
+  }
+  logger.info(`인덱스 이름 확인: ${reference} → ${matches[0]._id}`);
+  rememberIndexId(matches[0]._id);
+  return matches[0]._id;
+}
+
+/**
+ * 가져온 인덱스 목록에서 ID 또는 정확한 이름으로 인덱스 ID를 찾습니다.
+ * 목록에 없는 ID 형식 값은 그대로 돌려주어 검색 결과의 sources에 오류로 나타나게 합니다.
+ */
+function indexIdFromList(reference: string, indexes: ApiIndex[]): string {
+  if (indexes.some((index) => index._id === reference)) {
+    return reference;
+  }
+  const matches = indexes.filter((index) => index.index_name === reference);
+  if (matches.length === 1) {
+    return matches[0]._id;
+  }
+  if (matches.length > 1) {
+    throw new ValidationError(
+      `"${reference}" 이름의 인덱스가 ${matches.length}개입니다 (${matches.map((index) => index._id).join(", ")}). 인덱스 ID를 지정하세요.`
+    );
+  }
+  if (!INDEX_ID_PATTERN.test(reference)) {
+    throw new NotFoundError(`"${reference}"은(는) 인덱스 ID 형식이 아니고, 이 이름의 인덱스도 없습니다. list_indexes로 ID나 이름을 확인하세요.`);
+  }
+  return reference;
+}
+
+/**
+ * 검증된 인자의 indexId/indexIds에 있는 인덱스 이름을 ID로 바꿉니다.
+ * indexIds를 확인하려고 가져온 인덱스 목록은 검색 대상에 이름을 붙일 때 다시 쓰도록 함께 반환합니다.
+ */
+async function resolveIndexArguments(args: Record<string, unknown>): Promise<{ args: Record<string, unknown>; indexes?: ApiIndex[] }> {
+  const resolved = { ...args };
+  if (typeof args.indexId === "string" && args.indexId !== "") {
+    resolved.indexId = await resolveIndexId(args.indexId);
+  }
+  if (Array.isArray(args.indexIds)) {
+    const indexes = await listAllIndexes();
+    resolved.indexIds = args.indexIds.map((reference) => indexIdFromList(String(reference), indexes));
+    return { args: resolved, indexes };
+  }
+  return { args: resolved };
+}
+
+async function getIndex(indexId: string) {
+  try {
+    const result = await api().get<ApiIndex>(`/indexes/${encodeURIComponent(indexId)}`);
+    logger.info(`인덱스 조회 완료: id=${result._id}, name=${result.index_name}`);
     
     return {
       status: 'success',
+      indexId: result._id,
+      indexName: result.index_name,
+      models: result.models || [],
+      addons: result.addons || [],
+      videoCount: result.video_count ?? 0,
+      totalDuration: result.total_duration ?? 0,
       index: result
     };
   } catch (error) {
-    console.error('인덱스 조회 중 오류:', error);
+    logger.error('인덱스 조회 중 오류:', error);
     throw error;
   }
 }
 
 async function updateIndex(indexId: string, indexName: string) {
   try {
-    const url = `${BASE_URL}/indexes/${indexId}`;
-    
     const body = {
       index_name: indexName
     };
     
-    const response = await fetch(url, {
-      method: "PUT",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
-    
-    if (!response.ok) {
-      throw new Error(`인덱스 업데이트 실패: ${response.status}`);
-    }
-    
-    const result = await response.json() as any;
-    console.error(`인덱스 업데이트 완료: id=${result._id}`);
+    const result = await api().put<ApiIndex>(`/indexes/${indexId}`, { json: body });
+    logger.info(`인덱스 업데이트 완료: id=${result._id || indexId}`);
     
     return {
       status: 'success',
       index: result
     };
   } catch (error) {
-    console.error('인덱스 업데이트 중 오류:', error);
+    logger.error('인덱스 업데이트 중 오류:', error);
     throw error;
   }
 }
 
+// 삭제 미리보기와 보호 검사에 쓰는 대상 정보
+async function indexDeletionTarget(indexId: string): Promise<DeletionTarget> {
+  const index = await api().get<ApiIndex>(`/indexes/${encodeURIComponent(indexId)}`);
+  return {
+    indexId,
+    indexName: index.index_name ?? null,
+    videoCount: index.video_count ?? 0,
+    totalDuration: index.total_duration ?? 0
+  };
+}
+
+async function videoDeletionTarget(indexId: string, videoId: string): Promise<DeletionTarget> {
+  const index = await indexDeletionTarget(indexId);
+  const video = await api().get<ApiVideo>(`/indexes/${encodeURIComponent(indexId)}/videos/${encodeURIComponent(videoId)}`);
+  return {
+    ...index,
+    videoId,
+    filename: video.system_metadata?.filename ?? null,
+    duration: video.system_metadata?.duration ?? null
+  };
+}
+
+// 인덱스가 이미 삭제된 작업도 지울 수 있도록 인덱스가 없으면 이름 없이 진행 (ID 보호 규칙은 그대로 적용)
+async function taskDeletionTarget(taskId: string): Promise<DeletionTarget> {
+  const task = await api().get<ApiTask>(`/tasks/${encodeURIComponent(taskId)}`);
+  const index: DeletionTarget = await indexDeletionTarget(task.index_id).catch((error) => {
+    if (error instanceof NotFoundError) return { indexId: task.index_id, indexName: null };
+    throw error;
+  });
+  return {
+    ...index,
+    taskId,
+    taskStatus: task.status,
+    videoId: task.video_id ?? null,
+    filename: task.system_metadata?.filename ?? null
+  };
+}
+
+/**
+ * 삭제 도구 공통 안전장치. 보호된 인덱스면 예외를 던지고, dryRun이거나 확인 토큰이 필요한데 없으면
+ * 삭제하지 않고 미리보기(와 새 확인 토큰)를 반환합니다. 삭제를 진행해도 되면 undefined를 반환합니다.
+ */
+function guardDeletion(
+  tool: string,
+  targetArgs: Record<string, string>,
+  target: DeletionTarget,
+  options: { dryRun?: boolean; confirmationToken?: string }
+) {
+  checkProtectedIndex(tool, target);
+  const { requireConfirmation } = CONFIG.guardrails;
+  if (options.dryRun || (requireConfirmation && !options.confirmationToken)) {
+    const confirmation = requireConfirmation ? CONFIRMATIONS.issue(tool, targetArgs, api().accountId) : undefined;
+    logger.info(`삭제 미리보기: ${tool} ${JSON.stringify(targetArgs)}`);
+    return {
+      status: 'success',
+      ...targetArgs,
+      dryRun: true,
+      deleted: false,
+      target,
+      ...confirmation,
+      message: confirmation
+        ? `삭제되지 않았습니다. 삭제하려면 같은 인자와 confirmationToken으로 ${confirmation.expiresAt}까지 다시 호출하세요.`
+        : "삭제되지 않았습니다 (dryRun)."
+    };
+  }
+  if (requireConfirmation) {
+    CONFIRMATIONS.redeem(options.confirmationToken!, tool, targetArgs, api().accountId);
+  }
+  return undefined;
+}
+
 async function deleteIndex(indexId: string) {
   try {
-    const url = `${BASE_URL}/indexes/${indexId}`;
+    await api().delete(`/indexes/${indexId}`);
+    forgetIndexId(indexId);
+    
+    logger.info(`인덱스 삭제 완료: id=${indexId}`);
     
-    const response = await fetch(url, {
-      method: "DELETE",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
+    return {
+      status: 'success',
+      indexId: indexId,
+      message: "인덱스가 성공적으로 삭제되었습니다"
+    };
+  } catch (error) {
+    logger.error('인덱스 삭제 중 오류:', error);
+    throw error;
+  }
+}
+
+async function listVideos(
+  indexId: string,
+  page?: number,
+  pageLimit?: number,
+  sortBy?: string,
+  sortOption?: string,
+  filters: { filename?: string; duration?: number; createdAt?: string; updatedAt?: string } = {}
+) {
+  try {
+    const result = await api().get<ApiPage<ApiVideo>>(`/indexes/${indexId}/videos`, {
+      query: {
+        page,
+        page_limit: pageLimit,
+        sort_by: sortBy,
+        sort_option: sortOption,
+        filename: filters.filename,
+        duration: filters.duration,
+        created_at: filters.createdAt,
+        updated_at: filters.updatedAt
       }
     });
+    logger.info(`비디오 목록 조회 완료: ${result.data?.length || 0}개 비디오 찾음`);
     
-    if (!response.ok) {
-      throw new Error(`인덱스 삭제 실패: ${response.status}`);
+    return {
+      status: 'success',
+      indexId,
+      totalCount: result.data?.length || 0,
+      videos: result.data || [],
+      pageInfo: result.page_info || {}
+    };
+  } catch (error) {
+    logger.error('비디오 목록 조회 중 오류:', error);
+    throw error;
+  }
+}
+
+async function getVideo(indexId: string, videoId: string, includeTranscription: boolean = false) {
+  try {
+    const result = await api().get<ApiVideo>(`/indexes/${indexId}/videos/${videoId}`, {
+      query: { transcription: includeTranscription ? "true" : undefined }
+    });
+    logger.info(`비디오 조회 완료: id=${result._id}`);
+    
+    // 자주 쓰는 필드는 최상위로 꺼내고 원본 응답도 함께 반환
+    return {
+      status: 'success',
+      indexId,
+      videoId: result._id || videoId,
+      filename: result.system_metadata?.filename,
+      duration: result.system_metadata?.duration,
+      hlsUrl: result.hls?.video_url,
+      thumbnailUrls: result.hls?.thumbnail_urls || [],
+      userMetadata: result.user_metadata || {},
+      video: result
+    };
+  } catch (error) {
+    logger.error('비디오 조회 중 오류:', error);
+    throw error;
+  }
+}
+
+async function updateVideoMetadata(
+  indexId: string,
+  videoId: string,
+  userMetadata: Record<string, string | number | boolean | null>
+) {
+  try {
+    // API는 문자열, 숫자, 불리언 값만 허용 (null은 키 삭제)
+    for (const [key, value] of Object.entries(userMetadata || {})) {
+      if (value !== null && !["string", "number", "boolean"].includes(typeof value)) {
+        throw new ValidationError(`메타데이터 값은 문자열, 숫자, 불리언 또는 null이어야 합니다: ${key}`);
+      }
     }
+
+    const body = {
+      user_metadata: userMetadata
+    };
+    
+    await api().put(`/indexes/${indexId}/videos/${videoId}`, { json: body });
     
-    console.error(`인덱스 삭제 완료: id=${indexId}`);
+    logger.info(`비디오 메타데이터 업데이트 완료: id=${videoId}`);
     
     return {
       status: 'success',
-      indexId: indexId,
-      message: "인덱스가 성공적으로 삭제되었습니다"
+      indexId,
+      videoId,
+      userMetadata,
+      message: "비디오 메타데이터가 성공적으로 업데이트되었습니다"
     };
   } catch (error) {
-    console.error('인덱스 삭제 중 오류:', error);
+    logger.error('비디오 메타데이터 업데이트 중 오류:', error);
+    throw error;
+  }
+}
+
+async function deleteVideo(indexId: string, videoId: string) {
+  try {
+    await api().delete(`/indexes/${indexId}/videos/${videoId}`);
+    
+    logger.info(`비디오 삭제 완료: id=${videoId}`);
+    
+    return {
+      status: 'success',
+      indexId,
+      videoId,
+      message: "비디오가 성공적으로 삭제되었습니다"
+    };
+  } catch (error) {
+    logger.error('비디오 삭제 중 오류:', error);
     throw error;
   }
 }
@@ -938,87 +2890,328 @@ async function listTasks(
   status?: string[]
 ) {
   try {
-    // 쿼리 파라미터 구성
-    const queryParams = new URLSearchParams();
-    if (page) queryParams.append('page', page.toString());
-    if (pageLimit) queryParams.append('page_limit', pageLimit.toString());
-    if (sortBy) queryParams.append('sort_by', sortBy);
-    if (sortOption) queryParams.append('sort_option', sortOption);
-    if (indexId) queryParams.append('index_id', indexId);
-    if (status) queryParams.append('status', status.join(','));
-
-    const url = `${BASE_URL}/tasks${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    const result = await api().get<ApiPage<ApiTask>>("/tasks", {
+      query: {
+        page,
+        page_limit: pageLimit,
+        sort_by: sortBy,
+        sort_option: sortOption,
+        index_id: indexId,
+        status
+      }
+    });
+    logger.info(`태스크 목록 조회 완료: ${result.data?.length || 0}개 태스크 찾음`);
+    
+    return {
+      status: 'success',
+      totalCount: result.data?.length || 0,
+      tasks: result.data || [],
+      pageInfo: result.page_info || {}
+    };
+  } catch (error) {
+    logger.error('태스크 목록 조회 중 오류:', error);
+    throw error;
+  }
+}
+
+async function getTask(taskId: string) {
+  try {
+    const result = await api().get<ApiTask>(`/tasks/${taskId}`);
+    logger.info(`태스크 조회 완료: id=${result._id}`);
+    await recordIndexingUsage(result);
     
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
+    return {
+      status: 'success',
+      task: result
+    };
+  } catch (error) {
+    logger.error('태스크 조회 중 오류:', error);
+    throw error;
+  }
+}
+
+// 작업 상태별 대략적인 진행률 (API가 percentage를 주지 않을 때 사용)
+const TASK_STATUS_PROGRESS: Record<string, number> = {
+  pending: 0,
+  validating: 5,
+  uploading: 10,
+  queued: 15,
+  indexing: 50,
+  ready: 100,
+  failed: 100
+};
+
+interface WaitedTask {
+  taskId: string;
+  taskStatus: string;
+  videoId?: string;
+  percentage?: number;
+  task?: ApiTask;
+  error?: string;
+  // 재시도 후에도 실패했지만 일시적인 조회 오류 (폴링은 계속)
+  lastError?: string;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * 여러 인덱싱 작업이 ready 또는 failed가 될 때까지 /tasks/{id}를 폴링합니다.
+ * 폴링 간격은 1.5배씩 늘어나며, 상태가 바뀔 때마다 진행 상황 알림을 보냅니다.
+ * 타임아웃이나 요청 취소 시에는 남은 작업을 pending으로 반환합니다.
+ */
+async function waitForTasks(
+  taskIds: string[],
+  params: { timeoutSec?: number; pollIntervalSec?: number } = {},
+  reportProgress?: (progress: number, total?: number, message?: string) => void,
+  signal?: AbortSignal
+) {
+  const timeoutSec = Math.min(Math.max(params.timeoutSec ?? DEFAULT_TASK_WAIT_TIMEOUT_SEC, 1), MAX_TASK_WAIT_TIMEOUT_SEC);
+  let intervalMs = Math.min(Math.max(params.pollIntervalSec ?? DEFAULT_TASK_POLL_INTERVAL_SEC, 1), MAX_TASK_POLL_INTERVAL_SEC) * 1000;
+  const deadline = Date.now() + timeoutSec * 1000;
+  const startedAt = Date.now();
+
+  const states = new Map<string, WaitedTask>(taskIds.map((id) => [id, { taskId: id, taskStatus: "pending" }]));
+  const isDone = (t: WaitedTask) => t.taskStatus === "ready" || t.taskStatus === "failed" || t.error !== undefined;
+
+  logger.info(`작업 대기 시작: ${taskIds.join(", ")} (timeout=${timeoutSec}s)`);
+
+  while (true) {
+    const running = [...states.values()].filter((t) => !isDone(t));
+    await Promise.all(running.map(async (state) => {
+      try {
+        const { task } = await getTask(state.taskId);
+        const previousStatus = state.taskStatus;
+        state.taskStatus = task.status;
+        state.videoId = task.video_id ?? undefined;
+        state.percentage = task.process?.percentage ?? TASK_STATUS_PROGRESS[task.status];
+        state.task = task;
+        state.lastError = undefined;
+        if (previousStatus !== state.taskStatus) {
+          logger.info(`작업 상태 변경: ${state.taskId} ${previousStatus} → ${state.taskStatus}`);
+        }
+      } catch (e) {
+        // 클라이언트 재시도 후에도 남은 일시적 오류(5xx, 네트워크)는 다음 폴링에서 다시 조회
+        if (e instanceof TwelveLabsError && !e.retryable) {
+          state.error = String(e);
+        } else {
+          state.lastError = String(e);
+          logger.warn(`작업 조회 실패, 다음 폴링에서 재시도: ${state.taskId}`, e);
+        }
+      }
+    }));
+
+    // 전체 진행률은 각 작업 진행률의 평균
+    const all = [...states.values()];
+    const progress = all.reduce((sum, t) => sum + (isDone(t) ? 100 : t.percentage ?? 0), 0) / all.length;
+    const summary = all.length === 1
+      ? `task ${all[0].taskId}: ${all[0].taskStatus}${all[0].percentage !== undefined ? ` (${all[0].percentage}%)` : ""}`
+      : `${all.filter(isDone).length}/${all.length} tasks finished`;
+    reportProgress?.(Math.round(progress), 100, summary);
+
+    if (all.every(isDone) || Date.now() >= deadline || signal?.aborted) {
+      break;
+    }
+    await sleep(Math.min(intervalMs, Math.max(deadline - Date.now(), 0)), signal);
+    intervalMs = Math.min(intervalMs * 1.5, MAX_TASK_POLL_INTERVAL_SEC * 1000);
+  }
+
+  const tasks = [...states.values()];
+  const timedOut = tasks.some((t) => !isDone(t));
+  logger.info(`작업 대기 종료: ${tasks.map((t) => `${t.taskId}=${t.taskStatus}`).join(", ")}`);
+
+  return {
+    status: 'success',
+    timedOut,
+    cancelled: signal?.aborted ?? false,
+    elapsedSec: Math.round((Date.now() - startedAt) / 1000),
+    ready: tasks.filter((t) => t.taskStatus === "ready").map((t) => t.taskId),
+    failed: tasks.filter((t) => t.taskStatus === "failed" || t.error !== undefined).map((t) => t.taskId),
+    pending: tasks.filter((t) => !isDone(t)).map((t) => t.taskId),
+    tasks
+  };
+}
+
+interface BatchUploadArgs {
+  indexId: string;
+  manifestPath: string;
+  manifestFormat?: ManifestFormat;
+  statePath?: string;
+  concurrency?: number;
+  maxItems?: number;
+  retryFailed?: boolean;
+  enableVideoStream?: boolean;
+  waitUntilReady?: boolean;
+  timeoutSec?: number;
+}
+
+const TERMINAL_TASK_STATUSES = new Set(["ready", "failed"]);
+
+// 매니페스트의 영상을 동시 업로드 수를 제한해 제출하고, 상태 파일로 재실행 시 이어서 진행
+async function batchUploadVideos(
+  params: BatchUploadArgs,
+  reportProgress?: (progress: number, total?: number, message?: string) => void,
+  signal?: AbortSignal
+) {
+  const {
+    indexId,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    maxItems,
+    retryFailed = false,
+    enableVideoStream = CONFIG.defaults.enableVideoStream,
+    waitUntilReady = false
+  } = params;
+  const startedAt = Date.now();
+  const { absolutePath: manifestPath, items } = await readManifest(params.manifestPath, params.manifestFormat);
+  const statePath = resolveBatchStatePath(manifestPath, params.statePath);
+  const state = await loadBatchState(statePath, manifestPath, indexId);
+  const writer = createBatchStateWriter(statePath, state);
+
+  const candidates = items.filter((item) => {
+    const previous = state.items[item.key];
+    return !previous || (retryFailed && previous.taskStatus === "failed");
+  });
+  const toSubmit = maxItems !== undefined ? candidates.slice(0, maxItems) : candidates;
+  logger.info(`배치 업로드 시작: ${manifestPath} (${items.length}개 항목, 제출 ${toSubmit.length}개, 동시 ${concurrency}개)`);
+
+  // 이번 호출에서 제출에 성공한 항목과 제출 자체가 실패한 항목 (인덱싱 실패는 상태 갱신에서 따로 집계)
+  let submitted = 0;
+  let submissionFailed = 0;
+  let stopError: unknown;
+  await runWithConcurrency(toSubmit, concurrency, async (item) => {
+    const now = new Date().toISOString();
+    try {
+      // 배치 도중 다른 항목의 인덱싱이나 다른 세션으로 한도에 도달할 수 있으므로 항목마다 예산을 확인
+      checkUsageBudget("indexedMinutes");
+      const res = await uploadVideos(indexId, item.url, item.filePath, enableVideoStream);
+      state.items[item.key] = {
+        key: item.key,
+        taskId: res.taskId,
+        ...(res.videoId ? { videoId: res.videoId } : {}),
+        taskStatus: "pending",
+        submittedAt: now,
+        updatedAt: now
+      };
+      submitted++;
+    } catch (e) {
+      // 인증 오류와 예산 초과는 모든 항목에 똑같이 적용되므로 배치를 멈춤
+      if (e instanceof AuthenticationError || e instanceof BudgetExceededError) {
+        stopError = stopError ?? e;
+        return;
       }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`태스크 목록 조회 실패: ${response.status}`);
+      state.items[item.key] = { key: item.key, taskStatus: "failed", error: e instanceof Error ? e.message : String(e), updatedAt: now };
+      submissionFailed++;
     }
-    
-    const result = await response.json() as any;
-    console.error(`태스크 목록 조회 완료: ${result.data?.length || 0}개 태스크 찾음`);
-    
-    return {
-      status: 'success',
-      totalCount: result.data?.length || 0,
-      tasks: result.data || [],
-      pageInfo: result.page_info || {}
-    };
-  } catch (error) {
-    console.error('태스크 목록 조회 중 오류:', error);
-    throw error;
+    // 상태를 저장하지 못하면 재개할 수 없으므로 새 항목을 더 제출하지 않고 멈춤
+    try {
+      await writer.save();
+    } catch (e) {
+      stopError = stopError ?? e;
+      return;
+    }
+    const processed = submitted + submissionFailed;
+    reportProgress?.(processed, toSubmit.length, `submitted ${processed}/${toSubmit.length}: ${item.key}`);
+  }, () => stopError !== undefined || (signal?.aborted ?? false));
+  if (stopError) {
+    throw stopError;
+  }
+
+  // 제출된 항목의 상태를 갱신 (waitUntilReady면 모두 끝날 때까지 반복)
+  const timeoutSec = Math.min(Math.max(params.timeoutSec ?? DEFAULT_TASK_WAIT_TIMEOUT_SEC, 1), MAX_TASK_WAIT_TIMEOUT_SEC);
+  const deadline = Date.now() + timeoutSec * 1000;
+  let intervalMs = DEFAULT_TASK_POLL_INTERVAL_SEC * 1000;
+  while (true) {
+    await refreshBatchItems(indexId, items, state.items, concurrency);
+    await writer.save();
+    const running = items.filter((item) => state.items[item.key]?.taskId && !TERMINAL_TASK_STATUSES.has(state.items[item.key].taskStatus));
+    if (!waitUntilReady || running.length === 0 || Date.now() >= deadline || signal?.aborted) {
+      break;
+    }
+    reportProgress?.(items.length - running.length, items.length, `${running.length} tasks still indexing`);
+    await sleep(Math.min(intervalMs, Math.max(deadline - Date.now(), 0)), signal);
+    intervalMs = Math.min(intervalMs * 1.5, MAX_TASK_POLL_INTERVAL_SEC * 1000);
   }
+
+  const summarize = (item: ManifestItem) => {
+    const { key, taskId, videoId, taskStatus, error } = state.items[item.key];
+    return { key, line: item.line, taskStatus, ...(taskId ? { taskId } : {}), ...(videoId ? { videoId } : {}), ...(error ? { error } : {}) };
+  };
+  const tracked = items.filter((item) => state.items[item.key]);
+  const pending = tracked.filter((item) => !TERMINAL_TASK_STATUSES.has(state.items[item.key].taskStatus)).map(summarize);
+  const result = {
+    status: 'success',
+    indexId,
+    manifestPath,
+    statePath,
+    total: items.length,
+    submitted,
+    submissionFailed,
+    ready: tracked.filter((item) => state.items[item.key].taskStatus === "ready").map(summarize),
+    failed: tracked.filter((item) => state.items[item.key].taskStatus === "failed").map(summarize),
+    pending,
+    notSubmitted: items.filter((item) => !state.items[item.key]).map((item) => item.key),
+    timedOut: waitUntilReady && pending.length > 0 && Date.now() >= deadline,
+    cancelled: signal?.aborted ?? false,
+    elapsedSec: Math.round((Date.now() - startedAt) / 1000)
+  };
+  logger.info(
+    `배치 업로드 상태: ready ${result.ready.length}, failed ${result.failed.length}, pending ${result.pending.length}, ` +
+    `미제출 ${result.notSubmitted.length} (${statePath})`
+  );
+  return result;
 }
 
-async function getTask(taskId: string) {
-  try {
-    const url = `${BASE_URL}/tasks/${taskId}`;
-    
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
+// 끝나지 않은 작업의 상태를 조회하고, 준비된 영상에 매니페스트의 메타데이터를 적용
+async function refreshBatchItems(
+  indexId: string,
+  items: ManifestItem[],
+  states: Record<string, BatchItemState>,
+  concurrency: number
+) {
+  const targets = items.filter((item) => {
+    const current = states[item.key];
+    return current?.taskId && (!TERMINAL_TASK_STATUSES.has(current.taskStatus) || (current.taskStatus === "ready" && item.metadata && !current.metadataApplied));
+  });
+  await runWithConcurrency(targets, concurrency, async (item) => {
+    const current = states[item.key];
+    try {
+      if (current.taskStatus !== "ready") {
+        const { task } = await getTask(current.taskId!);
+        current.taskStatus = task.status;
+        current.videoId = task.video_id ?? current.videoId;
+        if (task.status === "failed") {
+          current.error = task.error?.message ?? "Indexing failed";
+        } else {
+          delete current.error;
+        }
       }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`태스크 조회 실패: ${response.status}`);
+      if (current.taskStatus === "ready" && item.metadata && !current.metadataApplied && current.videoId) {
+        await updateVideoMetadata(indexId, current.videoId, item.metadata);
+        current.metadataApplied = true;
+        delete current.error;
+      }
+    } catch (e) {
+      // 조회 실패는 다음 실행에서 다시 시도 (상태는 그대로 둠)
+      current.error = e instanceof Error ? e.message : String(e);
     }
-    
-    const result = await response.json() as any;
-    console.error(`태스크 조회 완료: id=${result._id}`);
-    
-    return {
-      status: 'success',
-      task: result
-    };
-  } catch (error) {
-    console.error('태스크 조회 중 오류:', error);
-    throw error;
-  }
+    current.updatedAt = new Date().toISOString();
+  });
 }
 
 async function deleteTask(taskId: string) {
   try {
-    const url = `${BASE_URL}/tasks/${taskId}`;
-    
-    const response = await fetch(url, {
-      method: "DELETE",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`태스크 삭제 실패: ${response.status}`);
-    }
+    await api().delete(`/tasks/${taskId}`);
     
-    console.error(`태스크 삭제 완료: id=${taskId}`);
+    logger.info(`태스크 삭제 완료: id=${taskId}`);
     
     return {
       status: 'success',
@@ -1026,50 +3219,24 @@ async function deleteTask(taskId: string) {
       message: "태스크가 성공적으로 삭제되었습니다"
     };
   } catch (error) {
-    console.error('태스크 삭제 중 오류:', error);
+    logger.error('태스크 삭제 중 오류:', error);
     throw error;
   }
 }
 
 async function generateGist(videoId: string, types: string[]) {
   try {
-    // 엔드포인트 확인
-    const url = `${BASE_URL}/gist`;
-    
     // 요청 본문 구성 - API 문서 기반으로 정확한 필드 사용
     const body = {
       video_id: videoId,
       types: types
     };
     
-    console.error(`Gist 생성 요청: ${JSON.stringify(body)}`);
-    
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
-    
-    const responseText = await response.text();
-    console.error(`API 응답 상태: ${response.status}, 응답 본문: ${responseText.substring(0, 500)}...`); // 응답 본문 일부만 로깅
-    
-    if (!response.ok) {
-      throw new Error(`Gist 생성 실패: ${response.status}, 응답: ${responseText}`);
-    }
+    logger.info(`Gist 생성 요청: ${JSON.stringify(body)}`);
     
-    // 응답이 유효한 JSON인지 확인
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      console.error(`JSON 파싱 오류: ${e}`);
-      throw new Error(`응답을 파싱할 수 없습니다: ${responseText}`);
-    }
+    const result = await api().post<ApiGistResponse>("/gist", { json: body });
     
-    console.error(`Gist 생성 완료: ${videoId}, 응답 구조: ${Object.keys(result).join(", ")}`);
+    logger.info(`Gist 생성 완료: ${videoId}, 응답 구조: ${Object.keys(result).join(", ")}`);
     
     // API 문서 기반 필드 처리 - 응답은 id, title, topics, hashtags, usage를 직접 포함함
     return {
@@ -1082,16 +3249,93 @@ async function generateGist(videoId: string, types: string[]) {
       videoId
     };
   } catch (error) {
-    console.error('Gist 생성 중 오류:', error);
+    logger.error('Gist 생성 중 오류:', error);
     throw error;
   }
 }
 
-async function generateSummary(videoId: string, type: string, prompt?: string, temperature: number = 0.2) {
+interface ExportTimelineArgs {
+  format: TimelineFormat;
+  videoId?: string;
+  type?: TimelineKind;
+  chapters?: object[];
+  highlights?: object[];
+  prompt?: string;
+  overlap?: OverlapMode;
+  outputPath?: string;
+  title?: string;
+  clipName?: string;
+  frameRate?: number;
+  bypassCache?: boolean;
+}
+
+// 챕터/하이라이트를 타임라인 형식으로 변환 (항목이 없으면 generate_summary와 같은 캐시 경로로 생성)
+async function exportTimeline(params: ExportTimelineArgs, extra: RequestExtra) {
+  const { format, videoId, prompt, overlap = "trim", outputPath, title, bypassCache = false } = params;
+  let kind: TimelineKind;
+  let items: object[];
+  let generated = false;
+
+  if (params.chapters && params.highlights) {
+    throw new ValidationError("chapters와 highlights는 함께 보낼 수 없습니다. 한 번에 하나의 타임라인만 내보낼 수 있습니다");
+  }
+  if (params.chapters || params.highlights) {
+    kind = params.chapters ? "chapter" : "highlight";
+    if (params.type && params.type !== kind) {
+      throw new ValidationError(`type "${params.type}"이 전달한 항목(${kind === "chapter" ? "chapters" : "highlights"})과 맞지 않습니다`);
+    }
+    items = (params.chapters ?? params.highlights)!;
+  } else {
+    if (!videoId || !params.type) {
+      throw new ValidationError("chapters 또는 highlights를 보내거나, 생성할 videoId와 type을 지정하세요");
+    }
+    kind = params.type;
+    // 생성하는 경우에만 토큰 예산을 확인
+    USAGE_LEDGER.checkBudgets("tokens", api().accountId, usageSession(extra));
+    const temperature = CONFIG.defaults.temperature;
+    const res = await withResultCache(
+      { endpoint: "summarize", videoId, type: kind, prompt, temperature },
+      bypassCache,
+      () => generateSummary(videoId, kind, prompt, temperature)
+    );
+    recordGenerationUsage(videoId, res);
+    const generatedItems = kind === "chapter" ? res.chapters : res.highlights;
+    items = Array.isArray(generatedItems) ? generatedItems : [];
+    generated = true;
+  }
+
+  const { entries, adjustments } = normalizeTimeline(items, kind, overlap);
+  const frameRate = params.frameRate ?? DEFAULT_FRAME_RATE;
+  const { text, warnings } = renderTimeline(format, entries, {
+    kind,
+    title,
+    clipName: params.clipName ?? videoId,
+    frameRate
+  });
+
+  const result = {
+    status: 'success',
+    format,
+    type: kind,
+    ...(videoId ? { videoId } : {}),
+    generated,
+    entryCount: entries.length,
+    entries,
+    adjustments,
+    warnings,
+    mimeType: TIMELINE_FORMATS[format].mimeType,
+    ...(format === "edl" || format === "otio" ? { frameRate } : {})
+  };
+  if (!outputPath) {
+    return { ...result, content: text };
+  }
+  const writtenPath = await writeTimelineFile(outputPath, format, text);
+  logger.info(`타임라인 파일 저장 완료: ${writtenPath} (${format}, ${entries.length}개 항목)`);
+  return { ...result, outputPath: writtenPath, bytes: Buffer.byteLength(text, "utf8") };
+}
+
+async function generateSummary(videoId: string, type: string, prompt?: string, temperature: number = CONFIG.defaults.temperature) {
   try {
-    // 엔드포인트 확인
-    const url = `${BASE_URL}/summarize`;
-    
     // 요청 본문 구성 - API 문서 기반으로 정확한 필드 사용
     const body = {
       video_id: videoId,
@@ -1100,34 +3344,11 @@ async function generateSummary(videoId: string, type: string, prompt?: string, t
       temperature: temperature
     };
     
-    console.error(`요약 생성 요청: ${JSON.stringify(body)}`);
-    
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
-    
-    const responseText = await response.text();
-    console.error(`API 응답 상태: ${response.status}, 응답 본문: ${responseText.substring(0, 500)}...`); // 응답 본문 일부만 로깅
-    
-    if (!response.ok) {
-      throw new Error(`요약 생성 실패: ${response.status}, 응답: ${responseText}`);
-    }
+    logger.info(`요약 생성 요청: ${JSON.stringify(body)}`);
     
-    // 응답이 유효한 JSON인지 확인
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      console.error(`JSON 파싱 오류: ${e}`);
-      throw new Error(`응답을 파싱할 수 없습니다: ${responseText}`);
-    }
+    const result = await api().post<ApiSummarizeResponse>("/summarize", { json: body });
     
-    console.error(`요약 생성 완료: ${videoId}, 응답 구조: ${Object.keys(result).join(", ")}`);
+    logger.info(`요약 생성 완료: ${videoId}, 응답 구조: ${Object.keys(result).join(", ")}`);
     
     // API 문서 기반 필드 처리 - 반환 타입에 따라 다른 응답 구조를 가짐
     return {
@@ -1145,7 +3366,205 @@ async function generateSummary(videoId: string, type: string, prompt?: string, t
       temperature
     };
   } catch (error) {
-    console.error('요약 생성 중 오류:', error);
+    logger.error('요약 생성 중 오류:', error);
+    throw error;
+  }
+}
+
+interface EmbeddingInput {
+  text?: string;
+  textTruncate?: string;
+  imagePath?: string;
+  imageUrl?: string;
+  audioPath?: string;
+  audioUrl?: string;
+  audioStartOffsetSec?: number;
+}
+
+async function createEmbedding(input: EmbeddingInput, outputPath?: string) {
+  try {
+    if (!input.text && !input.imagePath && !input.imageUrl && !input.audioPath && !input.audioUrl) {
+      throw new ValidationError("text, imagePath, imageUrl, audioPath, audioUrl 중 하나 이상이 필요합니다.");
+    }
+    if (input.imagePath && input.imageUrl) {
+      throw new ValidationError("이미지는 imagePath와 imageUrl 중 하나만 지정할 수 있습니다.");
+    }
+    if (input.audioPath && input.audioUrl) {
+      throw new ValidationError("오디오는 audioPath와 audioUrl 중 하나만 지정할 수 있습니다.");
+    }
+    if (input.imagePath && input.audioPath) {
+      throw new ValidationError("로컬 파일은 요청당 하나만 보낼 수 있습니다. imageUrl 또는 audioUrl을 사용하거나 요청을 나눠주세요.");
+    }
+
+    // 텍스트 필드 구성
+    const fields: Record<string, string> = { model_name: EMBEDDING_MODEL };
+    if (input.text) fields.text = input.text;
+    if (input.textTruncate) fields.text_truncate = input.textTruncate;
+    if (input.imageUrl) fields.image_url = input.imageUrl;
+    if (input.audioUrl) fields.audio_url = input.audioUrl;
+    if (input.audioStartOffsetSec !== undefined) fields.audio_start_offset_sec = input.audioStartOffsetSec.toString();
+
+    // 로컬 파일이 있으면 파일 필드와 함께 스트리밍 전송
+    let file: LocalFile | undefined;
+    let fileField = "";
+    if (input.imagePath) {
+      file = await resolveLocalImageFile(input.imagePath);
+      fileField = "image_file";
+    } else if (input.audioPath) {
+      file = await resolveLocalAudioFile(input.audioPath);
+      fileField = "audio_file";
+    }
+
+    logger.info(`임베딩 생성 요청: ${Object.keys(fields).join(", ")}${file ? `, ${fileField}=${file.fileName}` : ""}`);
+
+    // 임베딩 생성은 상태를 바꾸지 않으므로 5xx에도 재시도
+    let result: ApiEmbedResponse;
+    if (file) {
+      const localFile = file;
+      result = await api().post<ApiEmbedResponse>("/embed", {
+        multipart: () => createMultipartFileBody(fields, fileField, localFile),
+        timeoutMs: UPLOAD_TIMEOUT_MS,
+        idempotent: true
+      });
+    } else {
+      const form = new FormData();
+      for (const [name, value] of Object.entries(fields)) {
+        form.append(name, value);
+      }
+      result = await api().post<ApiEmbedResponse>("/embed", { form, idempotent: true });
+    }
+
+    const records: EmbeddingRecord[] = [
+      ...normalizeEmbeddingSegments("text", result.text_embedding),
+      ...normalizeEmbeddingSegments("image", result.image_embedding),
+      ...normalizeEmbeddingSegments("audio", result.audio_embedding)
+    ];
+    logger.info(`임베딩 생성 완료: ${records.length}개 구간`);
+
+    return {
+      status: 'success',
+      modelName: result.model_name || EMBEDDING_MODEL,
+      ...(await packageEmbeddings(records, outputPath, { model_name: result.model_name || EMBEDDING_MODEL }))
+    };
+  } catch (error) {
+    logger.error('임베딩 생성 중 오류:', error);
+    throw error;
+  }
+}
+
+async function createVideoEmbeddingTask(
+  url?: string,
+  filePath?: string,
+  params: { startOffsetSec?: number; endOffsetSec?: number; clipLength?: number; embeddingScope?: string[] } = {},
+  reportProgress?: (progress: number, total?: number, message?: string) => void
+) {
+  try {
+    if (params.clipLength !== undefined && (params.clipLength < 2 || params.clipLength > 10)) {
+      throw new ValidationError(`clipLength는 2~10초 사이여야 합니다: ${params.clipLength}`);
+    }
+    for (const scope of params.embeddingScope || []) {
+      if (!["clip", "video"].includes(scope)) {
+        throw new ValidationError(`embeddingScope는 clip 또는 video여야 합니다: ${scope}`);
+      }
+    }
+
+    const fields: Record<string, string> = { model_name: EMBEDDING_MODEL };
+    if (params.startOffsetSec !== undefined) fields.video_start_offset_sec = params.startOffsetSec.toString();
+    if (params.endOffsetSec !== undefined) fields.video_end_offset_sec = params.endOffsetSec.toString();
+    if (params.clipLength !== undefined) fields.video_clip_length = params.clipLength.toString();
+
+    let result: ApiCreated;
+    if (url) {
+      const form = new FormData();
+      for (const [name, value] of Object.entries(fields)) {
+        form.append(name, value);
+      }
+      // embedding_scope는 값마다 같은 필드명을 반복해서 전송
+      for (const scope of params.embeddingScope || []) {
+        form.append('video_embedding_scope', scope);
+      }
+      form.append('video_url', url);
+      logger.info(`URL로 비디오 임베딩 작업 생성: ${url}`);
+
+      result = await api().post<ApiCreated>("/embed/tasks", { form });
+    } else if (filePath) {
+      const file = await resolveLocalVideoFile(filePath);
+      logger.info(`로컬 파일로 비디오 임베딩 작업 생성: ${file.absolutePath} (${file.size} bytes)`);
+
+      result = await api().post<ApiCreated>("/embed/tasks", {
+        multipart: () => createMultipartFileBody(
+          {
+            ...fields,
+            video_embedding_scope: params.embeddingScope || []
+          },
+          'video_file',
+          file,
+          createUploadProgressCallback(file.fileName, reportProgress)
+        ),
+        timeoutMs: UPLOAD_TIMEOUT_MS
+      });
+    } else {
+      throw new ValidationError("URL 또는 파일 경로가 필요합니다.");
+    }
+
+    logger.info(`비디오 임베딩 작업 생성됨: id=${result._id || result.id}`);
+
+    return {
+      status: 'success',
+      taskId: result._id || result.id,
+      modelName: EMBEDDING_MODEL,
+      message: "비디오 임베딩 작업이 시작되었습니다."
+    };
+  } catch (error) {
+    logger.error('비디오 임베딩 작업 생성 중 오류:', error);
+    throw error;
+  }
+}
+
+async function getVideoEmbeddingTask(taskId: string) {
+  try {
+    const result = await api().get<ApiEmbedTask>(`/embed/tasks/${taskId}/status`);
+    logger.info(`비디오 임베딩 작업 조회 완료: id=${result._id}, status=${result.status}`);
+
+    return {
+      status: 'success',
+      taskId: result._id || taskId,
+      taskStatus: result.status,
+      task: result
+    };
+  } catch (error) {
+    logger.error('비디오 임베딩 작업 조회 중 오류:', error);
+    throw error;
+  }
+}
+
+async function retrieveVideoEmbeddings(taskId: string, outputPath?: string) {
+  try {
+    const result = await api().get<ApiEmbedTask>(`/embed/tasks/${taskId}`);
+    logger.info(`비디오 임베딩 조회 완료: id=${result._id}, status=${result.status}`);
+
+    // 아직 완료되지 않은 작업은 상태만 반환
+    if (result.status !== "ready") {
+      return {
+        status: 'success',
+        taskId: result._id || taskId,
+        taskStatus: result.status,
+        message: `임베딩 작업이 아직 완료되지 않았습니다 (status=${result.status}).`
+      };
+    }
+
+    const records = normalizeEmbeddingSegments("video", result.video_embedding);
+
+    return {
+      status: 'success',
+      taskId: result._id || taskId,
+      taskStatus: result.status,
+      modelName: result.model_name || EMBEDDING_MODEL,
+      videoMetadata: result.video_embedding?.metadata || {},
+      ...(await packageEmbeddings(records, outputPath, { task_id: result._id || taskId }))
+    };
+  } catch (error) {
+    logger.error('비디오 임베딩 조회 중 오류:', error);
     throw error;
   }
 }
@@ -1157,9 +3576,6 @@ async function importVideos(
   retryFailed: boolean = false
 ) {
   try {
-    // 엔드포인트 확인
-    const url = `${BASE_URL}/import`;
-    
     // 요청 본문 구성 - 문서 기반으로 정확한 필드 사용
     const body = {
       integration_id: integrationId,
@@ -1168,34 +3584,11 @@ async function importVideos(
       retry_failed: retryFailed
     };
     
-    console.error(`비디오 임포트 요청: ${JSON.stringify(body)}`);
-    
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
-    
-    const responseText = await response.text();
-    console.error(`API 응답 상태: ${response.status}, 응답 본문: ${responseText.substring(0, 500)}...`); // 응답 본문 일부만 로깅
-    
-    if (!response.ok) {
-      throw new Error(`비디오 임포트 실패: ${response.status}, 응답: ${responseText}`);
-    }
+    logger.info(`비디오 임포트 요청: ${JSON.stringify(body)}`);
     
-    // 응답이 유효한 JSON인지 확인
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      console.error(`JSON 파싱 오류: ${e}`);
-      throw new Error(`응답을 파싱할 수 없습니다: ${responseText}`);
-    }
+    const result = await api().post<ApiCreated>("/import", { json: body });
     
-    console.error(`비디오 임포트 완료: ${integrationId}, ${indexId}, 응답 구조: ${Object.keys(result).join(", ")}`);
+    logger.info(`비디오 임포트 완료: ${integrationId}, ${indexId}, 응답 구조: ${Object.keys(result).join(", ")}`);
     
     // API 문서 기반 필드 처리 - 응답에 id, data, usage 필드 포함됨
     return {
@@ -1208,49 +3601,23 @@ async function importVideos(
       retryFailed
     };
   } catch (error) {
-    console.error('비디오 임포트 중 오류:', error);
+    logger.error('비디오 임포트 중 오류:', error);
     throw error;
   }
 }
 
 async function getImportStatus(integrationId: string, indexId: string) {
   try {
-    // 엔드포인트 확인
-    const url = `${BASE_URL}/import/status`;
+    logger.info(`비디오 임포트 상태 조회 요청: integration_id=${integrationId}, index_id=${indexId}`);
     
-    // 쿼리 파라미터 구성
-    const queryParams = new URLSearchParams();
-    queryParams.append('integration_id', integrationId);
-    queryParams.append('index_id', indexId);
-
-    const fullUrl = `${url}?${queryParams.toString()}`;
-    
-    console.error(`비디오 임포트 상태 조회 요청: ${fullUrl}`);
-    
-    const response = await fetch(fullUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
+    const result = await api().get<ApiPage<unknown>>("/import/status", {
+      query: {
+        integration_id: integrationId,
+        index_id: indexId
       }
     });
     
-    const responseText = await response.text();
-    console.error(`API 응답 상태: ${response.status}, 응답 본문: ${responseText.substring(0, 500)}...`); // 응답 본문 일부만 로깅
-    
-    if (!response.ok) {
-      throw new Error(`비디오 임포트 상태 조회 실패: ${response.status}, 응답: ${responseText}`);
-    }
-    
-    // 응답이 유효한 JSON인지 확인
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      console.error(`JSON 파싱 오류: ${e}`);
-      throw new Error(`응답을 파싱할 수 없습니다: ${responseText}`);
-    }
-    
-    console.error(`비디오 임포트 상태 조회 완료: ${integrationId}, ${indexId}, 응답 구조: ${Object.keys(result).join(", ")}`);
+    logger.info(`비디오 임포트 상태 조회 완료: ${integrationId}, ${indexId}, 응답 구조: ${Object.keys(result).join(", ")}`);
     
     // API 문서 기반 필드 처리 - 응답에 data 필드 포함됨
     return {
@@ -1260,48 +3627,20 @@ async function getImportStatus(integrationId: string, indexId: string) {
       indexId
     };
   } catch (error) {
-    console.error('비디오 임포트 상태 조회 중 오류:', error);
+    logger.error('비디오 임포트 상태 조회 중 오류:', error);
     throw error;
   }
 }
 
 async function getImportLogs(integrationId: string) {
   try {
-    // 엔드포인트 확인
-    const url = `${BASE_URL}/import/logs`;
-    
-    // 쿼리 파라미터 구성
-    const queryParams = new URLSearchParams();
-    queryParams.append('integration_id', integrationId);
-
-    const fullUrl = `${url}?${queryParams.toString()}`;
+    logger.info(`비디오 임포트 로그 조회 요청: integration_id=${integrationId}`);
     
-    console.error(`비디오 임포트 로그 조회 요청: ${fullUrl}`);
-    
-    const response = await fetch(fullUrl, {
-      method: "GET",
-      headers: {
-        "x-api-key": TWELVELABS_API_KEY
-      }
+    const result = await api().get<ApiPage<unknown>>("/import/logs", {
+      query: { integration_id: integrationId }
     });
     
-    const responseText = await response.text();
-    console.error(`API 응답 상태: ${response.status}, 응답 본문: ${responseText.substring(0, 500)}...`); // 응답 본문 일부만 로깅
-    
-    if (!response.ok) {
-      throw new Error(`비디오 임포트 로그 조회 실패: ${response.status}, 응답: ${responseText}`);
-    }
-    
-    // 응답이 유효한 JSON인지 확인
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      console.error(`JSON 파싱 오류: ${e}`);
-      throw new Error(`응답을 파싱할 수 없습니다: ${responseText}`);
-    }
-    
-    console.error(`비디오 임포트 로그 조회 완료: ${integrationId}, 응답 구조: ${Object.keys(result).join(", ")}`);
+    logger.info(`비디오 임포트 로그 조회 완료: ${integrationId}, 응답 구조: ${Object.keys(result).join(", ")}`);
     
     // API 문서 기반 필드 처리 - 응답에 data 필드 포함됨
     return {
@@ -1310,19 +3649,299 @@ async function getImportLogs(integrationId: string) {
       integrationId
     };
   } catch (error) {
-    console.error('비디오 임포트 로그 조회 중 오류:', error);
+    logger.error('비디오 임포트 로그 조회 중 오류:', error);
     throw error;
   }
 }
 
+// 리소스 URI 파싱 (twelvelabs://indexes/..., twelvelabs://tasks/...)
+function parseResourceUri(uri: string) {
+  const match = /^twelvelabs:\/\/(.+)$/.exec(uri);
+  const segments = match ? match[1].split("/").filter(Boolean).map(decodeURIComponent) : [];
+  const [root, id, child, childId] = segments;
+  if (root === "indexes") {
+    if (segments.length === 1) return { kind: "indexes" as const };
+    if (segments.length === 2) return { kind: "index" as const, indexId: id };
+    if (segments.length === 3 && child === "videos") return { kind: "videos" as const, indexId: id };
+    if (segments.length === 4 && child === "videos") return { kind: "video" as const, indexId: id, videoId: childId };
+  }
+  if (root === "tasks") {
+    if (segments.length === 1) return { kind: "tasks" as const };
+    if (segments.length === 2) return { kind: "task" as const, taskId: id };
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
+
+// 리소스 목록 요청 핸들러 (고정 목록 + 첫 페이지의 인덱스들)
+async function handleListResources() {
+  const resources = [
+    {
+      uri: "twelvelabs://indexes",
+      name: "Indexes",
+      description: "All indexes in the TwelveLabs account",
+      mimeType: "application/json"
+    },
+    {
+      uri: "twelvelabs://tasks",
+      name: "Indexing tasks",
+      description: "Recent video indexing tasks",
+      mimeType: "application/json"
+    }
+  ];
+  try {
+    const { indexes } = await listIndexes(1, 50);
+    for (const index of indexes) {
+      resources.push({
+        uri: `twelvelabs://indexes/${index._id}`,
+        name: `Index: ${index.index_name}`,
+        description: `Index ${index.index_name} (${index.video_count ?? 0} videos)`,
+        mimeType: "application/json"
+      });
+    }
+  } catch (error) {
+    logger.warn('리소스 목록의 인덱스 조회 실패:', error);
+  }
+  return { resources };
+}
+
+async function handleListResourceTemplates() {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: "twelvelabs://indexes/{indexId}",
+        name: "Index",
+        description: "Details of an index, including its models and video count",
+        mimeType: "application/json"
+      },
+      {
+        uriTemplate: "twelvelabs://indexes/{indexId}/videos",
+        name: "Videos in an index",
+        description: "First page of videos in an index",
+        mimeType: "application/json"
+      },
+      {
+        uriTemplate: "twelvelabs://indexes/{indexId}/videos/{videoId}",
+        name: "Video",
+        description: "Details of a video: duration, filename, HLS URL, thumbnails and user metadata",
+        mimeType: "application/json"
+      },
+      {
+        uriTemplate: "twelvelabs://tasks/{taskId}",
+        name: "Indexing task",
+        description: "Status of a video indexing task. Subscribe to get notified when the status changes",
+        mimeType: "application/json"
+      }
+    ]
+  };
+}
+
+// 리소스 읽기 핸들러 - 도구와 같은 조회 함수를 사용하고, URI의 인덱스 이름도 도구 인자처럼 ID로 바꿈
+async function handleReadResource(request: ReadResourceRequest) {
+  const { uri } = request.params;
+  const target = parseResourceUri(uri);
+  if ("indexId" in target && target.indexId) {
+    target.indexId = await resolveIndexId(target.indexId);
+  }
+  let data;
+  switch (target.kind) {
+    case "indexes":
+      data = await listIndexes(1, 50);
+      break;
+    case "index":
+      data = { status: 'success', index: await api().get<ApiIndex>(`/indexes/${encodeURIComponent(target.indexId)}`) };
+      break;
+    case "videos":
+      data = await listVideos(target.indexId, 1, 50);
+      break;
+    case "video":
+      data = await getVideo(target.indexId, target.videoId);
+      break;
+    case "tasks":
+      data = await listTasks(1, 50);
+      break;
+    case "task":
+      data = await getTask(target.taskId);
+      break;
+  }
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) }]
+  };
+}
+
+// 프롬프트 목록 요청 핸들러
+async function handleListPrompts() {
+  return {
+    prompts: [...PROMPT_TEMPLATES.values()].map((template) => ({
+      name: template.name,
+      description: `${template.description} (uses ${template.tool})`,
+      arguments: [
+        { name: "videoId", description: "ID of the video to analyze", required: true },
+        ...(template.arguments || []).map((arg) => ({
+          name: arg.name,
+          description: arg.description,
+          required: arg.required ?? false
+        }))
+      ]
+    }))
+  };
+}
+
+// 프롬프트 요청 핸들러 - 템플릿을 채워 해당 도구를 호출하도록 안내하는 메시지를 반환
+async function handleGetPrompt(request: GetPromptRequest) {
+  const { name, arguments: values = {} } = request.params;
+  const template = PROMPT_TEMPLATES.get(name);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = ["videoId", ...(template.arguments || []).filter((arg) => arg.required).map((arg) => arg.name)]
+    .filter((argName) => !values[argName]);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required prompt arguments: ${missing.join(", ")}`);
+  }
+
+  const call = buildPromptToolCall(template, values);
+  return {
+    description: template.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text:
+            `Call the ${call.tool} tool with exactly these arguments and present the result to me:\n\n` +
+            "```json\n" + JSON.stringify(call.arguments, null, 2) + "\n```"
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * 요청 핸들러가 등록된 MCP 서버를 만듭니다.
+ * stdio 모드에서는 하나만 만들고, HTTP 모드에서는 세션마다 새로 만듭니다.
+ * 작업 리소스 구독은 알림을 보낼 세션에 묶여 있으므로 서버마다 따로 관리합니다.
+ * sessionCredentials는 HTTP 세션을 연 초기화 요청의 헤더에서 가져온 API 키/프로필입니다.
+ */
+export function createServer(sessionCredentials: ApiCredentials = {}) {
+  const server = new Server(
+    {
+      name: "mcp-server-twelvelabs",
+      version: "1.0.25",
+    },
+    {
+      capabilities: {
+        tools: {},
+        logging: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+
+  // API 키 우선순위: 요청 헤더 > 세션 초기화 요청 헤더 > initialize 옵션 > TWELVELABS_API_KEY (stdio만)
+  // initialize 옵션은 capabilities.experimental.twelvelabs = { apiKey } 또는 { profile, profileToken }
+  function sessionApiClient(requestCredentials?: ApiCredentials) {
+    const initCredentials = server.getClientCapabilities()?.experimental?.twelvelabs as ApiCredentials | undefined;
+    return createApiClient(
+      resolveApiKey(
+        [requestCredentials, sessionCredentials, initCredentials],
+        API_KEY_PROFILES,
+        TRANSPORT === "http" ? { requireProfileToken: true } : { defaultApiKey: TWELVELABS_API_KEY }
+      )
+    );
+  }
+
+  // TwelveLabs API를 호출하는 핸들러는 이 세션의 클라이언트로 실행
+  function withSessionApi<Req, Res>(handler: (request: Req, extra: RequestExtra) => Promise<Res>) {
+    return (request: Req, extra: RequestExtra) =>
+      apiContext.run(() => sessionApiClient(credentialsFromAuthInfo(extra.authInfo)), () => handler(request, extra));
+  }
+
+  // 구독된 작업 리소스의 상태 변경 감시
+  const taskSubscriptions = createTaskSubscriptionManager({
+    fetchStatus: (taskId) => apiContext.run(() => sessionApiClient(), async () => (await getTask(taskId)).task.status),
+    onUpdated: (uri) => server.sendResourceUpdated({ uri }),
+    // 구독이 끝났음을 알림. 클라이언트가 다시 읽으면 원인 오류(작업 없음 등)를 받음
+    onStopped: (uri) => server.sendResourceUpdated({ uri })
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  server.setRequestHandler(CallToolRequestSchema, withSessionApi((request: CallToolRequest, extra) =>
+    usageContext.run({ tool: request.params.name, session: usageSession(extra) }, () => handleCallTool(request, extra))
+  ));
+  server.setRequestHandler(ListResourcesRequestSchema, withSessionApi(handleListResources));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, handleListResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, withSessionApi(handleReadResource));
+  server.setRequestHandler(ListPromptsRequestSchema, handleListPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, handleGetPrompt);
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const target = parseResourceUri(request.params.uri);
+    if (target.kind !== "task") {
+      throw new McpError(ErrorCode.InvalidParams, `Only task resources (twelvelabs://tasks/{taskId}) support subscriptions`);
+    }
+    taskSubscriptions.subscribe(target.taskId);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const target = parseResourceUri(request.params.uri);
+    if (target.kind === "task") {
+      taskSubscriptions.unsubscribe(target.taskId);
+    }
+    return {};
+  });
+
+  server.onclose = () => {
+    taskSubscriptions.clear();
+  };
+
+  return server;
+}
+
 async function runServer() {
+  if (TRANSPORT === "http") {
+    const httpServer = await startHttpServer({
+      createServer,
+      host: HTTP_HOST,
+      port: HTTP_PORT,
+      verifyCredentials: (credentials) => verifyProfileAccess(credentials, API_KEY_PROFILES)
+    });
+    // SIGTERM(컨테이너 종료)/SIGINT 시 열린 세션을 닫고 종료
+    exitOnSignals(() => httpServer.close());
+    return;
+  }
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("TwelveLabs Video MCP Server running on stdio");
+  exitOnSignals(() => server.close());
+  logger.info("TwelveLabs Video MCP Server running on stdio");
 }
 
-runServer().catch((error) => {
-  console.error("Fatal error running server:", error);
-  process.exit(1);
-});
+// SIGTERM/SIGINT 시 서버를 닫고 남은 사용량 기록을 파일에 쓴 뒤 종료. 정리 중 오류가 나면 기록하고 1로 종료
+function exitOnSignals(closeServer: () => Promise<void>) {
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, () => {
+      logger.info(`${signal} 수신`);
+      closeServer()
+        .then(() => USAGE_LEDGER.flush())
+        .then(
+          () => process.exit(0),
+          (error) => {
+            logger.error("종료 처리 중 오류:", error);
+            process.exit(1);
+          }
+        );
+    });
+  }
+}
 
+// 직접 실행(npx 등 bin 심볼릭 링크 포함)한 경우에만 서버 시작. 테스트는 createServer만 가져와 사용
+const isMainModule = process.argv[1] !== undefined && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url);
+
+if (isMainModule) {
+  runServer().catch((error) => {
+    logger.error("Fatal error running server:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * TwelveLabs API 응답 타입.
+ * 서버가 읽는 필드만 선언하고, 나머지 필드는 결과에 그대로 담아 돌려주도록 인덱스 시그니처로 둡니다.
+ */
+
+export interface ApiPageInfo {
+  page?: number;
+  limit_per_page?: number;
+  total_page?: number;
+  total_results?: number;
+  next_page_token?: string;
+  [key: string]: unknown;
+}
+
+// 목록 응답 (data와 page_info)
+export interface ApiPage<T> {
+  data?: T[];
+  page_info?: ApiPageInfo;
+  [key: string]: unknown;
+}
+
+export interface ApiIndexModel {
+  model_name: string;
+  model_options?: string[];
+  [key: string]: unknown;
+}
+
+export interface ApiIndex {
+  _id: string;
+  id?: string;
+  index_name?: string;
+  models?: ApiIndexModel[];
+  addons?: string[];
+  video_count?: number;
+  total_duration?: number;
+  [key: string]: unknown;
+}
+
+export interface ApiSystemMetadata {
+  filename?: string;
+  duration?: number;
+  [key: string]: unknown;
+}
+
+export interface ApiVideo {
+  _id: string;
+  system_metadata?: ApiSystemMetadata;
+  user_metadata?: Record<string, unknown>;
+  hls?: { video_url?: string; thumbnail_urls?: string[]; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+export interface ApiTask {
+  _id: string;
+  id?: string;
+  index_id: string;
+  video_id?: string | null;
+  status: string;
+  system_metadata?: ApiSystemMetadata;
+  process?: { percentage?: number; remain_seconds?: number };
+  error?: { message?: string; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+// clip 단위 검색 결과, 또는 video 단위 결과의 clips 항목
+export interface ApiSearchClip {
+  video_id?: string;
+  start?: number;
+  end?: number;
+  score?: number;
+  confidence?: string;
+  rank?: number;
+  [key: string]: unknown;
+}
+
+// 검색 결과 항목. video 단위로 묶으면 id와 clips를 가짐
+export interface ApiSearchHit extends ApiSearchClip {
+  id?: string;
+  clips?: ApiSearchClip[];
+}
+
+// 생성 응답의 토큰 사용량
+export interface ApiUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+  [key: string]: unknown;
+}
+
+export interface ApiGenerateResponse {
+  id?: string;
+  data?: string;
+  usage?: ApiUsage;
+  [key: string]: unknown;
+}
+
+export interface ApiGistResponse {
+  id?: string;
+  title?: string;
+  topics?: string[];
+  hashtags?: string[];
+  usage?: ApiUsage;
+  [key: string]: unknown;
+}
+
+export interface ApiChapter {
+  chapter_number?: number;
+  start?: number;
+  end?: number;
+  start_sec?: number;
+  end_sec?: number;
+  chapter_title?: string;
+  chapter?: string;
+  chapter_summary?: string;
+  [key: string]: unknown;
+}
+
+export interface ApiHighlight {
+  start?: number;
+  end?: number;
+  start_sec?: number;
+  end_sec?: number;
+  highlight?: string;
+  highlight_summary?: string;
+  [key: string]: unknown;
+}
+
+export interface ApiSummarizeResponse {
+  id?: string;
+  summary?: string;
+  chapters?: ApiChapter[];
+  highlights?: ApiHighlight[];
+  usage?: ApiUsage;
+  [key: string]: unknown;
+}
+
+export interface ApiEmbeddingSegment {
+  float?: number[];
+  float_?: number[];
+  start_offset_sec?: number;
+  end_offset_sec?: number;
+  embedding_scope?: string;
+  embedding_option?: string;
+  [key: string]: unknown;
+}
+
+export interface ApiEmbedding {
+  segments?: ApiEmbeddingSegment[];
+  metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface ApiEmbedResponse {
+  model_name?: string;
+  text_embedding?: ApiEmbedding;
+  image_embedding?: ApiEmbedding;
+  audio_embedding?: ApiEmbedding;
+  [key: string]: unknown;
+}
+
+export interface ApiEmbedTask {
+  _id: string;
+  id?: string;
+  status: string;
+  model_name?: string;
+  video_embedding?: ApiEmbedding;
+  [key: string]: unknown;
+}
+
+// 작업/임포트 생성 응답 (ID만 사용)
+export interface ApiCreated {
+  _id?: string;
+  id?: string;
+  video_id?: string | null;
+  usage?: ApiUsage;
+  [key: string]: unknown;
+}
@@ -0,0 +1,348 @@
+import { createHash, randomBytes } from "node:crypto";
+import { readFile, writeFile, rename, mkdir, rm } from "node:fs/promises";
+import path from "node:path";
+import { ValidationError } from "./errors.js";
+import { isInsideDataDir, resolveDataPath, resolveDataWritePath } from "./upload.js";
+
+/**
+ * batch_upload_videos의 매니페스트 파싱과 진행 상태 파일.
+ * 매니페스트는 CSV(헤더 행 필수), JSON 배열(또는 { items: [...] }), JSONL(한 줄에 객체 하나)이며
+ * 항목마다 url 또는 filePath와 선택적 id, metadata를 가집니다. CSV에서 알려진 열 외의 열은 metadata가 됩니다.
+ * 상태 파일에는 항목별 작업 ID와 마지막 상태를 기록해, 중단되었거나 다시 실행한 배치가 이미 제출한 항목을 건너뜁니다.
+ * 상태 파일은 데이터 디렉터리 안에만 씁니다.
+ */
+
+export type ManifestFormat = "csv" | "json" | "jsonl";
+export type MetadataValue = string | number | boolean;
+
+export interface ManifestItem {
+  // 상태 파일에서 항목을 구분하는 키 (id가 없으면 url 또는 filePath)
+  key: string;
+  // 매니페스트에서의 위치 (CSV/JSONL은 줄 번호, JSON은 1부터 시작하는 배열 순서)
+  line: number;
+  url?: string;
+  filePath?: string;
+  metadata?: Record<string, MetadataValue>;
+}
+
+export interface BatchItemState {
+  key: string;
+  taskId?: string;
+  videoId?: string;
+  // TwelveLabs 작업 상태 (pending, indexing, ready, failed 등). 제출 자체가 실패하면 failed
+  taskStatus: string;
+  error?: string;
+  metadataApplied?: boolean;
+  submittedAt?: string;
+  updatedAt: string;
+}
+
+export interface BatchState {
+  version: 1;
+  manifestPath: string;
+  indexId: string;
+  createdAt: string;
+  updatedAt: string;
+  items: Record<string, BatchItemState>;
+}
+
+export const MANIFEST_FORMATS: ManifestFormat[] = ["csv", "json", "jsonl"];
+
+// CSV 열 이름 (대소문자, 밑줄 무시) → 항목 필드
+const CSV_COLUMNS: Record<string, "id" | "url" | "filePath" | "metadata"> = {
+  id: "id",
+  key: "id",
+  url: "url",
+  videourl: "url",
+  filepath: "filePath",
+  path: "filePath",
+  file: "filePath",
+  metadata: "metadata"
+};
+
+// 오류 메시지에 포함할 최대 항목 수
+const MAX_REPORTED_ERRORS = 20;
+
+export function manifestFormatFromPath(filePath: string): ManifestFormat | undefined {
+  const extension = path.extname(filePath).toLowerCase().replace(".", "");
+  return extension === "ndjson" ? "jsonl" : MANIFEST_FORMATS.find((format) => format === extension);
+}
+
+/**
+ * RFC 4180 CSV를 행 목록으로 파싱합니다 (따옴표 안의 쉼표, 줄바꿈, "" 이스케이프 지원).
+ * 각 행은 시작 줄 번호와 함께 반환합니다.
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== "") {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new ValidationError(`CSV 매니페스트의 ${rowLine}번째 줄에서 닫히지 않은 따옴표가 있습니다`);
+  }
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+function csvRecords(text: string): { line: number; record: Record<string, unknown> }[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.cells.map((name) => name.trim());
+  return rows.map(({ line, cells }) => {
+    const record: Record<string, unknown> = {};
+    const metadata: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = cells[i]?.trim() ?? "";
+      if (value === "") return;
+      const field = CSV_COLUMNS[column.toLowerCase().replace(/[_\s-]/g, "")];
+      if (field === "metadata") {
+        try {
+          Object.assign(metadata, JSON.parse(value));
+        } catch {
+          record.metadataError = `metadata column must be a JSON object (got ${value.substring(0, 40)})`;
+        }
+      } else if (field) {
+        record[field] = value;
+      } else if (column !== "") {
+        metadata[column] = value;
+      }
+    });
+    if (Object.keys(metadata).length > 0) record.metadata = metadata;
+    return { line, record };
+  });
+}
+
+function isObjectRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function jsonRecords(text: string, format: "json" | "jsonl"): { line: number; record: unknown }[] {
+  if (format === "jsonl") {
+    const records: { line: number; record: unknown }[] = [];
+    text.split(/\r?\n/).forEach((content, i) => {
+      if (content.trim() === "") return;
+      try {
+        records.push({ line: i + 1, record: JSON.parse(content) });
+      } catch {
+        throw new ValidationError(`JSONL 매니페스트의 ${i + 1}번째 줄이 올바른 JSON이 아닙니다: ${content.substring(0, 100)}`);
+      }
+    });
+    return records;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new ValidationError(`JSON 매니페스트를 파싱할 수 없습니다: ${e instanceof Error ? e.message : e}`);
+  }
+  const items: unknown = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) {
+    throw new ValidationError("JSON 매니페스트는 항목 배열이거나 { \"items\": [...] } 형식이어야 합니다");
+  }
+  return items.map((record, i) => ({ line: i + 1, record }));
+}
+
+/**
+ * 매니페스트 파일을 읽어 검증된 항목 목록을 반환합니다. 잘못된 항목은 모두 모아 한 번에 ValidationError로 던집니다.
+ */
+export async function readManifest(manifestPath: string, format?: ManifestFormat): Promise<{ absolutePath: string; items: ManifestItem[] }> {
+  const absolutePath = resolveDataPath(manifestPath);
+  const resolvedFormat = format ?? manifestFormatFromPath(absolutePath);
+  if (!resolvedFormat) {
+    throw new ValidationError(`매니페스트 형식을 알 수 없습니다: ${manifestPath} (확장자 .csv, .json, .jsonl 또는 manifestFormat 지정)`);
+  }
+  let text: string;
+  try {
+    text = await readFile(absolutePath, "utf8");
+  } catch {
+    throw new ValidationError(`매니페스트 파일을 찾을 수 없습니다: ${absolutePath}`);
+  }
+
+  const records = resolvedFormat === "csv" ? csvRecords(text) : jsonRecords(text, resolvedFormat);
+  const label = resolvedFormat === "json" ? "item" : "line";
+  const errors: string[] = [];
+  const items: ManifestItem[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { line, record } of records) {
+    const problems: string[] = [];
+    if (!isObjectRecord(record)) {
+      errors.push(`${label} ${line}: must be an object`);
+      continue;
+    }
+    const url = typeof record.url === "string" && record.url.trim() !== "" ? record.url.trim() : undefined;
+    const filePathValue = record.filePath ?? record.file_path ?? record.path;
+    const filePath = typeof filePathValue === "string" && filePathValue.trim() !== "" ? filePathValue.trim() : undefined;
+    if (!url && !filePath) problems.push("needs url or filePath");
+    if (url && filePath) problems.push("has both url and filePath");
+    if (typeof record.metadataError === "string") problems.push(record.metadataError);
+    const metadata = record.metadata;
+    if (metadata !== undefined && !isObjectRecord(metadata)) {
+      problems.push("metadata must be an object");
+    } else {
+      for (const [name, value] of Object.entries(metadata ?? {})) {
+        if (!["string", "number", "boolean"].includes(typeof value)) {
+          problems.push(`metadata.${name} must be a string, number or boolean`);
+        }
+      }
+    }
+    const key = record.id !== undefined && record.id !== "" ? String(record.id) : url ?? filePath;
+    if (key !== undefined) {
+      if (seen.has(key)) problems.push(`duplicate item "${key}" (also ${label} ${seen.get(key)})`);
+      seen.set(key, line);
+    }
+    if (problems.length > 0) {
+      errors.push(`${label} ${line}: ${problems.join("; ")}`);
+      continue;
+    }
+    items.push({
+      key: key!,
+      line,
+      ...(url ? { url } : { filePath }),
+      ...(metadata && Object.keys(metadata).length > 0 ? { metadata: metadata as Record<string, MetadataValue> } : {})
+    });
+  }
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).join("; ");
+    const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : "";
+    throw new ValidationError(`매니페스트에 잘못된 항목이 ${errors.length}개 있습니다: ${shown}${more}`);
+  }
+  if (items.length === 0) {
+    throw new ValidationError(`매니페스트에 항목이 없습니다: ${absolutePath}`);
+  }
+  return { absolutePath, items };
+}
+
+/**
+ * 상태 파일 경로를 정합니다. statePath가 없으면 매니페스트 옆(<manifestPath>.state.json)에 두되,
+ * 매니페스트가 데이터 디렉터리 밖에 있으면 데이터 디렉터리의 batch-state/ 아래에 둡니다.
+ * 데이터 디렉터리 밖의 statePath는 ValidationError입니다.
+ */
+export function resolveBatchStatePath(manifestPath: string, statePath?: string): string {
+  if (statePath) {
+    return resolveDataWritePath(statePath);
+  }
+  if (isInsideDataDir(manifestPath)) {
+    return resolveDataWritePath(`${manifestPath}.state.json`);
+  }
+  // 이름이 같은 다른 디렉터리의 매니페스트와 상태 파일이 겹치지 않도록 경로 해시를 붙임
+  const hash = createHash("sha256").update(manifestPath).digest("hex").substring(0, 8);
+  return resolveDataWritePath(path.join("batch-state", `${path.basename(manifestPath)}.${hash}.state.json`));
+}
+
+/**
+ * 상태 파일을 읽습니다. 없으면 새 상태를 만들고, 다른 인덱스로 시작한 배치의 상태 파일이면 거부합니다.
+ */
+export async function loadBatchState(statePath: string, manifestPath: string, indexId: string): Promise<BatchState> {
+  let text: string | undefined;
+  try {
+    text = await readFile(statePath, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+  }
+  const now = new Date().toISOString();
+  if (text === undefined) {
+    return { version: 1, manifestPath, indexId, createdAt: now, updatedAt: now, items: {} };
+  }
+  let state: BatchState;
+  try {
+    state = JSON.parse(text);
+  } catch {
+    throw new ValidationError(`배치 상태 파일이 손상되었습니다: ${statePath} (파일을 확인하거나 다른 statePath를 지정하세요)`);
+  }
+  if (state.indexId !== indexId) {
+    throw new ValidationError(
+      `배치 상태 파일 ${statePath}은 다른 인덱스(${state.indexId})에 대한 것입니다. 같은 indexId를 쓰거나 다른 statePath를 지정하세요`
+    );
+  }
+  return { ...state, items: state.items ?? {} };
+}
+
+/**
+ * 상태를 여러 작업이 동시에 갱신해도 파일이 깨지지 않도록 저장을 한 줄로 세우는 저장기를 만듭니다.
+ * 저장은 임시 파일에 쓴 뒤 이름을 바꾸므로 중간에 종료되어도 이전 상태가 남습니다.
+ * 저장이 실패하면 그 save()만 실패하고, 다음 저장은 다시 시도합니다.
+ */
+export function createBatchStateWriter(statePath: string, state: BatchState) {
+  let chain: Promise<void> = Promise.resolve();
+  return {
+    save(): Promise<void> {
+      chain = chain.catch(() => {}).then(async () => {
+        state.updatedAt = new Date().toISOString();
+        await mkdir(path.dirname(statePath), { recursive: true });
+        // 같은 매니페스트를 여러 세션이 동시에 실행해도 임시 파일이 겹치지 않도록 임의 접미사를 붙임
+        const temporary = `${statePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+        try {
+          await writeFile(temporary, JSON.stringify(state, null, 2), "utf8");
+          await rename(temporary, statePath);
+        } catch (e) {
+          await rm(temporary, { force: true });
+          throw e;
+        }
+      });
+      return chain;
+    }
+  };
+}
+
+/**
+ * 최대 concurrency개씩 동시에 실행합니다. shouldStop이 true를 반환하면 새 항목을 시작하지 않습니다.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+) {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+}
@@ -0,0 +1,379 @@
+import fetch, { Response, RequestInit } from "node-fetch";
+import { createHash, randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import {
+  TwelveLabsError,
+  NetworkError,
+  ServerError,
+  errorFromResponse
+} from "./errors.js";
+import { MultipartBody } from "./upload.js";
+import { logger } from "./logger.js";
+
+/**
+ * TwelveLabs REST API 공통 클라이언트.
+ * x-api-key 헤더, 요청 ID, 타임아웃, 429/5xx 재시도(Retry-After 존중), JSON 파싱과
+ * 타입이 있는 오류 변환을 한 곳에서 처리합니다.
+ */
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  apiKey: string;
+  // 요청 하나의 기본 타임아웃 (ms)
+  timeoutMs?: number;
+  // 재시도 최대 횟수 (최초 요청 제외)
+  maxRetries?: number;
+  // 지수 백오프 기본 대기 시간 (ms)
+  retryBaseDelayMs?: number;
+  // 재시도 대기 시간 상한 (ms)
+  retryMaxDelayMs?: number;
+}
+
+export type QueryValue = string | number | boolean | string[] | undefined | null;
+
+export interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  json?: unknown;
+  form?: FormData;
+  // 재시도 시 스트림을 다시 만들 수 있도록 팩토리로 전달
+  multipart?: () => MultipartBody;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // 5xx/네트워크 오류에도 재시도할지 여부 (기본: GET/PUT/DELETE만). 429는 항상 재시도
+  idempotent?: boolean;
+}
+
+export interface StreamOptions extends RequestOptions {
+  // 헤더를 받은 뒤 본문 청크 사이에 허용하는 최대 대기 시간 (ms, 기본: timeoutMs)
+  idleTimeoutMs?: number;
+}
+
+// fetchOnce가 연 응답과 그 요청의 타임아웃/취소 연결
+interface OpenedResponse {
+  response: Response;
+  abort: () => void;
+  // 요청 전체 타임아웃만 해제 (취소 신호 연결은 유지)
+  clearTimeout: () => void;
+  // 타임아웃과 취소 신호 연결을 모두 해제
+  release: () => void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_RETRIES = 3;
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+// Retry-After 헤더 (초 또는 HTTP 날짜)를 ms로 변환
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+// 오류 응답 본문에서 메시지와 코드를 추출 ({ code, message } 형식)
+function describeErrorBody(text: string): { message?: string; code?: string } {
+  try {
+    const body = JSON.parse(text);
+    return { message: body?.message, code: body?.code };
+  } catch {
+    return {};
+  }
+}
+
+// fetchOnce에서 만드는 요청 본문 (JSON 문자열, FormData, multipart 스트림)인지 확인.
+// node-fetch는 전역 FormData도 그대로 전송하지만 타입 정의는 formdata-polyfill의 FormData만 허용
+function isRequestBody(body: unknown): body is RequestInit["body"] {
+  return body === undefined || typeof body === "string" || body instanceof Readable || body instanceof FormData;
+}
+
+/**
+ * 응답 본문을 청크 단위로 읽습니다. 청크 사이 대기가 idleTimeoutMs를 넘으면 요청을 중단하고 NetworkError를,
+ * 외부 취소 신호가 오면 취소 오류를 던집니다. 끝까지 읽지 않고 멈추면 요청을 중단하고 정리합니다.
+ */
+async function* readStreamBody(
+  opened: OpenedResponse,
+  request: { method: string; path: string; requestId: string },
+  idleTimeoutMs: number,
+  signal?: AbortSignal
+): AsyncGenerator<Buffer> {
+  const { method, path } = request;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let stalled = false;
+  let finished = false;
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      stalled = true;
+      opened.abort();
+    }, idleTimeoutMs);
+  };
+
+  try {
+    resetIdleTimer();
+    for await (const chunk of opened.response.body as AsyncIterable<Buffer>) {
+      resetIdleTimer();
+      yield chunk;
+    }
+    finished = true;
+  } catch (e) {
+    if (signal?.aborted) {
+      throw new TwelveLabsError(`${method} ${path} was cancelled`, request);
+    }
+    const reason = stalled ? `stream stalled: no data for ${idleTimeoutMs}ms` : `stream failed: ${e instanceof Error ? e.message : e}`;
+    throw new NetworkError(`${method} ${path} ${reason}`, request);
+  } finally {
+    clearTimeout(idleTimer);
+    if (!finished) {
+      opened.abort();
+    }
+    opened.release();
+  }
+}
+
+export class TwelveLabsClient {
+  readonly baseUrl: string;
+  // API 키를 구분하기 위한 해시 (캐시 등에서 계정별로 데이터를 나눌 때 사용, 키 자체는 노출하지 않음)
+  readonly accountId: string;
+  private readonly apiKey: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+
+  constructor(options: ApiClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.accountId = createHash("sha256").update(options.apiKey).digest("hex").substring(0, 16);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 30_000;
+  }
+
+  get<T = unknown>(path: string, options: RequestOptions = {}) {
+    return this.request<T>("GET", path, options);
+  }
+
+  post<T = unknown>(path: string, options: RequestOptions = {}) {
+    return this.request<T>("POST", path, options);
+  }
+
+  put<T = unknown>(path: string, options: RequestOptions = {}) {
+    return this.request<T>("PUT", path, options);
+  }
+
+  delete<T = unknown>(path: string, options: RequestOptions = {}) {
+    return this.request<T>("DELETE", path, options);
+  }
+
+  /**
+   * 요청을 보내고 JSON 응답을 반환합니다. 본문이 없는 응답(204 등)은 빈 객체로 반환합니다.
+   * 본문을 끝까지 읽을 때까지 타임아웃과 취소 신호를 연결해 두고, 본문을 읽다 실패하면 요청 실패와 같이 재시도합니다.
+   */
+  async request<T = unknown>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const { text, status, requestId } = await this.withRetries(method, path, options, async (opened, requestId) => {
+      try {
+        const text = await this.readText(opened, { method, path, requestId }, options);
+        return { text, status: opened.response.status, requestId };
+      } finally {
+        opened.release();
+      }
+    });
+    if (text.trim() === "") {
+      return {} as T;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch (e) {
+      throw new ServerError(`Malformed JSON in response from ${method} ${path}: ${text.substring(0, 200)}`, {
+        status,
+        requestId,
+        method,
+        path,
+        responseBody: text.substring(0, 2000)
+      });
+    }
+  }
+
+  /**
+   * 스트리밍 요청을 보내고 응답 본문을 청크 단위로 읽는 반복자를 반환합니다.
+   * 본문을 끝까지 읽을 때까지 취소 신호(signal)를 연결해 두고, 요청 타임아웃 대신
+   * 청크 사이 유휴 타임아웃(idleTimeoutMs)을 적용합니다.
+   */
+  async stream(method: string, path: string, options: StreamOptions = {}): Promise<{ chunks: AsyncIterable<Buffer>; requestId: string }> {
+    const opened = await this.open(method, path, options);
+    opened.clearTimeout();
+    const idleTimeoutMs = options.idleTimeoutMs ?? options.timeoutMs ?? this.timeoutMs;
+    return {
+      chunks: readStreamBody(opened, { method, path, requestId: opened.requestId }, idleTimeoutMs, options.signal),
+      requestId: opened.requestId
+    };
+  }
+
+  // 상태 코드 검사와 재시도를 거쳐 성공한 응답을 엶. 호출한 쪽에서 release()로 정리해야 함
+  private open(method: string, path: string, options: RequestOptions): Promise<OpenedResponse & { requestId: string }> {
+    return this.withRetries(method, path, options, async (opened, requestId) => ({ ...opened, requestId }));
+  }
+
+  /**
+   * 요청을 보내고 성공한 응답을 handle로 처리합니다. 상태 코드 오류와 handle에서 던진 오류
+   * (본문 읽기 실패 등)는 같은 규칙으로 재시도합니다.
+   */
+  private async withRetries<R>(
+    method: string,
+    path: string,
+    options: RequestOptions,
+    handle: (opened: OpenedResponse, requestId: string) => Promise<R>
+  ): Promise<R> {
+    const url = this.buildUrl(path, options.query);
+    const requestId = randomUUID();
+    const idempotent = options.idempotent ?? method !== "POST";
+
+    for (let attempt = 0; ; attempt++) {
+      let error: TwelveLabsError;
+      try {
+        const opened = await this.fetchOnce(method, url, requestId, options);
+        if (opened.response.ok) {
+          return await handle(opened, requestId);
+        }
+        try {
+          error = await this.toError(opened.response, method, path, requestId);
+        } finally {
+          opened.release();
+        }
+      } catch (e) {
+        if (!(e instanceof TwelveLabsError)) throw e;
+        error = e;
+      }
+
+      // 429는 처리되지 않은 요청이므로 항상 재시도, 5xx/네트워크 오류는 멱등 요청만 재시도
+      const retryable =
+        error.status === 429 ||
+        (idempotent && error.retryable && (error.status === undefined || RETRYABLE_STATUS.has(error.status)));
+      if (!retryable) {
+        throw error;
+      }
+      if (attempt >= this.maxRetries || options.signal?.aborted) {
+        throw error;
+      }
+      const retryAfterMs = (error as { retryAfterMs?: number }).retryAfterMs;
+      const backoffMs = Math.min(this.retryBaseDelayMs * 2 ** attempt, this.retryMaxDelayMs) * (0.5 + Math.random() / 2);
+      const delayMs = Math.min(retryAfterMs ?? backoffMs, this.retryMaxDelayMs);
+      logger.warn(
+        `API 재시도 ${attempt + 1}/${this.maxRetries}: ${method} ${path} (${error.status ?? error.name}), ` +
+        `${Math.round(delayMs)}ms 후 재시도 [request_id=${requestId}]`
+      );
+      await sleep(delayMs, options.signal);
+    }
+  }
+
+  // 타임아웃과 취소 신호가 연결된 채로 응답 본문을 끝까지 읽음. 실패하면 NetworkError(취소면 취소 오류)를 던짐
+  private async readText(opened: OpenedResponse, request: { method: string; path: string; requestId: string }, options: RequestOptions) {
+    try {
+      return await opened.response.text();
+    } catch (e: unknown) {
+      const { method, path } = request;
+      if (options.signal?.aborted) {
+        throw new TwelveLabsError(`${method} ${path} was cancelled`, request);
+      }
+      const reason = e instanceof Error && e.name === "AbortError"
+        ? `timed out after ${options.timeoutMs ?? this.timeoutMs}ms while reading the response body`
+        : `failed to read the response body: ${e instanceof Error ? e.message : e}`;
+      throw new NetworkError(`${method} ${path} ${reason}`, request);
+    }
+  }
+
+  // 오류 응답 본문을 읽어 오류로 변환. 본문을 읽는 동안에도 타임아웃과 취소 신호가 적용됨
+  private async toError(response: Response, method: string, path: string, requestId: string) {
+    const text = await response.text().catch(() => "");
+    const body = describeErrorBody(text);
+    return errorFromResponse(
+      response.status,
+      `${method} ${path} failed with ${response.status}${body.message ? `: ${body.message}` : ""}`,
+      {
+        status: response.status,
+        code: body.code,
+        requestId: response.headers.get("x-request-id") || requestId,
+        method,
+        path,
+        responseBody: text.substring(0, 2000),
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after"))
+      }
+    );
+  }
+
+  private buildUrl(path: string, query?: Record<string, QueryValue>) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query || {})) {
+      if (value === undefined || value === null || value === "") continue;
+      params.append(key, Array.isArray(value) ? value.join(",") : String(value));
+    }
+    const queryString = params.toString();
+    return `${this.baseUrl}${path}${queryString ? `?${queryString}` : ""}`;
+  }
+
+  private async fetchOnce(method: string, url: string, requestId: string, options: RequestOptions): Promise<OpenedResponse> {
+    const headers: Record<string, string> = {
+      "x-api-key": this.apiKey,
+      "x-request-id": requestId
+    };
+    let body: unknown;
+    if (options.json !== undefined) {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(options.json);
+    } else if (options.form) {
+      body = options.form;
+    } else if (options.multipart) {
+      const multipart = options.multipart();
+      headers["Content-Type"] = multipart.contentType;
+      headers["Content-Length"] = multipart.contentLength.toString();
+      body = multipart.body;
+    }
+    const path = url.substring(this.baseUrl.length).split("?")[0];
+    if (!isRequestBody(body)) {
+      throw new TypeError(`${method} ${path}: unsupported request body`);
+    }
+
+    // 타임아웃과 외부 취소 신호를 하나의 AbortController로 합침
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    const release = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    };
+
+    // 전역 AbortSignal과 node-fetch의 최소 AbortSignal 타입은 구조가 같음
+    const signal: RequestInit["signal"] = controller.signal;
+    try {
+      const response = await fetch(url, { method, headers, body, signal });
+      return { response, abort: () => controller.abort(), clearTimeout: () => clearTimeout(timer), release };
+    } catch (e) {
+      release();
+      if (options.signal?.aborted) {
+        throw new TwelveLabsError(`${method} ${path} was cancelled`, { requestId, method, path });
+      }
+      const reason = e instanceof Error && e.name === "AbortError"
+        ? `timed out after ${timeoutMs}ms`
+        : `network error: ${e instanceof Error ? e.message : e}`;
+      throw new NetworkError(`${method} ${path} ${reason}`, { requestId, method, path });
+    }
+  }
+}
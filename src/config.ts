@@ -0,0 +1,537 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { InvalidArgumentsError, FieldError } from "./errors.js";
+import { validateToolArguments } from "./validation.js";
+import {
+  validateIndexConfiguration,
+  DEFAULT_INDEX_MODELS,
+  DEFAULT_INDEX_ADDONS,
+  SUPPORTED_MODELS,
+  SUPPORTED_ADDONS,
+  IndexModel,
+  IndexAddon,
+  IndexPreset
+} from "./indexModels.js";
+import { DEFAULT_TIMEOUT_MS, DEFAULT_MAX_RETRIES } from "./client.js";
+import { DEFAULT_CACHE_TTL_SEC, DEFAULT_CACHE_MAX_ENTRIES } from "./resultCache.js";
+import { DEFAULT_CONFIRMATION_TTL_SEC } from "./guardrails.js";
+import type { ApiKeyProfileEntry } from "./credentials.js";
+import type { UsageBudget } from "./usageLedger.js";
+import type { LogLevel } from "./logger.js";
+
+export type { LogLevel };
+
+/**
+ * 서버 설정 (설정 파일 + 프로필 + 환경 변수).
+ * 값은 다음 순서로 덮어씁니다: 기본값 < 설정 파일 < 선택한 프로필(profiles.<이름>) < 환경 변수.
+ * 설정 파일은 JSON 또는 YAML이며 --config 또는 TWELVELABS_CONFIG로, 프로필은 --profile 또는
+ * TWELVELABS_CONFIG_PROFILE(없으면 파일의 profile 값)로 지정합니다.
+ * 잘못된 값이 있으면 모든 오류를 필드 경로와 함께 모아 서버 시작 시 한 번에 실패합니다.
+ */
+
+export type CacheMode = "memory" | "disk" | "off";
+
+export interface ServerConfig {
+  // 선택한 프로필 이름과 읽은 설정 파일 (로그/진단용)
+  profile?: string;
+  source?: string;
+  baseUrl: string;
+  // indexId를 생략했을 때 사용할 인덱스
+  defaultIndexId?: string;
+  defaults: {
+    indexModels: IndexModel[];
+    indexAddons: IndexAddon[];
+    temperature: number;
+    searchLimit: number;
+    enableVideoStream: boolean;
+  };
+  timeouts: {
+    requestMs: number;
+    uploadMs: number;
+  };
+  retry: {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+  logLevel: LogLevel;
+  cache: {
+    mode: CacheMode;
+    ttlSec: number;
+    maxEntries: number;
+    // 디스크 캐시 위치 (상대 경로는 데이터 디렉터리 기준)
+    dir?: string;
+  };
+  tools: {
+    // 지정하면 이 도구만 노출 (비어 있으면 전체)
+    enabled: string[];
+    disabled: string[];
+  };
+  guardrails: {
+    // false면 삭제 도구(delete_index/delete_video/delete_task)를 도구 목록에서 숨김
+    destructiveTools: boolean;
+    // 삭제 전에 미리보기와 확인 토큰을 거치도록 함
+    requireConfirmation: boolean;
+    confirmationTtlSec: number;
+    // 삭제할 수 없는 인덱스 ID 또는 이름 패턴 (*, ? 사용 가능)
+    protectedIndexes: string[];
+  };
+  // create_index의 추가 프리셋 (기본 프리셋과 같은 이름이면 덮어씀)
+  indexPresets: Record<string, IndexPreset>;
+  // 추가 프롬프트 템플릿(*.json)이 있는 디렉터리
+  promptsDir?: string;
+  // 이름 있는 API 키 프로필 (프로필 이름 → 키와 접근 토큰)
+  apiKeyProfiles: Record<string, ApiKeyProfileEntry>;
+  usage: {
+    // 사용량 기록을 덧붙일 JSONL 파일 (상대 경로는 데이터 디렉터리 기준)
+    ledger?: string;
+    budgets: UsageBudget[];
+  };
+}
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  baseUrl: "https://api.twelvelabs.io/v1.3",
+  defaults: {
+    indexModels: DEFAULT_INDEX_MODELS,
+    indexAddons: DEFAULT_INDEX_ADDONS,
+    temperature: 0.2,
+    searchLimit: 10,
+    enableVideoStream: true
+  },
+  timeouts: {
+    requestMs: DEFAULT_TIMEOUT_MS,
+    uploadMs: 30 * 60 * 1000
+  },
+  retry: {
+    maxRetries: DEFAULT_MAX_RETRIES,
+    baseDelayMs: 500,
+    maxDelayMs: 30_000
+  },
+  logLevel: "info",
+  cache: {
+    mode: "memory",
+    ttlSec: DEFAULT_CACHE_TTL_SEC,
+    maxEntries: DEFAULT_CACHE_MAX_ENTRIES
+  },
+  tools: {
+    enabled: [],
+    disabled: []
+  },
+  guardrails: {
+    destructiveTools: true,
+    requireConfirmation: true,
+    confirmationTtlSec: DEFAULT_CONFIRMATION_TTL_SEC,
+    protectedIndexes: []
+  },
+  indexPresets: {},
+  apiKeyProfiles: {},
+  usage: {
+    budgets: []
+  }
+};
+
+const POSITIVE_INTEGER = { type: "integer", minimum: 1 };
+const NON_EMPTY_STRING = { type: "string", minLength: 1 };
+const TOOL_NAMES = { type: "array", items: NON_EMPTY_STRING };
+const INDEX_MODELS = {
+  type: "array",
+  minItems: 1,
+  items: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      model_name: { type: "string", enum: Object.keys(SUPPORTED_MODELS) },
+      model_options: { type: "array", items: { type: "string", enum: ["visual", "audio"] } }
+    },
+    required: ["model_name", "model_options"]
+  }
+};
+const INDEX_ADDONS = { type: "array", items: { type: "string", enum: SUPPORTED_ADDONS } };
+
+// 설정 파일 한 단계(최상위 또는 프로필)의 스키마. 모든 필드는 선택 사항
+const CONFIG_LAYER_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    baseUrl: { type: "string", minLength: 1 },
+    defaultIndexId: { type: "string", minLength: 1 },
+    defaults: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        indexModels: INDEX_MODELS,
+        indexAddons: INDEX_ADDONS,
+        temperature: { type: "number", minimum: 0, maximum: 1 },
+        searchLimit: { type: "integer", minimum: 1, maximum: 50 },
+        enableVideoStream: { type: "boolean" }
+      }
+    },
+    timeouts: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        requestMs: POSITIVE_INTEGER,
+        uploadMs: POSITIVE_INTEGER
+      }
+    },
+    retry: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        maxRetries: { type: "integer", minimum: 0, maximum: 10 },
+        baseDelayMs: { type: "integer", minimum: 0 },
+        maxDelayMs: { type: "integer", minimum: 0 }
+      }
+    },
+    logLevel: { type: "string", enum: ["silent", "error", "info"] },
+    cache: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        mode: { type: "string", enum: ["memory", "disk", "off"] },
+        ttlSec: { type: "number", minimum: 1 },
+        maxEntries: POSITIVE_INTEGER,
+        dir: { type: "string", minLength: 1 }
+      }
+    },
+    tools: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: TOOL_NAMES,
+        disabled: TOOL_NAMES
+      }
+    },
+    guardrails: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        destructiveTools: { type: "boolean" },
+        requireConfirmation: { type: "boolean" },
+        confirmationTtlSec: POSITIVE_INTEGER,
+        protectedIndexes: { type: "array", items: NON_EMPTY_STRING }
+      }
+    },
+    indexPresets: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          description: { type: "string" },
+          models: INDEX_MODELS,
+          addons: INDEX_ADDONS
+        },
+        required: ["models"]
+      }
+    },
+    promptsDir: NON_EMPTY_STRING,
+    apiKeyProfiles: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          apiKey: NON_EMPTY_STRING,
+          apiKeyEnv: NON_EMPTY_STRING,
+          accessToken: NON_EMPTY_STRING,
+          accessTokenEnv: NON_EMPTY_STRING
+        }
+      }
+    },
+    usage: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        ledger: NON_EMPTY_STRING,
+        budgets: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              metric: { type: "string", enum: ["tokens", "indexedMinutes", "searches"] },
+              limit: { type: "number", minimum: 0 },
+              scope: { type: "string", enum: ["session", "account"] },
+              period: { type: "string", enum: ["total", "hour", "day"] }
+            },
+            required: ["metric", "limit"]
+          }
+        }
+      }
+    }
+  }
+};
+
+const CONFIG_FILE_SCHEMA = {
+  ...CONFIG_LAYER_SCHEMA,
+  properties: {
+    ...CONFIG_LAYER_SCHEMA.properties,
+    profile: { type: "string", minLength: 1 },
+    profiles: { type: "object", additionalProperties: CONFIG_LAYER_SCHEMA }
+  }
+};
+
+// 환경 변수 → 설정 경로. 값은 문자열이며 스키마 검증에서 숫자/불리언으로 변환
+const ENV_OVERRIDES: Record<string, string> = {
+  TWELVELABS_BASE_URL: "baseUrl",
+  TWELVELABS_DEFAULT_INDEX_ID: "defaultIndexId",
+  TWELVELABS_DEFAULT_TEMPERATURE: "defaults.temperature",
+  TWELVELABS_SEARCH_LIMIT: "defaults.searchLimit",
+  TWELVELABS_ENABLE_VIDEO_STREAM: "defaults.enableVideoStream",
+  TWELVELABS_TIMEOUT_MS: "timeouts.requestMs",
+  TWELVELABS_UPLOAD_TIMEOUT_MS: "timeouts.uploadMs",
+  TWELVELABS_MAX_RETRIES: "retry.maxRetries",
+  TWELVELABS_RETRY_BASE_DELAY_MS: "retry.baseDelayMs",
+  TWELVELABS_RETRY_MAX_DELAY_MS: "retry.maxDelayMs",
+  TWELVELABS_LOG_LEVEL: "logLevel",
+  TWELVELABS_CACHE: "cache.mode",
+  TWELVELABS_CACHE_TTL_SEC: "cache.ttlSec",
+  TWELVELABS_CACHE_MAX_ENTRIES: "cache.maxEntries",
+  TWELVELABS_CACHE_DIR: "cache.dir",
+  TWELVELABS_ENABLED_TOOLS: "tools.enabled",
+  TWELVELABS_DISABLED_TOOLS: "tools.disabled",
+  TWELVELABS_DESTRUCTIVE_TOOLS: "guardrails.destructiveTools",
+  TWELVELABS_REQUIRE_CONFIRMATION: "guardrails.requireConfirmation",
+  TWELVELABS_CONFIRMATION_TTL_SEC: "guardrails.confirmationTtlSec",
+  TWELVELABS_PROTECTED_INDEXES: "guardrails.protectedIndexes",
+  TWELVELABS_INDEX_PRESETS: "indexPresets",
+  TWELVELABS_PROMPTS_DIR: "promptsDir",
+  TWELVELABS_API_KEY_PROFILES: "apiKeyProfiles",
+  TWELVELABS_USAGE_LEDGER: "usage.ledger",
+  TWELVELABS_USAGE_BUDGETS: "usage.budgets"
+};
+
+// 쉼표로 구분한 목록으로 읽는 환경 변수
+const LIST_ENV_VARS = new Set(["TWELVELABS_ENABLED_TOOLS", "TWELVELABS_DISABLED_TOOLS", "TWELVELABS_PROTECTED_INDEXES"]);
+
+// JSON 문자열 또는 JSON 파일 경로로 읽는 환경 변수
+const JSON_ENV_VARS = new Set(["TWELVELABS_INDEX_PRESETS", "TWELVELABS_API_KEY_PROFILES", "TWELVELABS_USAGE_BUDGETS"]);
+
+export class ConfigError extends Error {
+  readonly problems: FieldError[];
+
+  constructor(source: string, problems: FieldError[]) {
+    super(`Invalid configuration (${source}):\n${problems.map((p) => `  - ${p.field}: ${p.message}`).join("\n")}`);
+    this.problems = problems;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 객체는 재귀적으로 합치고 배열과 값은 교체
+function mergeLayer(base: Record<string, unknown>, layer: Record<string, unknown>) {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) continue;
+    const current = result[key];
+    result[key] = isPlainObject(value) && isPlainObject(current) ? mergeLayer(current, value) : value;
+  }
+  return result;
+}
+
+function setPath(target: Record<string, unknown>, dotted: string, value: unknown) {
+  const keys = dotted.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    const child = node[key];
+    const next = isPlainObject(child) ? child : {};
+    node[key] = next;
+    node = next;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+// 스키마로 검증하고 변환된 값을 반환. 오류는 describeField로 필드 이름을 바꿔 problems에 추가
+function checkLayer<T extends Record<string, unknown> = Record<string, unknown>>(
+  schema: object,
+  value: Record<string, unknown>,
+  problems: FieldError[],
+  describeField: (field: string) => string = (field) => field
+) {
+  try {
+    return validateToolArguments<T>("configuration", schema, value);
+  } catch (e) {
+    if (!(e instanceof InvalidArgumentsError)) throw e;
+    problems.push(...e.fieldErrors.map((error) => ({
+      field: describeField(error.field),
+      message: error.message.replace("is not a known argument", "is not a known setting")
+    })));
+    return undefined;
+  }
+}
+
+// JSON 환경 변수 값: {나 [로 시작하면 JSON 문자열, 아니면 JSON 파일 경로
+function readJsonEnv(name: string, raw: string, problems: FieldError[]) {
+  const isInline = raw.startsWith("{") || raw.startsWith("[");
+  try {
+    return JSON.parse(isInline ? raw : readFileSync(raw, "utf8"));
+  } catch (e) {
+    const reason = (e as NodeJS.ErrnoException).code === "ENOENT"
+      ? `file not found: ${raw}`
+      : `${isInline ? "invalid JSON" : `cannot parse ${raw}`}: ${e instanceof Error ? e.message : e}`;
+    problems.push({ field: `${name} (${ENV_OVERRIDES[name]})`, message: reason });
+    return undefined;
+  }
+}
+
+// 환경 변수에서 온 값의 오류는 변수 이름으로 보고 (예: TWELVELABS_MAX_RETRIES (retry.maxRetries))
+function describeEnvField(field: string) {
+  const name = Object.keys(ENV_OVERRIDES).find((key) =>
+    field === ENV_OVERRIDES[key] || field.startsWith(`${ENV_OVERRIDES[key]}[`) || field.startsWith(`${ENV_OVERRIDES[key]}.`)
+  );
+  return name ? `${name} (${field})` : field;
+}
+
+/**
+ * 설정 파일을 읽습니다. 확장자가 .json이면 JSON으로, 그 외(.yaml, .yml)는 YAML로 파싱합니다.
+ */
+export function readConfigFile(file: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (e) {
+    throw new Error(`Cannot read configuration file ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = path.extname(file).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    throw new Error(`Cannot parse configuration file ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Configuration file ${file} must contain an object at the top level`);
+  }
+  return parsed;
+}
+
+// 스키마 검증을 통과한 설정 파일 내용 (profile, profiles 외의 키는 기본 설정 층)
+interface ConfigFileContents {
+  profile?: string;
+  profiles?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+export interface LoadConfigOptions {
+  file?: string;
+  profile?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * 기본값, 설정 파일, 프로필, 환경 변수를 합쳐 검증된 설정을 만듭니다.
+ */
+export function loadServerConfig(options: LoadConfigOptions = {}): ServerConfig {
+  const env = options.env ?? process.env;
+  const file = options.file || env.TWELVELABS_CONFIG || undefined;
+  const source = file ? path.resolve(file) : "environment";
+  const problems: FieldError[] = [];
+
+  let merged: Record<string, unknown> = { ...structuredClone(DEFAULT_CONFIG) };
+  let profile = options.profile || env.TWELVELABS_CONFIG_PROFILE || undefined;
+
+  if (file) {
+    // 파일 자체가 잘못되었으면 프로필은 확인하지 않음 (파일 오류만 보고)
+    const contents = checkLayer<ConfigFileContents>(CONFIG_FILE_SCHEMA, readConfigFile(file), problems);
+    const { profile: fileProfile, profiles = {}, ...base } = contents ?? {};
+    merged = mergeLayer(merged, base);
+    profile = profile ?? fileProfile;
+    if (contents && profile !== undefined) {
+      if (profiles[profile]) {
+        merged = mergeLayer(merged, profiles[profile]);
+      } else {
+        const available = Object.keys(profiles);
+        problems.push({
+          field: "profile",
+          message: `unknown profile "${profile}" (available: ${available.length > 0 ? available.join(", ") : "none"})`
+        });
+      }
+    }
+  } else if (profile !== undefined) {
+    problems.push({ field: "profile", message: `profile "${profile}" was selected but no configuration file was given (--config or TWELVELABS_CONFIG)` });
+  }
+
+  const overrides: Record<string, unknown> = {};
+  for (const [name, dotted] of Object.entries(ENV_OVERRIDES)) {
+    const raw = env[name];
+    if (raw === undefined || raw.trim() === "") continue;
+    const value = LIST_ENV_VARS.has(name)
+      ? raw.split(",").map((item) => item.trim()).filter(Boolean)
+      : JSON_ENV_VARS.has(name) ? readJsonEnv(name, raw.trim(), problems) : raw.trim();
+    if (value !== undefined) {
+      setPath(overrides, dotted, value);
+    }
+  }
+  const checkedOverrides = checkLayer(CONFIG_LAYER_SCHEMA, overrides, problems, describeEnvField);
+  if (checkedOverrides) {
+    merged = mergeLayer(merged, checkedOverrides);
+  }
+
+  // 기본값 위에 스키마를 통과한 층만 합쳤으므로 ServerConfig 형태
+  const config = merged as unknown as ServerConfig;
+  if (problems.length === 0) {
+    try {
+      validateIndexConfiguration(config.defaults.indexModels, config.defaults.indexAddons, "default index");
+    } catch (e) {
+      problems.push({ field: "defaults.indexModels", message: e instanceof Error ? e.message : String(e) });
+    }
+    if (config.retry.maxDelayMs < config.retry.baseDelayMs) {
+      problems.push({ field: "retry.maxDelayMs", message: `must be >= retry.baseDelayMs (${config.retry.baseDelayMs})` });
+    }
+    try {
+      new URL(config.baseUrl);
+    } catch {
+      problems.push({ field: "baseUrl", message: `must be an absolute URL (got "${config.baseUrl}")` });
+    }
+    for (const [name, preset] of Object.entries(config.indexPresets)) {
+      try {
+        validateIndexConfiguration(preset.models, preset.addons ?? [], `preset "${name}"`);
+      } catch (e) {
+        problems.push({ field: `indexPresets.${name}`, message: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    // 키와 접근 토큰을 환경 변수로 지정한 프로필은 그 변수가 있는지 확인
+    for (const [name, entry] of Object.entries(config.apiKeyProfiles)) {
+      if (!entry.apiKey && !(entry.apiKeyEnv && env[entry.apiKeyEnv])) {
+        problems.push({
+          field: `apiKeyProfiles.${name}`,
+          message: entry.apiKeyEnv ? `environment variable ${entry.apiKeyEnv} is empty` : 'needs "apiKey" or "apiKeyEnv"'
+        });
+      }
+      if (!entry.accessToken && entry.accessTokenEnv && !env[entry.accessTokenEnv]) {
+        problems.push({ field: `apiKeyProfiles.${name}.accessTokenEnv`, message: `environment variable ${entry.accessTokenEnv} is empty` });
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(profile ? `${source}, profile "${profile}"` : source, problems);
+  }
+  return { ...config, profile, source };
+}
+
+/**
+ * tools.enabled/disabled 설정으로 노출할 도구 이름 목록을 정합니다.
+ * 알 수 없는 도구 이름이 있으면 오타를 바로 알 수 있도록 예외를 던집니다.
+ */
+export function resolveEnabledTools(tools: ServerConfig["tools"], available: string[]): Set<string> {
+  const problems: FieldError[] = [];
+  for (const [field, names] of [["tools.enabled", tools.enabled], ["tools.disabled", tools.disabled]] as const) {
+    names.forEach((name, i) => {
+      if (!available.includes(name)) {
+        problems.push({ field: `${field}[${i}]`, message: `unknown tool "${name}"` });
+      }
+    });
+  }
+  if (problems.length > 0) {
+    throw new ConfigError("tools", problems);
+  }
+  const enabled = tools.enabled.length > 0 ? tools.enabled : available;
+  return new Set(enabled.filter((name) => !tools.disabled.includes(name)));
+}
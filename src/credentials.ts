@@ -0,0 +1,164 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { IncomingHttpHeaders } from "node:http";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { AuthenticationError } from "./errors.js";
+import { logger } from "./logger.js";
+
+/**
+ * 세션/요청별 TwelveLabs API 키 해석.
+ * 키는 다음 순서로 찾습니다: 요청 헤더 > 세션(HTTP 초기화 요청 헤더, initialize 옵션) > TWELVELABS_API_KEY.
+ * 각 단계에서 키 대신 프로필 이름을 지정하면 설정의 apiKeyProfiles(TWELVELABS_API_KEY_PROFILES)에 있는 키를 사용합니다.
+ * HTTP 모드에서는 프로필마다 설정한 접근 토큰을 함께 보내야 프로필을 쓸 수 있고,
+ * 키를 보내지 않은 세션에 TWELVELABS_API_KEY를 대신 쓰지 않습니다.
+ * 키와 토큰 값은 로그나 오류 메시지에 포함하지 않습니다.
+ */
+
+export interface ApiCredentials {
+  apiKey?: string;
+  profile?: string;
+  // 프로필의 접근 토큰 (HTTP 모드에서 프로필을 쓸 때 필요)
+  profileToken?: string;
+}
+
+export interface ApiKeyProfile {
+  apiKey: string;
+  // 접근 토큰의 SHA-256 해시. 없으면 stdio에서만 쓸 수 있는 프로필
+  accessTokenHash?: Buffer;
+}
+
+// 설정의 프로필 항목: 키와 접근 토큰을 직접 적거나, 값이 담긴 환경 변수 이름을 지정
+export interface ApiKeyProfileEntry {
+  apiKey?: string;
+  apiKeyEnv?: string;
+  accessToken?: string;
+  accessTokenEnv?: string;
+}
+
+export const API_KEY_HEADER = "x-twelvelabs-api-key";
+export const PROFILE_HEADER = "x-twelvelabs-profile";
+export const PROFILE_TOKEN_HEADER = "x-twelvelabs-profile-token";
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * 설정의 apiKeyProfiles({ "프로필": { "apiKey" | "apiKeyEnv", "accessToken" | "accessTokenEnv" } })로
+ * 프로필 이름 → 키/접근 토큰 맵을 만듭니다. 환경 변수로 지정한 값이 비어 있으면 예외를 던집니다.
+ */
+export function loadApiKeyProfiles(
+  entries: Record<string, ApiKeyProfileEntry>,
+  env: NodeJS.ProcessEnv = process.env
+): Map<string, ApiKeyProfile> {
+  const profiles = new Map<string, ApiKeyProfile>();
+  for (const [name, entry] of Object.entries(entries)) {
+    const apiKey = entry.apiKey ?? (entry.apiKeyEnv ? env[entry.apiKeyEnv] : undefined);
+    if (!apiKey) {
+      throw new Error(`API key profile "${name}" needs "apiKey" or "apiKeyEnv" pointing to a non-empty environment variable`);
+    }
+    const accessToken = entry.accessToken ?? (entry.accessTokenEnv ? env[entry.accessTokenEnv] : undefined);
+    if (entry.accessTokenEnv && !accessToken) {
+      throw new Error(`API key profile "${name}": environment variable ${entry.accessTokenEnv} is empty`);
+    }
+    profiles.set(name, { apiKey, accessTokenHash: accessToken ? hashToken(accessToken) : undefined });
+  }
+  if (profiles.size > 0) {
+    logger.info(`API 키 프로필 로드 완료: ${[...profiles.keys()].join(", ")}`);
+  }
+  return profiles;
+}
+
+/**
+ * HTTP 요청 헤더에서 자격 증명을 추출합니다.
+ * Authorization: Bearer <key>, X-TwelveLabs-Api-Key: <key>, X-TwelveLabs-Profile: <name> + X-TwelveLabs-Profile-Token: <token>
+ */
+export function credentialsFromHeaders(headers: IncomingHttpHeaders): ApiCredentials {
+  const header = (name: string) => {
+    const value = headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+  };
+  const bearer = /^Bearer\s+(.+)$/i.exec(header("authorization") ?? "")?.[1]?.trim();
+  return { apiKey: header(API_KEY_HEADER) ?? bearer, profile: header(PROFILE_HEADER), profileToken: header(PROFILE_TOKEN_HEADER) };
+}
+
+// 요청별 자격 증명은 MCP SDK의 authInfo로 요청 핸들러까지 전달
+export function credentialsToAuthInfo(credentials: ApiCredentials): AuthInfo {
+  return {
+    token: credentials.apiKey ?? "",
+    clientId: "twelvelabs-mcp",
+    scopes: [],
+    extra: { profile: credentials.profile, profileToken: credentials.profileToken }
+  };
+}
+
+export function credentialsFromAuthInfo(authInfo?: AuthInfo): ApiCredentials | undefined {
+  if (!authInfo) return undefined;
+  return {
+    apiKey: authInfo.token || undefined,
+    profile: authInfo.extra?.profile as string | undefined,
+    profileToken: authInfo.extra?.profileToken as string | undefined
+  };
+}
+
+/**
+ * 프로필을 지정한 자격 증명이 그 프로필의 접근 토큰을 제시했는지 확인합니다.
+ * 없는 프로필, 접근 토큰이 설정되지 않은 프로필, 토큰 불일치는 모두 AuthenticationError입니다.
+ */
+export function verifyProfileAccess(credentials: ApiCredentials, profiles: Map<string, ApiKeyProfile>): ApiKeyProfile | undefined {
+  if (!credentials.profile) {
+    return undefined;
+  }
+  const profile = profiles.get(credentials.profile);
+  if (!profile) {
+    throw new AuthenticationError(`Unknown API key profile "${credentials.profile}"`);
+  }
+  if (!profile.accessTokenHash) {
+    throw new AuthenticationError(
+      `API key profile "${credentials.profile}" has no accessToken configured and cannot be used over HTTP`
+    );
+  }
+  if (!credentials.profileToken || !timingSafeEqual(hashToken(credentials.profileToken), profile.accessTokenHash)) {
+    throw new AuthenticationError(
+      `Missing or invalid access token for API key profile "${credentials.profile}" (send it in the X-TwelveLabs-Profile-Token header)`
+    );
+  }
+  return profile;
+}
+
+export interface ResolveApiKeyOptions {
+  // 아무 키도 지정되지 않았을 때 쓰는 키 (HTTP 모드에서는 지정하지 않음)
+  defaultApiKey?: string;
+  // 프로필을 쓸 때 접근 토큰을 확인할지 여부 (HTTP 모드)
+  requireProfileToken?: boolean;
+}
+
+/**
+ * 우선순위 순으로 주어진 자격 증명 중 키나 프로필이 지정된 첫 항목으로 API 키를 결정합니다.
+ */
+export function resolveApiKey(
+  sources: (ApiCredentials | undefined)[],
+  profiles: Map<string, ApiKeyProfile>,
+  options: ResolveApiKeyOptions = {}
+): string {
+  for (const source of sources) {
+    if (source?.apiKey) {
+      return source.apiKey;
+    }
+    if (source?.profile) {
+      const profile = options.requireProfileToken ? verifyProfileAccess(source, profiles) : profiles.get(source.profile);
+      if (!profile) {
+        throw new AuthenticationError(`Unknown API key profile "${source.profile}"`);
+      }
+      return profile.apiKey;
+    }
+  }
+  if (options.defaultApiKey) {
+    return options.defaultApiKey;
+  }
+  throw new AuthenticationError(
+    "No TwelveLabs API key for this session. Send an Authorization: Bearer or X-TwelveLabs-Api-Key header " +
+    "(or X-TwelveLabs-Profile with X-TwelveLabs-Profile-Token), or set capabilities.experimental.twelvelabs.apiKey " +
+    "(or profile and profileToken) in initialize." +
+    (options.requireProfileToken ? " TWELVELABS_API_KEY is not used in HTTP mode." : " You can also set TWELVELABS_API_KEY.")
+  );
+}
@@ -0,0 +1,90 @@
+import { createWriteStream } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import { once } from "node:events";
+import { resolveDataWritePath } from "./upload.js";
+import { logger } from "./logger.js";
+import type { ApiEmbedding } from "./apiTypes.js";
+
+/**
+ * TwelveLabs 임베딩 응답을 평탄한 레코드 목록으로 정리하고,
+ * 큰 벡터 배열을 MCP 텍스트 대신 로컬 JSONL 파일로 저장하기 위한 헬퍼입니다.
+ */
+
+// Marengo 임베딩 모델
+export const EMBEDDING_MODEL = "Marengo-retrieval-2.7";
+
+export type EmbeddingSource = "text" | "image" | "audio" | "video";
+
+export interface EmbeddingRecord {
+  source: EmbeddingSource;
+  segment: number;
+  startOffsetSec?: number;
+  endOffsetSec?: number;
+  embeddingScope?: string;
+  embeddingOption?: string;
+  vector: number[];
+}
+
+// 응답의 { segments: [{ float: [...] , start_offset_sec, ... }] } 구조를 레코드로 변환
+export function normalizeEmbeddingSegments(source: EmbeddingSource, embedding: ApiEmbedding | undefined): EmbeddingRecord[] {
+  const segments = embedding?.segments || [];
+  return segments.map((segment, index) => ({
+    source,
+    segment: index,
+    startOffsetSec: segment.start_offset_sec,
+    endOffsetSec: segment.end_offset_sec,
+    embeddingScope: segment.embedding_scope,
+    embeddingOption: segment.embedding_option,
+    vector: segment.float ?? segment.float_ ?? []
+  }));
+}
+
+/**
+ * 레코드를 한 줄에 하나씩 JSONL로 저장합니다. 각 줄은 메타데이터 컬럼과 vector 컬럼을 가지므로
+ * pandas/duckdb 등에서 테이블(Parquet 유사 구조)로 바로 읽을 수 있습니다.
+ * 상대 경로는 데이터 디렉터리 아래로 해석하고, 데이터 디렉터리 밖의 경로는 거부합니다.
+ */
+export async function writeEmbeddingsJsonl(
+  outputPath: string,
+  records: EmbeddingRecord[],
+  extra: Record<string, unknown> = {}
+): Promise<string> {
+  const absolutePath = resolveDataWritePath(outputPath);
+  await mkdir(path.dirname(absolutePath), { recursive: true });
+
+  const stream = createWriteStream(absolutePath, { encoding: "utf8" });
+  for (const record of records) {
+    if (!stream.write(JSON.stringify({ ...extra, ...record }) + "\n")) {
+      await once(stream, "drain");
+    }
+  }
+  stream.end();
+  await once(stream, "finish");
+
+  return absolutePath;
+}
+
+/**
+ * 임베딩 결과를 반환 형식으로 정리합니다.
+ * outputPath가 있으면 파일로 저장하고 벡터 대신 파일 경로와 요약(차원, 구간 정보)만 반환합니다.
+ */
+export async function packageEmbeddings(
+  records: EmbeddingRecord[],
+  outputPath?: string,
+  extra: Record<string, unknown> = {}
+) {
+  const dimensions = records[0]?.vector.length ?? 0;
+  if (!outputPath) {
+    return { segmentCount: records.length, dimensions, embeddings: records };
+  }
+
+  const writtenPath = await writeEmbeddingsJsonl(outputPath, records, extra);
+  logger.info(`임베딩 파일 저장 완료: ${writtenPath} (${records.length}개 구간)`);
+  return {
+    segmentCount: records.length,
+    dimensions,
+    outputPath: writtenPath,
+    segments: records.map(({ vector, ...rest }) => rest)
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * TwelveLabs API 호출 시 발생하는 오류 타입.
+ * CallTool 핸들러는 이 클래스들을 구분해 원인과 조치 방법이 담긴 isError 결과로 변환합니다.
+ */
+
+export interface ApiErrorDetails {
+  status?: number;
+  code?: string;
+  requestId?: string;
+  method?: string;
+  path?: string;
+  responseBody?: string;
+}
+
+export class TwelveLabsError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly method?: string;
+  readonly path?: string;
+  readonly responseBody?: string;
+  // 사용자가 취할 수 있는 조치
+  readonly hint: string = "Check the request parameters and try again.";
+  // 같은 요청을 다시 보내면 성공할 수 있는지 여부
+  readonly retryable: boolean = false;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.method = details.method;
+    this.path = details.path;
+    this.responseBody = details.responseBody;
+  }
+
+  toJSON() {
+    return {
+      status: "error",
+      errorType: this.name,
+      message: this.message,
+      hint: this.hint,
+      httpStatus: this.status,
+      code: this.code,
+      requestId: this.requestId,
+      endpoint: this.method && this.path ? `${this.method} ${this.path}` : undefined
+    };
+  }
+}
+
+// 401, 403
+export class AuthenticationError extends TwelveLabsError {
+  readonly hint = "The TwelveLabs API key is missing, invalid or lacks permission. Check the API key or profile sent by the session, or TWELVELABS_API_KEY.";
+}
+
+// 404
+export class NotFoundError extends TwelveLabsError {
+  readonly hint = "The requested resource does not exist. Verify the ID (e.g. with list_indexes, list_videos or list_tasks).";
+}
+
+// 400, 409, 422 등 요청 내용 오류 (로컬 입력 검증 오류도 포함)
+export class ValidationError extends TwelveLabsError {
+  readonly hint: string = "The request was rejected as invalid. Fix the parameters described in the message before retrying.";
+}
+
+export interface FieldError {
+  // 인자 경로 (예: "limit", "models[0].modelName")
+  field: string;
+  message: string;
+}
+
+// 도구 인자 검증 실패 (API 호출 전에 발생)
+export class InvalidArgumentsError extends ValidationError {
+  readonly hint = "Fix the arguments listed in fieldErrors and call the tool again. No request was sent to TwelveLabs.";
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, fieldErrors: FieldError[]) {
+    super(message);
+    this.fieldErrors = fieldErrors;
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), fieldErrors: this.fieldErrors };
+  }
+}
+
+// 사용량 예산 초과 (API 호출 전에 발생)
+export class BudgetExceededError extends TwelveLabsError {
+  readonly hint = "A usage budget for this session or API key has been reached. Check get_usage_report, or ask the operator to raise usage.budgets (TWELVELABS_USAGE_BUDGETS). No request was sent to TwelveLabs.";
+  readonly budget: { metric: string; scope: string; period: string; limit: number; used: number };
+
+  constructor(message: string, budget: { metric: string; scope: string; period: string; limit: number; used: number }) {
+    super(message);
+    this.budget = budget;
+  }
+
+  toJSON() {
+    const { metric, scope, period, limit, used } = this.budget;
+    return { ...super.toJSON(), budget: { metric, scope, period, limit, used } };
+  }
+}
+
+// 설정에서 보호한 인덱스에 대한 삭제 요청 (API 호출 전에 발생)
+export class ProtectedResourceError extends TwelveLabsError {
+  readonly hint = "The index is protected by the server configuration (guardrails.protectedIndexes). The index, its videos and its tasks cannot be deleted through this server. No delete request was sent to TwelveLabs.";
+}
+
+// 삭제 확인 토큰이 없거나 만료되었거나 다른 대상에 발급됨
+export class ConfirmationError extends ValidationError {
+  readonly hint = "Call the tool again without confirmationToken to get a fresh preview and token, then repeat the call with the same arguments and that token.";
+}
+
+// 429
+export class RateLimitError extends TwelveLabsError {
+  readonly hint: string;
+  readonly retryable = true;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ApiErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+    this.hint = this.retryAfterMs !== undefined
+      ? `Rate limit exceeded. Wait about ${Math.ceil(this.retryAfterMs / 1000)} seconds before retrying.`
+      : "Rate limit exceeded. Wait a while before retrying, or reduce the request rate.";
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      retryAfterSec: this.retryAfterMs !== undefined ? Math.ceil(this.retryAfterMs / 1000) : undefined
+    };
+  }
+}
+
+// 5xx 및 해석할 수 없는 응답
+export class ServerError extends TwelveLabsError {
+  readonly hint = "TwelveLabs returned a server error. Retry later; if it persists, report the requestId to TwelveLabs support.";
+  readonly retryable = true;
+}
+
+// 시간 초과 또는 네트워크 오류
+export class NetworkError extends TwelveLabsError {
+  readonly hint = "Could not reach the TwelveLabs API (timeout or network failure). Check connectivity and retry.";
+  readonly retryable = true;
+}
+
+// HTTP 상태 코드에 맞는 오류 객체 생성
+export function errorFromResponse(
+  status: number,
+  message: string,
+  details: ApiErrorDetails & { retryAfterMs?: number }
+): TwelveLabsError {
+  if (status === 401 || status === 403) return new AuthenticationError(message, details);
+  if (status === 404) return new NotFoundError(message, details);
+  if (status === 429) return new RateLimitError(message, details);
+  if (status >= 500) return new ServerError(message, details);
+  if (status >= 400) return new ValidationError(message, details);
+  return new TwelveLabsError(message, details);
+}
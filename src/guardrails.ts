@@ -0,0 +1,109 @@
+import { randomBytes } from "node:crypto";
+import { ConfirmationError, ProtectedResourceError } from "./errors.js";
+
+/**
+ * 삭제 도구 안전장치.
+ * 삭제 전에 대상(인덱스 이름, 영상 수 등)을 보여 주는 미리보기와 2단계 확인 토큰을 발급하고,
+ * 설정에서 보호한 인덱스(ID 또는 이름 패턴)에 대한 삭제를 API 호출 전에 거부합니다.
+ */
+
+// 되돌릴 수 없는 삭제를 수행하는 도구
+export const DESTRUCTIVE_TOOLS = new Set(["delete_index", "delete_video", "delete_task"]);
+
+export const DEFAULT_CONFIRMATION_TTL_SEC = 300;
+
+// 삭제 미리보기에 표시하는 대상 정보
+export interface DeletionTarget {
+  indexId: string;
+  indexName: string | null;
+  videoCount?: number;
+  totalDuration?: number;
+  videoId?: string | null;
+  filename?: string | null;
+  duration?: number | null;
+  taskId?: string;
+  taskStatus?: string;
+}
+
+/**
+ * 와일드카드(*, ?) 패턴을 대소문자 구분 없는 정규식으로 변환합니다.
+ */
+export function namePatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * 보호 목록(인덱스 ID 또는 이름 패턴)으로 삭제 대상을 검사하는 함수를 만듭니다.
+ * 대상 인덱스가 보호 목록과 일치하면 ProtectedResourceError를 던집니다.
+ */
+export function createProtectedIndexGuard(patterns: string[]) {
+  const rules = patterns.map((pattern) => ({ pattern, regExp: namePatternToRegExp(pattern) }));
+  return (tool: string, target: DeletionTarget) => {
+    const rule = rules.find(({ pattern, regExp }) =>
+      pattern === target.indexId || (target.indexName !== null && regExp.test(target.indexName))
+    );
+    if (rule) {
+      const label = target.indexName ? `${target.indexName} (${target.indexId})` : target.indexId;
+      throw new ProtectedResourceError(
+        `보호된 인덱스 ${label}은(는) ${tool}로 삭제할 수 없습니다 (보호 규칙: "${rule.pattern}")`
+      );
+    }
+  };
+}
+
+interface PendingConfirmation {
+  tool: string;
+  target: string;
+  account: string;
+  expiresAt: number;
+}
+
+/**
+ * 2단계 삭제 확인 토큰 저장소.
+ * 토큰은 도구, 대상 인자, 계정에 묶이고 한 번만 쓸 수 있으며 ttlSec 후 만료됩니다.
+ */
+export function createConfirmationStore(ttlSec = DEFAULT_CONFIRMATION_TTL_SEC, now: () => number = Date.now) {
+  const pending = new Map<string, PendingConfirmation>();
+
+  function purgeExpired() {
+    for (const [token, entry] of pending) {
+      if (entry.expiresAt <= now()) pending.delete(token);
+    }
+  }
+
+  // 인자 순서와 관계없이 같은 대상이면 같은 문자열
+  function targetKey(target: Record<string, unknown>) {
+    return JSON.stringify(Object.keys(target).sort().map((key) => [key, target[key]]));
+  }
+
+  return {
+    issue(tool: string, target: Record<string, unknown>, account: string) {
+      purgeExpired();
+      const token = `confirm_${randomBytes(12).toString("hex")}`;
+      const expiresAt = now() + ttlSec * 1000;
+      pending.set(token, { tool, target: targetKey(target), account, expiresAt });
+      return { confirmationToken: token, expiresAt: new Date(expiresAt).toISOString() };
+    },
+
+    // 토큰을 확인하고 소모. 잘못된 토큰은 다시 쓸 수 없도록 함께 폐기
+    redeem(token: string, tool: string, target: Record<string, unknown>, account: string) {
+      const entry = pending.get(token);
+      pending.delete(token);
+      if (!entry || entry.account !== account) {
+        throw new ConfirmationError("확인 토큰이 유효하지 않거나 이미 사용되었습니다.");
+      }
+      if (entry.expiresAt <= now()) {
+        throw new ConfirmationError(`확인 토큰이 만료되었습니다 (유효 시간 ${ttlSec}초).`);
+      }
+      if (entry.tool !== tool || entry.target !== targetKey(target)) {
+        throw new ConfirmationError(`확인 토큰은 다른 도구 또는 대상에 발급되었습니다 (${entry.tool}).`);
+      }
+    }
+  };
+}
+
+export type ConfirmationStore = ReturnType<typeof createConfirmationStore>;
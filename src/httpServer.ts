@@ -0,0 +1,242 @@
+import { createServer as createNodeHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ApiCredentials, credentialsFromHeaders, credentialsToAuthInfo } from "./credentials.js";
+import { AuthenticationError } from "./errors.js";
+import { logger } from "./logger.js";
+
+/**
+ * MCP를 네트워크로 제공하는 HTTP 서버.
+ *  - POST/GET/DELETE /mcp  : Streamable HTTP (세션마다 MCP 서버 인스턴스 하나)
+ *  - GET /sse, POST /messages?sessionId=... : 이전 버전 클라이언트용 HTTP+SSE 전송
+ *  - GET /health           : 상태 확인 (종료 중에는 503)
+ * 종료 시에는 새 연결을 받지 않고 열린 세션을 모두 닫은 뒤 끝납니다.
+ * API 키 헤더(Authorization: Bearer, X-TwelveLabs-Api-Key, X-TwelveLabs-Profile)는 세션을 열 때 세션 기본값으로,
+ * 이후 요청마다 요청별 값으로 MCP 서버에 전달됩니다. 전달 전에 verifyCredentials로 확인하고, 실패하면 401로 거부합니다.
+ */
+
+export const DEFAULT_HTTP_PORT = 3000;
+// 기본은 이 컴퓨터에서만 접속 가능. 다른 인터페이스로 공개하려면 --host/MCP_HOST로 직접 지정
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+// 요청 본문 크기 상한 (base64 이미지 검색 요청을 고려)
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+// 종료 시 열린 연결이 끝나기를 기다리는 최대 시간
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+export interface HttpServerOptions {
+  // 세션마다 새 MCP 서버를 만드는 함수 (세션을 연 요청의 API 키 헤더를 전달)
+  createServer: (credentials: ApiCredentials) => Server;
+  port?: number;
+  host?: string;
+  // 헤더의 자격 증명 확인 (프로필 접근 토큰 등). 거부하려면 AuthenticationError를 던짐
+  verifyCredentials?: (credentials: ApiCredentials) => void;
+}
+
+export interface RunningHttpServer {
+  port: number;
+  close: () => Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+class HttpError extends Error {
+  constructor(readonly statusCode: number, readonly rpcCode: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, statusCode: number, code: number, message: string) {
+  sendJson(res, statusCode, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, -32700, "Parse error: request body is not valid JSON");
+  }
+}
+
+// 루프백 주소(이 컴퓨터에서만 접속 가능)인지 확인
+export function isLoopbackHost(host: string) {
+  return host === "localhost" || host === "::1" || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+function isInitializeMessage(body: unknown) {
+  return Array.isArray(body) ? body.some((message) => isInitializeRequest(message)) : isInitializeRequest(body);
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const host = options.host ?? DEFAULT_HTTP_HOST;
+  const startedAt = Date.now();
+  const streamableSessions = new Map<string, Session>();
+  const sseSessions = new Map<string, Session>();
+  let shuttingDown = false;
+
+  async function handleStreamableHttp(req: IncomingMessage, res: ServerResponse) {
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = streamableSessions.get(sessionId);
+      if (!session) {
+        sendRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeMessage(body)) {
+      sendRpcError(res, 400, -32000, "Bad Request: missing Mcp-Session-Id header or initialize request");
+      return;
+    }
+
+    const server = options.createServer(credentialsFromHeaders(req.headers));
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, { server, transport });
+        logger.info(`HTTP 세션 시작: ${id} (열린 세션 ${streamableSessions.size}개)`);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && streamableSessions.delete(transport.sessionId)) {
+        logger.info(`HTTP 세션 종료: ${transport.sessionId}`);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(req: IncomingMessage, res: ServerResponse) {
+    const server = options.createServer(credentialsFromHeaders(req.headers));
+    const transport = new SSEServerTransport("/messages", res);
+    sseSessions.set(transport.sessionId, { server, transport });
+    logger.info(`SSE 세션 시작: ${transport.sessionId}`);
+    res.on("close", () => {
+      sseSessions.delete(transport.sessionId);
+      logger.info(`SSE 세션 종료: ${transport.sessionId}`);
+      void server.close();
+    });
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = sseSessions.get(sessionId);
+    if (!session) {
+      sendRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+    const body = await readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  const httpServer = createNodeHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, shuttingDown ? 503 : 200, {
+          status: shuttingDown ? "shutting_down" : "ok",
+          uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+          sessions: { streamableHttp: streamableSessions.size, sse: sseSessions.size }
+        });
+        return;
+      }
+      if (shuttingDown) {
+        sendRpcError(res, 503, -32000, "Server is shutting down");
+        return;
+      }
+      // 요청별 API 키는 SDK가 요청 핸들러의 extra.authInfo로 전달
+      const credentials = credentialsFromHeaders(req.headers);
+      options.verifyCredentials?.(credentials);
+      if (credentials.apiKey || credentials.profile) {
+        (req as IncomingMessage & { auth?: AuthInfo }).auth = credentialsToAuthInfo(credentials);
+      }
+      if (url.pathname === "/mcp") {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseConnect(req, res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        logger.error(`HTTP 요청 처리 오류 (${req.method} ${url.pathname}):`, error);
+        res.end();
+      } else if (error instanceof HttpError) {
+        sendRpcError(res, error.statusCode, error.rpcCode, error.message);
+      } else if (error instanceof AuthenticationError) {
+        sendRpcError(res, 401, -32001, error.message);
+      } else {
+        logger.error(`HTTP 요청 처리 오류 (${req.method} ${url.pathname}):`, error);
+        sendRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port ?? DEFAULT_HTTP_PORT, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : options.port ?? DEFAULT_HTTP_PORT;
+  logger.info(`TwelveLabs Video MCP Server running on http://${host}:${port}/mcp (SSE: /sse, health: /health)`);
+  if (!isLoopbackHost(host)) {
+    logger.warn(
+      `Warning: the HTTP server listens on ${host}, which is reachable from other machines. ` +
+      "Anyone who can reach it can call TwelveLabs with the API keys this server accepts; restrict access with a firewall or reverse proxy."
+    );
+  }
+
+  async function close() {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`HTTP 서버 종료 중: 열린 세션 ${streamableSessions.size + sseSessions.size}개를 닫습니다`);
+    const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    httpServer.closeIdleConnections();
+
+    const sessions = [...streamableSessions.values(), ...sseSessions.values()];
+    await Promise.allSettled(sessions.map((session) => session.server.close()));
+    streamableSessions.clear();
+    sseSessions.clear();
+
+    const timer = setTimeout(() => {
+      logger.warn("종료 대기 시간이 지나 남은 연결을 강제로 닫습니다");
+      httpServer.closeAllConnections();
+    }, SHUTDOWN_TIMEOUT_MS);
+    await closed;
+    clearTimeout(timer);
+    logger.info("HTTP 서버 종료 완료");
+  }
+
+  return { port, close };
+}
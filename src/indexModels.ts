@@ -0,0 +1,149 @@
+import { ValidationError } from "./errors.js";
+
+/**
+ * 인덱스 생성 시 사용할 모델/옵션/애드온 구성과 프리셋 정의.
+ * 프리셋은 기본 프리셋에 설정의 indexPresets(TWELVELABS_INDEX_PRESETS)를 덮어써서 만듭니다.
+ */
+
+export type ModelName = "marengo2.7" | "pegasus1.2";
+export type ModelOption = "visual" | "audio";
+export type IndexAddon = "thumbnail";
+
+export interface IndexModel {
+  model_name: ModelName;
+  model_options: ModelOption[];
+}
+
+export interface IndexPreset {
+  description?: string;
+  models: IndexModel[];
+  addons?: IndexAddon[];
+}
+
+// 모델별로 지원되는 옵션과, 반드시 포함되어야 하는 옵션
+export const SUPPORTED_MODELS: Record<ModelName, { options: ModelOption[]; requiredOptions: ModelOption[]; addons: IndexAddon[] }> = {
+  "marengo2.7": { options: ["visual", "audio"], requiredOptions: [], addons: ["thumbnail"] }, // 검색용
+  "pegasus1.2": { options: ["visual", "audio"], requiredOptions: ["visual"], addons: [] }    // 텍스트 생성용
+};
+
+export const SUPPORTED_ADDONS: IndexAddon[] = ["thumbnail"];
+
+// 모델을 지정하지 않았을 때 사용하는 기본 구성 (검색 + 텍스트 생성)
+export const DEFAULT_INDEX_MODELS: IndexModel[] = [
+  {
+    model_name: "marengo2.7",
+    model_options: ["visual", "audio"],
+  },
+  {
+    model_name: "pegasus1.2",
+    model_options: ["visual", "audio"],
+  },
+];
+
+export const DEFAULT_INDEX_ADDONS: IndexAddon[] = ["thumbnail"];
+
+const BUILTIN_PRESETS: Record<string, IndexPreset> = {
+  "full": {
+    description: "Search (marengo2.7) and text generation (pegasus1.2), visual + audio, with thumbnails",
+    models: DEFAULT_INDEX_MODELS,
+    addons: DEFAULT_INDEX_ADDONS
+  },
+  "search-only": {
+    description: "Search only (marengo2.7), visual + audio, with thumbnails",
+    models: [{ model_name: "marengo2.7", model_options: ["visual", "audio"] }],
+    addons: ["thumbnail"]
+  },
+  "generate-only": {
+    description: "Text generation only (pegasus1.2), visual + audio",
+    models: [{ model_name: "pegasus1.2", model_options: ["visual", "audio"] }],
+    addons: []
+  },
+  "visual-only": {
+    description: "Search and text generation on visual content only (e.g. silent CCTV footage), no thumbnails",
+    models: [
+      { model_name: "marengo2.7", model_options: ["visual"] },
+      { model_name: "pegasus1.2", model_options: ["visual"] }
+    ],
+    addons: []
+  }
+};
+
+/**
+ * 모델/애드온 조합이 지원되는지 검사하고, 문제가 있으면 모든 오류를 모아 예외를 던집니다.
+ */
+export function validateIndexConfiguration(models: IndexModel[], addons: IndexAddon[] = [], label = "index"): void {
+  const errors: string[] = [];
+
+  if (!Array.isArray(models) || models.length === 0) {
+    errors.push("models must contain at least one model");
+  } else {
+    const seen = new Set<string>();
+    for (const model of models) {
+      const supported = SUPPORTED_MODELS[model?.model_name as ModelName];
+      if (!supported) {
+        errors.push(
+          `unsupported model "${model?.model_name}" (supported: ${Object.keys(SUPPORTED_MODELS).join(", ")})`
+        );
+        continue;
+      }
+      if (seen.has(model.model_name)) {
+        errors.push(`model "${model.model_name}" is specified more than once`);
+      }
+      seen.add(model.model_name);
+
+      const options = model.model_options;
+      if (!Array.isArray(options) || options.length === 0) {
+        errors.push(`model "${model.model_name}" needs at least one model option`);
+        continue;
+      }
+      for (const option of options) {
+        if (!supported.options.includes(option)) {
+          errors.push(
+            `model "${model.model_name}" does not support option "${option}" (supported: ${supported.options.join(", ")})`
+          );
+        }
+      }
+      if (new Set(options).size !== options.length) {
+        errors.push(`model "${model.model_name}" has duplicate model options`);
+      }
+      for (const required of supported.requiredOptions) {
+        if (!options.includes(required)) {
+          errors.push(`model "${model.model_name}" requires the "${required}" option`);
+        }
+      }
+    }
+
+    for (const addon of addons) {
+      if (!SUPPORTED_ADDONS.includes(addon)) {
+        errors.push(`unsupported addon "${addon}" (supported: ${SUPPORTED_ADDONS.join(", ")})`);
+        continue;
+      }
+      const enabledBy = models.filter((m) => SUPPORTED_MODELS[m?.model_name]?.addons.includes(addon));
+      if (enabledBy.length === 0) {
+        errors.push(`addon "${addon}" requires one of: ${modelsSupportingAddon(addon).join(", ")}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid ${label} configuration: ${errors.join("; ")}`);
+  }
+}
+
+function modelsSupportingAddon(addon: IndexAddon): string[] {
+  return Object.entries(SUPPORTED_MODELS)
+    .filter(([, spec]) => spec.addons.includes(addon))
+    .map(([name]) => name);
+}
+
+/**
+ * 기본 프리셋과 설정된 프리셋을 합쳐 검증한 뒤 반환합니다.
+ * 잘못된 프리셋이 있으면 서버 시작 시 바로 실패하도록 예외를 던집니다.
+ */
+export function loadIndexPresets(configured: Record<string, IndexPreset> = {}): Record<string, IndexPreset> {
+  const presets = { ...BUILTIN_PRESETS, ...configured };
+  for (const [name, preset] of Object.entries(presets)) {
+    validateIndexConfiguration(preset.models, preset.addons ?? [], `preset "${name}"`);
+  }
+  return presets;
+}
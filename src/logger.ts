@@ -0,0 +1,39 @@
+/**
+ * 서버 로그.
+ * stdio 전송에서 stdout은 MCP 메시지 전용이므로 모든 로그는 stderr로 나갑니다.
+ * 호출하는 쪽이 수준(error/warn/info)을 정하고, 설정한 로그 수준에 따라 걸러냅니다.
+ *  - info: 모든 로그
+ *  - error: 오류와 경고만
+ *  - silent: 출력하지 않음
+ */
+
+export type LogLevel = "silent" | "error" | "info";
+type MessageLevel = "error" | "warn" | "info";
+
+// 로그 수준별로 출력하는 메시지 수준
+const VISIBLE: Record<LogLevel, Set<MessageLevel>> = {
+  silent: new Set(),
+  error: new Set(["error", "warn"]),
+  info: new Set(["error", "warn", "info"])
+};
+
+let currentLevel: LogLevel = "info";
+
+export function setLogLevel(level: LogLevel) {
+  currentLevel = level;
+}
+
+function write(level: MessageLevel, args: unknown[]) {
+  if (VISIBLE[currentLevel].has(level)) {
+    console.error(...args);
+  }
+}
+
+export const logger = {
+  // 요청 실패, 저장 실패 등 운영자가 확인해야 하는 오류
+  error: (...args: unknown[]) => write("error", args),
+  // 재시도, 무시한 입력, 위험한 설정 등 처리는 계속되는 문제
+  warn: (...args: unknown[]) => write("warn", args),
+  // 요청/완료 기록 등 진행 상황
+  info: (...args: unknown[]) => write("info", args)
+};
@@ -0,0 +1,206 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+/**
+ * 자주 쓰는 비디오 분석 작업용 MCP 프롬프트 템플릿.
+ * 각 템플릿은 generate_text 또는 generate_summary 도구 호출 인자로 변환되며,
+ * 설정의 promptsDir(TWELVELABS_PROMPTS_DIR) 디렉터리의 JSON 파일로 템플릿을 추가하거나 덮어쓸 수 있습니다.
+ */
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface VideoPromptTemplate {
+  name: string;
+  description: string;
+  tool: "generate_text" | "generate_summary";
+  // generate_summary 사용 시 요약 종류
+  summaryType?: "summary" | "chapter" | "highlight";
+  temperature?: number;
+  // videoId 외의 추가 인자
+  arguments?: PromptArgument[];
+  // {{인자명}} 형식의 자리표시자를 포함한 프롬프트
+  template: string;
+}
+
+export const BUILTIN_PROMPT_TEMPLATES: VideoPromptTemplate[] = [
+  {
+    name: "meeting_minutes",
+    description: "Meeting minutes with attendees, decisions and action items",
+    tool: "generate_text",
+    temperature: 0.2,
+    arguments: [
+      { name: "meetingTopic", description: "Topic or purpose of the meeting" },
+      { name: "language", description: "Output language (default: English)" }
+    ],
+    template:
+      "You are preparing the official minutes of a recorded meeting{{#meetingTopic}} about {{meetingTopic}}{{/meetingTopic}}.\n" +
+      "Write the minutes in {{language|English}} using these sections:\n" +
+      "1. Summary (3-5 sentences)\n" +
+      "2. Participants (names or roles as they appear or are mentioned)\n" +
+      "3. Discussion points, each with the approximate timestamp (mm:ss)\n" +
+      "4. Decisions made\n" +
+      "5. Action items as a table with columns: Owner | Task | Due date (if mentioned) | Timestamp\n" +
+      "6. Open questions\n" +
+      "Only include information that is actually said or shown in the video. Write \"not mentioned\" instead of guessing."
+  },
+  {
+    name: "ad_compliance_review",
+    description: "Advertising compliance review against a policy checklist",
+    tool: "generate_text",
+    temperature: 0.1,
+    arguments: [
+      { name: "policy", description: "Policy or guidelines to check against (default: general advertising standards)" },
+      { name: "market", description: "Target market or jurisdiction" }
+    ],
+    template:
+      "Review this advertisement for compliance with {{policy|general advertising standards}}" +
+      "{{#market}} for the {{market}} market{{/market}}.\n" +
+      "For each potential issue report: timestamp (mm:ss), what is shown or said, the rule it may violate, severity (high/medium/low) and a suggested fix.\n" +
+      "Check in particular: unsubstantiated claims, missing disclaimers or disclosures, legibility and duration of on-screen text, " +
+      "depictions of minors, alcohol, tobacco or gambling, price and offer accuracy, and use of third-party trademarks.\n" +
+      "End with an overall verdict: compliant, compliant with changes, or non-compliant."
+  },
+  {
+    name: "sports_play_by_play",
+    description: "Play-by-play commentary of a sports video with timestamps",
+    tool: "generate_text",
+    temperature: 0.4,
+    arguments: [
+      { name: "sport", description: "Sport being played" },
+      { name: "teams", description: "Teams or athletes involved" }
+    ],
+    template:
+      "Write a play-by-play log of this {{sport|sports}} video{{#teams}} featuring {{teams}}{{/teams}}.\n" +
+      "List every significant play in chronological order as: [mm:ss] team/athlete - description.\n" +
+      "Mark scoring plays, fouls or penalties, substitutions and turning points explicitly. " +
+      "Finish with the final score or result if it is visible, and the three key moments of the game."
+  },
+  {
+    name: "lecture_notes",
+    description: "Structured lecture notes with timestamps and key concepts",
+    tool: "generate_text",
+    temperature: 0.2,
+    arguments: [
+      { name: "audience", description: "Intended audience of the notes (default: students)" }
+    ],
+    template:
+      "Create study notes from this lecture for {{audience|students}}.\n" +
+      "Structure the notes by topic, each with a heading and the timestamp (mm:ss) where the topic starts.\n" +
+      "Under each topic include key concepts, definitions, formulas or examples written on slides or the board, and important remarks by the speaker.\n" +
+      "End with a glossary of key terms and five review questions."
+  },
+  {
+    name: "safety_incident_report",
+    description: "Safety incident report from surveillance or site footage",
+    tool: "generate_text",
+    temperature: 0.1,
+    arguments: [
+      { name: "siteName", description: "Name or type of the site (e.g. warehouse, construction site)" }
+    ],
+    template:
+      "Write a safety incident report based on this footage{{#siteName}} from {{siteName}}{{/siteName}}.\n" +
+      "Include: incident summary, timeline of events with timestamps (mm:ss), people and equipment involved (described by appearance, no identification), " +
+      "unsafe acts and unsafe conditions observed, missing or misused PPE, immediate consequences, probable root causes and recommended corrective actions.\n" +
+      "State clearly when something cannot be determined from the footage."
+  },
+  {
+    name: "chapter_outline",
+    description: "Chapter outline of a video with concise chapter summaries",
+    tool: "generate_summary",
+    summaryType: "chapter",
+    temperature: 0.2,
+    arguments: [
+      { name: "style", description: "Style of the chapter titles (e.g. YouTube, formal)" }
+    ],
+    template: "Split the video into chapters{{#style}} with {{style}}-style titles{{/style}} and summarize each chapter in one or two sentences."
+  },
+  {
+    name: "social_media_summary",
+    description: "Short summary suitable for a social media post",
+    tool: "generate_summary",
+    summaryType: "summary",
+    temperature: 0.5,
+    arguments: [
+      { name: "platform", description: "Target platform (default: LinkedIn)" }
+    ],
+    template: "Summarize this video as a {{platform|LinkedIn}} post in at most three sentences, followed by three relevant hashtags."
+  }
+];
+
+/**
+ * {{name}}, {{name|기본값}}, {{#name}}...{{/name}}(값이 있을 때만 포함) 자리표시자를 치환합니다.
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name, inner) => (values[name] ? inner : ""))
+    .replace(/\{\{(\w+)(?:\|([^}]*))?\}\}/g, (_, name, fallback) => values[name] || fallback || "");
+}
+
+function validateTemplate(template: VideoPromptTemplate, source: string): VideoPromptTemplate {
+  const errors: string[] = [];
+  if (!template || typeof template !== "object") {
+    throw new Error(`Invalid prompt template in ${source}: expected an object`);
+  }
+  if (!template.name || !/^[\w-]+$/.test(template.name)) errors.push("name must be a non-empty identifier");
+  if (!template.template || typeof template.template !== "string") errors.push("template must be a non-empty string");
+  if (template.tool !== "generate_text" && template.tool !== "generate_summary") {
+    errors.push('tool must be "generate_text" or "generate_summary"');
+  }
+  if (template.tool === "generate_summary" && !["summary", "chapter", "highlight"].includes(template.summaryType ?? "")) {
+    errors.push('summaryType must be "summary", "chapter" or "highlight" for generate_summary templates');
+  }
+  if (template.temperature !== undefined && (typeof template.temperature !== "number" || template.temperature < 0 || template.temperature > 1)) {
+    errors.push("temperature must be a number between 0 and 1");
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid prompt template "${template.name ?? "?"}" in ${source}: ${errors.join("; ")}`);
+  }
+  return { ...template, description: template.description ?? "" };
+}
+
+/**
+ * 기본 템플릿에 디렉터리의 *.json 템플릿(객체 하나 또는 배열)을 합쳐 반환합니다.
+ * 같은 이름의 템플릿은 디렉터리의 것이 우선합니다.
+ */
+export function loadPromptTemplates(directory?: string): Map<string, VideoPromptTemplate> {
+  const templates = new Map<string, VideoPromptTemplate>();
+  for (const template of BUILTIN_PROMPT_TEMPLATES) {
+    templates.set(template.name, template);
+  }
+  if (!directory) {
+    return templates;
+  }
+
+  const files = readdirSync(directory).filter((file) => file.toLowerCase().endsWith(".json")).sort();
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    const parsed = JSON.parse(readFileSync(filePath, "utf8"));
+    for (const template of Array.isArray(parsed) ? parsed : [parsed]) {
+      const validated = validateTemplate(template, filePath);
+      templates.set(validated.name, validated);
+    }
+  }
+  logger.info(`프롬프트 템플릿 로드 완료: ${templates.size}개 (디렉터리: ${directory})`);
+  return templates;
+}
+
+/**
+ * 템플릿과 인자로 도구 호출 인자를 만듭니다.
+ */
+export function buildPromptToolCall(template: VideoPromptTemplate, values: Record<string, string | undefined>) {
+  const prompt = renderPromptTemplate(template.template, values).trim();
+  const toolArguments: Record<string, unknown> = { videoId: values.videoId };
+  if (template.tool === "generate_summary") {
+    toolArguments.type = template.summaryType;
+  }
+  toolArguments.prompt = prompt;
+  if (template.temperature !== undefined) {
+    toolArguments.temperature = template.temperature;
+  }
+  return { tool: template.tool, arguments: toolArguments };
+}
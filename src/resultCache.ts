@@ -0,0 +1,310 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ServerConfig } from "./config.js";
+import { logger } from "./logger.js";
+
+/**
+ * generate/gist/summarize 결과 캐시.
+ * 같은 세션(또는 같은 API 키)이 같은 영상에 같은 요청을 반복하면 유료 API를 다시 호출하지 않고 저장된 결과를 돌려줍니다.
+ * 저장소는 교체 가능하며, 기본은 메모리 LRU이고 디스크 저장소(/app/data 볼륨)를 함께 쓰면 서버를 다시 시작해도 유지됩니다.
+ * 조회는 앞의 저장소부터 하고, 뒤 저장소에서 찾은 항목은 앞 저장소로 올립니다.
+ */
+
+export const DEFAULT_CACHE_TTL_SEC = 24 * 60 * 60;
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+export interface ResultCacheKeyParts {
+  // API 키를 구분하는 값 (다른 계정의 결과가 섞이지 않도록 키에 포함)
+  account: string;
+  endpoint: "generate" | "gist" | "summarize";
+  videoId: string;
+  prompt?: string;
+  // summarize의 type 또는 gist의 types
+  type?: string | string[];
+  temperature?: number;
+}
+
+export interface ResultCacheEntry {
+  key: string;
+  account: string;
+  endpoint: string;
+  videoId: string;
+  createdAt: number;
+  expiresAt: number;
+  value: Record<string, unknown>;
+}
+
+// 캐시 저장소 인터페이스. 다른 저장소(Redis 등)도 이 형태로 구현하면 끼워 넣을 수 있습니다.
+export interface ResultCacheStore {
+  readonly name: string;
+  get(key: string): Promise<ResultCacheEntry | undefined>;
+  set(entry: ResultCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  // filter에 맞는 항목(없으면 전체)을 지우고 지운 개수를 반환
+  clear(filter?: (entry: ResultCacheEntry) => boolean): Promise<number>;
+  size(): Promise<number>;
+}
+
+export interface ResultCacheLookup {
+  hit: boolean;
+  store?: string;
+  cachedAt?: string;
+  expiresAt?: string;
+}
+
+/**
+ * 요청 파라미터로 캐시 키를 만듭니다. 프롬프트 앞뒤 공백과 types 순서는 결과에 영향이 없으므로 정규화합니다.
+ */
+export function resultCacheKey(parts: ResultCacheKeyParts): string {
+  const type = Array.isArray(parts.type) ? [...new Set(parts.type)].sort().join(",") : parts.type ?? "";
+  const normalized = JSON.stringify([
+    parts.account,
+    parts.endpoint,
+    parts.videoId,
+    parts.prompt?.trim() ?? "",
+    type,
+    parts.temperature ?? null
+  ]);
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * 최대 항목 수를 넘으면 가장 오래 쓰이지 않은 항목부터 버리는 메모리 저장소.
+ */
+export function createMemoryCacheStore(maxEntries = DEFAULT_CACHE_MAX_ENTRIES): ResultCacheStore {
+  // Map은 삽입 순서를 유지하므로, 조회 시 다시 넣어 가장 최근 항목으로 옮김
+  const entries = new Map<string, ResultCacheEntry>();
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    async set(entry) {
+      entries.delete(entry.key);
+      entries.set(entry.key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async clear(filter) {
+      let removed = 0;
+      for (const [key, entry] of entries) {
+        if (!filter || filter(entry)) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    async size() {
+      return entries.size;
+    }
+  };
+}
+
+/**
+ * 항목마다 JSON 파일 하나(<키>.json)로 저장하는 디스크 저장소.
+ * 손상되었거나 읽을 수 없는 파일은 캐시 미스로 취급합니다.
+ */
+export function createDiskCacheStore(directory: string): ResultCacheStore {
+  const filePath = (key: string) => path.join(directory, `${key}.json`);
+
+  async function readEntry(file: string): Promise<ResultCacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as ResultCacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async function listFiles() {
+    try {
+      return (await readdir(directory)).filter((file) => file.endsWith(".json")).map((file) => path.join(directory, file));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw e;
+    }
+  }
+
+  return {
+    name: "disk",
+
+    async get(key) {
+      return readEntry(filePath(key));
+    },
+
+    async set(entry) {
+      await mkdir(directory, { recursive: true });
+      // 쓰는 도중 읽히지 않도록 임시 파일에 쓴 뒤 이름을 바꿈
+      const temporary = `${filePath(entry.key)}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(entry), "utf8");
+      await rename(temporary, filePath(entry.key));
+    },
+
+    async delete(key) {
+      await unlink(filePath(key)).catch(() => undefined);
+    },
+
+    async clear(filter) {
+      let removed = 0;
+      for (const file of await listFiles()) {
+        const entry = filter ? await readEntry(file) : undefined;
+        if (!filter || (entry && filter(entry))) {
+          await unlink(file).catch(() => undefined);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    async size() {
+      return (await listFiles()).length;
+    }
+  };
+}
+
+export interface ResultCacheOptions {
+  // 조회 순서대로 나열한 저장소 (비어 있으면 캐시 사용 안 함)
+  stores: ResultCacheStore[];
+  ttlSec?: number;
+}
+
+export function createResultCache(options: ResultCacheOptions) {
+  const stores = options.stores;
+  const ttlMs = (options.ttlSec ?? DEFAULT_CACHE_TTL_SEC) * 1000;
+
+  function lookupInfo(store: ResultCacheStore, entry: ResultCacheEntry): ResultCacheLookup {
+    return {
+      hit: true,
+      store: store.name,
+      cachedAt: new Date(entry.createdAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString()
+    };
+  }
+
+  return {
+    get enabled() {
+      return stores.length > 0;
+    },
+
+    get ttlSec() {
+      return ttlMs / 1000;
+    },
+
+    storeNames() {
+      return stores.map((store) => store.name);
+    },
+
+    /**
+     * 유효한 항목이 있으면 값과 조회 정보를, 없으면 undefined를 반환합니다. 만료된 항목은 지웁니다.
+     */
+    async get(key: string): Promise<{ value: Record<string, unknown>; info: ResultCacheLookup } | undefined> {
+      for (let i = 0; i < stores.length; i++) {
+        const store = stores[i];
+        let entry: ResultCacheEntry | undefined;
+        try {
+          entry = await store.get(key);
+        } catch (e) {
+          logger.warn(`결과 캐시 조회 오류 (${store.name}, 무시): ${e}`);
+          continue;
+        }
+        if (!entry) continue;
+        if (entry.expiresAt <= Date.now()) {
+          await store.delete(key).catch(() => undefined);
+          continue;
+        }
+        // 뒤 저장소에서 찾은 항목은 앞 저장소에도 넣어 다음 조회를 빠르게 함
+        for (const earlier of stores.slice(0, i)) {
+          await earlier.set(entry).catch(() => undefined);
+        }
+        return { value: entry.value, info: lookupInfo(store, entry) };
+      }
+      return undefined;
+    },
+
+    async set(key: string, parts: ResultCacheKeyParts, value: Record<string, unknown>) {
+      const createdAt = Date.now();
+      const entry: ResultCacheEntry = {
+        key,
+        account: parts.account,
+        endpoint: parts.endpoint,
+        videoId: parts.videoId,
+        createdAt,
+        expiresAt: createdAt + ttlMs,
+        value
+      };
+      for (const store of stores) {
+        try {
+          await store.set(entry);
+        } catch (e) {
+          logger.warn(`결과 캐시 저장 오류 (${store.name}, 무시): ${e}`);
+        }
+      }
+      return { hit: false, cachedAt: new Date(createdAt).toISOString(), expiresAt: new Date(entry.expiresAt).toISOString() };
+    },
+
+    /**
+     * 조건에 맞는 항목을 모든 저장소에서 지우고 저장소별로 지운 개수를 반환합니다.
+     * account를 주면 그 API 키의 항목만 지웁니다 (다른 세션의 캐시는 건드리지 않음).
+     */
+    async clear(filter: { account?: string; videoId?: string; endpoint?: string; expiredOnly?: boolean } = {}) {
+      const now = Date.now();
+      const matches = (entry: ResultCacheEntry) =>
+        (!filter.account || entry.account === filter.account) &&
+        (!filter.videoId || entry.videoId === filter.videoId) &&
+        (!filter.endpoint || entry.endpoint === filter.endpoint) &&
+        (!filter.expiredOnly || entry.expiresAt <= now);
+      const hasFilter = Boolean(filter.account || filter.videoId || filter.endpoint || filter.expiredOnly);
+      const removed: Record<string, number> = {};
+      for (const store of stores) {
+        removed[store.name] = await store.clear(hasFilter ? matches : undefined);
+      }
+      return removed;
+    },
+
+    async stats() {
+      const sizes: Record<string, number> = {};
+      for (const store of stores) {
+        sizes[store.name] = await store.size();
+      }
+      return sizes;
+    }
+  };
+}
+
+export type ResultCache = ReturnType<typeof createResultCache>;
+
+/**
+ * 서버 설정(cache 항목)으로 캐시를 구성합니다.
+ *  - mode: memory(기본), disk(메모리 + 디스크), off
+ *  - ttlSec: 항목 유효 시간 (기본 24시간)
+ *  - maxEntries: 메모리 LRU 최대 항목 수 (기본 500)
+ *  - dir: 디스크 저장 위치 (기본 <데이터 디렉터리>/cache/results)
+ */
+export function createResultCacheFromConfig(dataDir: string, config: ServerConfig["cache"]): ResultCache {
+  const stores: ResultCacheStore[] = [];
+  if (config.mode !== "off") {
+    stores.push(createMemoryCacheStore(config.maxEntries));
+  }
+  if (config.mode === "disk") {
+    const directory = path.resolve(dataDir, config.dir || path.join("cache", "results"));
+    stores.push(createDiskCacheStore(directory));
+    logger.info(`결과 캐시: 메모리 + 디스크 (${directory}), TTL ${config.ttlSec}초`);
+  }
+  return createResultCache({ stores, ttlSec: config.ttlSec });
+}
@@ -0,0 +1,112 @@
+import { TwelveLabsError } from "./errors.js";
+import { logger } from "./logger.js";
+
+/**
+ * 구독된 인덱싱 작업 리소스(twelvelabs://tasks/{id})의 상태를 주기적으로 확인하고,
+ * 상태가 바뀌면 resources/updated 알림을 보내기 위한 구독 관리자입니다.
+ * 작업이 ready 또는 failed가 되면 마지막 알림을 보낸 뒤 폴링을 멈춥니다.
+ * 조회 오류가 재시도할 수 없는 것(작업 없음, 인증 실패 등)이면 구독을 끝내고 알리며,
+ * 일시적 오류는 간격을 늘려 가며 재시도하다가 MAX_CONSECUTIVE_ERRORS번 연속 실패하면 구독을 끝냅니다.
+ */
+
+export const DEFAULT_TASK_SUBSCRIPTION_INTERVAL_MS = 10_000;
+const MAX_RETRY_INTERVAL_MS = 5 * 60_000;
+const MAX_CONSECUTIVE_ERRORS = 10;
+
+const FINAL_TASK_STATUSES = ["ready", "failed"];
+
+interface TaskSubscription {
+  taskId: string;
+  lastStatus?: string;
+  timer?: NodeJS.Timeout;
+  // 연속 조회 실패 횟수 (성공하면 0)
+  errors: number;
+}
+
+export interface TaskSubscriptionOptions {
+  // 작업의 현재 상태를 조회하는 함수
+  fetchStatus: (taskId: string) => Promise<string>;
+  // 상태가 바뀌었을 때 호출되는 함수
+  onUpdated: (uri: string, taskId: string, status: string) => Promise<void> | void;
+  // 오류로 구독을 끝냈을 때 호출되는 함수
+  onStopped?: (uri: string, taskId: string, error: unknown) => Promise<void> | void;
+  intervalMs?: number;
+}
+
+export function taskResourceUri(taskId: string) {
+  return `twelvelabs://tasks/${taskId}`;
+}
+
+export function createTaskSubscriptionManager(options: TaskSubscriptionOptions) {
+  const intervalMs = options.intervalMs ?? DEFAULT_TASK_SUBSCRIPTION_INTERVAL_MS;
+  const subscriptions = new Map<string, TaskSubscription>();
+
+  async function stop(subscription: TaskSubscription, error: unknown) {
+    subscriptions.delete(subscription.taskId);
+    logger.warn(`작업 구독 폴링 중단 (${subscription.taskId}): ${error}`);
+    try {
+      await options.onStopped?.(taskResourceUri(subscription.taskId), subscription.taskId, error);
+    } catch (e) {
+      logger.warn(`작업 구독 종료 알림 실패 (${subscription.taskId}): ${e}`);
+    }
+  }
+
+  async function poll(subscription: TaskSubscription) {
+    if (!subscriptions.has(subscription.taskId)) return;
+    let delayMs = intervalMs;
+    try {
+      const status = await options.fetchStatus(subscription.taskId);
+      subscription.errors = 0;
+      const changed = subscription.lastStatus !== undefined && subscription.lastStatus !== status;
+      subscription.lastStatus = status;
+      if (changed) {
+        logger.info(`작업 리소스 갱신 알림: ${subscription.taskId} → ${status}`);
+        await options.onUpdated(taskResourceUri(subscription.taskId), subscription.taskId, status);
+      }
+      if (FINAL_TASK_STATUSES.includes(status)) {
+        logger.info(`작업이 종료되어 구독 폴링을 멈춥니다: ${subscription.taskId} (${status})`);
+        return;
+      }
+    } catch (e) {
+      subscription.errors++;
+      if ((e instanceof TwelveLabsError && !e.retryable) || subscription.errors >= MAX_CONSECUTIVE_ERRORS) {
+        await stop(subscription, e);
+        return;
+      }
+      delayMs = Math.min(intervalMs * 2 ** subscription.errors, MAX_RETRY_INTERVAL_MS);
+      logger.warn(`작업 구독 폴링 오류 (${subscription.taskId}), ${delayMs}ms 후 재시도: ${e}`);
+    }
+    if (subscriptions.has(subscription.taskId)) {
+      subscription.timer = setTimeout(() => poll(subscription), delayMs);
+    }
+  }
+
+  return {
+    subscribe(taskId: string) {
+      if (subscriptions.has(taskId)) return;
+      const subscription: TaskSubscription = { taskId, errors: 0 };
+      subscriptions.set(taskId, subscription);
+      logger.info(`작업 리소스 구독: ${taskId}`);
+      void poll(subscription);
+    },
+
+    unsubscribe(taskId: string) {
+      const subscription = subscriptions.get(taskId);
+      if (!subscription) return;
+      clearTimeout(subscription.timer);
+      subscriptions.delete(taskId);
+      logger.info(`작업 리소스 구독 해제: ${taskId}`);
+    },
+
+    clear() {
+      for (const subscription of subscriptions.values()) {
+        clearTimeout(subscription.timer);
+      }
+      subscriptions.clear();
+    },
+
+    get size() {
+      return subscriptions.size;
+    }
+  };
+}
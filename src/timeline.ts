@@ -0,0 +1,345 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { resolveDataWritePath } from "./upload.js";
+
+/**
+ * generate_summary의 chapters/highlights를 편집 도구용 타임라인 파일로 변환합니다.
+ * 항목은 시작 시간 순으로 정렬하고, 잘못된 구간은 버리며, 겹치는 구간은 overlap 방식에 따라 정리합니다.
+ * 정리하면서 바꾼 내용은 adjustments에 사람이 읽을 수 있는 문장으로 남깁니다.
+ */
+
+export type TimelineFormat = "webvtt" | "srt" | "edl" | "youtube" | "otio";
+export type TimelineKind = "chapter" | "highlight";
+// trim: 앞 구간을 다음 구간 시작에서 끊음, merge: 겹치는 구간을 하나로 합침, keep: 그대로 둠
+export type OverlapMode = "trim" | "merge" | "keep";
+
+export interface TimelineEntry {
+  start: number;
+  end: number;
+  title: string;
+  summary?: string;
+}
+
+export interface TimelineOptions {
+  // EDL TITLE과 OTIO 타임라인 이름
+  title?: string;
+  // EDL/OTIO에 기록할 원본 클립 이름 (보통 영상 파일 이름 또는 videoId)
+  clipName?: string;
+  // EDL 타임코드와 OTIO RationalTime의 프레임 레이트
+  frameRate?: number;
+  kind?: TimelineKind;
+}
+
+export const TIMELINE_FORMATS: Record<TimelineFormat, { extension: string; mimeType: string }> = {
+  webvtt: { extension: ".vtt", mimeType: "text/vtt" },
+  srt: { extension: ".srt", mimeType: "application/x-subrip" },
+  edl: { extension: ".edl", mimeType: "text/plain" },
+  youtube: { extension: ".txt", mimeType: "text/plain" },
+  otio: { extension: ".otio", mimeType: "application/json" }
+};
+
+export const SUPPORTED_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+export const DEFAULT_FRAME_RATE = 30;
+
+// YouTube 챕터 규칙: 첫 챕터는 0:00, 최소 3개, 각 10초 이상
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_SEC = 10;
+
+function firstNumber(...values: unknown[]) {
+  for (const value of values) {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof number === "number" && Number.isFinite(number)) return number;
+  }
+  return undefined;
+}
+
+function firstText(...values: unknown[]) {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim() !== "") return value.trim();
+  }
+  return undefined;
+}
+
+function describeRange(entry: { start: number; end: number; title: string }) {
+  return `"${entry.title}" (${formatClock(entry.start)}-${formatClock(entry.end)})`;
+}
+
+/**
+ * API 응답 항목(start_sec/end_sec/chapter_title/highlight 등, 또는 start/end/title/summary)을
+ * 정렬·정리된 타임라인 항목으로 바꿉니다.
+ */
+export function normalizeTimeline(items: unknown[], kind: TimelineKind, overlap: OverlapMode = "trim") {
+  const adjustments: string[] = [];
+  const entries: TimelineEntry[] = [];
+
+  items.forEach((value, i) => {
+    const item = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : undefined;
+    const start = firstNumber(item?.start_sec, item?.start);
+    let end = firstNumber(item?.end_sec, item?.end);
+    const title = firstText(
+      kind === "chapter" ? item?.chapter_title : item?.highlight,
+      item?.title,
+      item?.chapter_title,
+      item?.highlight
+    ) ?? `${kind === "chapter" ? "Chapter" : "Highlight"} ${i + 1}`;
+    const summary = firstText(kind === "chapter" ? item?.chapter_summary : item?.highlight_summary, item?.summary);
+
+    if (start === undefined) {
+      adjustments.push(`Dropped item #${i + 1} "${title}": missing start time`);
+      return;
+    }
+    if (end === undefined) {
+      end = start;
+    }
+    if (end < start) {
+      adjustments.push(`Dropped item #${i + 1} "${title}": end ${end}s is before start ${start}s`);
+      return;
+    }
+    entries.push({ start: Math.max(0, start), end: Math.max(0, end), title, ...(summary ? { summary } : {}) });
+  });
+
+  const sorted = [...entries].sort((a, b) => a.start - b.start || a.end - b.end);
+  if (sorted.some((entry, i) => entry !== entries[i])) {
+    adjustments.push(`Sorted ${sorted.length} items by start time`);
+  }
+
+  // 끝 시간이 없는 항목은 다음 항목의 시작까지로 늘림
+  sorted.forEach((entry, i) => {
+    const next = sorted[i + 1];
+    if (entry.end === entry.start && next && next.start > entry.start) {
+      entry.end = next.start;
+    }
+  });
+
+  if (overlap === "keep") {
+    const overlapping = sorted.filter((entry, i) => i > 0 && entry.start < sorted[i - 1].end).length;
+    if (overlapping > 0) {
+      adjustments.push(`Kept ${overlapping} overlapping item(s) as is`);
+    }
+    return { entries: sorted, adjustments };
+  }
+
+  const result: TimelineEntry[] = [];
+  for (const entry of sorted) {
+    const previous = result[result.length - 1];
+    if (!previous || entry.start >= previous.end) {
+      result.push({ ...entry });
+      continue;
+    }
+    // 시작이 같으면 앞 구간을 끊을 수 없으므로 trim에서도 합침
+    if (overlap === "merge" || entry.start === previous.start) {
+      adjustments.push(`Merged ${describeRange(entry)} into ${describeRange(previous)}`);
+      previous.end = Math.max(previous.end, entry.end);
+      previous.title = `${previous.title} / ${entry.title}`;
+      if (entry.summary) {
+        previous.summary = previous.summary ? `${previous.summary} ${entry.summary}` : entry.summary;
+      }
+      continue;
+    }
+    adjustments.push(`Trimmed ${describeRange(previous)} to end at ${formatClock(entry.start)} where ${describeRange(entry)} starts`);
+    // 앞 구간이 뒤 구간을 완전히 덮으면 뒤 구간 이후 부분을 새 항목으로 이어 붙이지 않고 버림
+    if (previous.end > entry.end) {
+      adjustments.push(`Dropped the part of "${previous.title}" after ${formatClock(entry.end)}`);
+    }
+    previous.end = entry.start;
+    result.push({ ...entry });
+  }
+  return { entries: result, adjustments };
+}
+
+/**
+ * 초를 시계 형식으로 바꿉니다. separator는 밀리초 앞 구분자입니다 (WebVTT ".", SRT ",").
+ */
+export function formatTimestamp(seconds: number, separator: "." | ",") {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const ms = totalMs % 1000;
+  const totalSec = Math.floor(totalMs / 1000);
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}${separator}${String(ms).padStart(3, "0")}`;
+}
+
+// YouTube 설명란 형식 (M:SS 또는 H:MM:SS, 초 단위 내림)
+export function formatClock(seconds: number) {
+  const total = Math.floor(Math.max(0, seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * SMPTE 비드롭 프레임 타임코드 (HH:MM:SS:FF). 29.97/59.94도 비드롭으로 계산합니다 (EDL의 FCM: NON-DROP FRAME).
+ * 프레임 수는 실제 프레임 레이트로 세고, 반올림한 레이트(30, 60)는 타임코드의 기수로만 씁니다.
+ */
+export function formatTimecode(seconds: number, frameRate: number) {
+  const fps = Math.round(frameRate);
+  const totalFrames = Math.round(Math.max(0, seconds) * frameRate);
+  const frames = totalFrames % fps;
+  const totalSec = Math.floor(totalFrames / fps);
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  return [h, m, s, frames].map((value) => String(value).padStart(2, "0")).join(":");
+}
+
+// 자막 큐 안에서 빈 줄은 큐의 끝을 뜻하므로 한 줄로 정리
+function singleLine(text: string) {
+  return text.replace(/\s*\r?\n\s*/g, " ").trim();
+}
+
+function cueText(entry: TimelineEntry) {
+  return entry.summary ? `${singleLine(entry.title)}\n${singleLine(entry.summary)}` : singleLine(entry.title);
+}
+
+export function formatWebVtt(entries: TimelineEntry[], options: TimelineOptions = {}) {
+  const header = options.kind === "chapter" ? "WEBVTT - Chapters" : "WEBVTT";
+  const cues = entries.map((entry, i) =>
+    `${i + 1}\n${formatTimestamp(entry.start, ".")} --> ${formatTimestamp(entry.end, ".")}\n${cueText(entry).replace(/-->/g, "->")}`
+  );
+  return [header, ...cues].join("\n\n") + "\n";
+}
+
+export function formatSrt(entries: TimelineEntry[]) {
+  return entries.map((entry, i) =>
+    `${i + 1}\n${formatTimestamp(entry.start, ",")} --> ${formatTimestamp(entry.end, ",")}\n${cueText(entry)}`
+  ).join("\n\n") + "\n";
+}
+
+/**
+ * CMX3600 EDL. 각 구간이 하나의 이벤트가 되며, 기록(record) 타임코드는 구간을 순서대로 이어 붙인 하이라이트 릴 기준입니다.
+ */
+export function formatEdl(entries: TimelineEntry[], options: TimelineOptions = {}) {
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  // 릴 이름은 최대 8자의 영문 대문자/숫자
+  const reel = (options.clipName ?? "AX").replace(/\.[^.]+$/, "").toUpperCase().replace(/[^A-Z0-9]/g, "").substring(0, 8) || "AX";
+  const lines = [`TITLE: ${singleLine(options.title ?? "TwelveLabs timeline")}`, "FCM: NON-DROP FRAME", ""];
+  let record = 0;
+  entries.forEach((entry, i) => {
+    const duration = entry.end - entry.start;
+    const event = String(i + 1).padStart(3, "0");
+    lines.push(
+      `${event}  ${reel.padEnd(8)} AA/V  C        ` +
+      `${formatTimecode(entry.start, frameRate)} ${formatTimecode(entry.end, frameRate)} ` +
+      `${formatTimecode(record, frameRate)} ${formatTimecode(record + duration, frameRate)}`
+    );
+    if (options.clipName) {
+      lines.push(`* FROM CLIP NAME: ${singleLine(options.clipName)}`);
+    }
+    lines.push(`* COMMENT: ${singleLine(entry.title)}`);
+    lines.push("");
+    record += duration;
+  });
+  return lines.join("\n");
+}
+
+/**
+ * YouTube 설명란 챕터 줄 ("0:00 제목"). YouTube 규칙에 맞지 않는 부분은 warnings로 알려 줍니다.
+ */
+export function formatYouTubeChapters(entries: TimelineEntry[]) {
+  const warnings: string[] = [];
+  const chapters = entries.map((entry) => ({ start: entry.start, title: singleLine(entry.title) }));
+  if (chapters.length > 0 && Math.floor(chapters[0].start) > 0) {
+    chapters.unshift({ start: 0, title: "Intro" });
+    warnings.push(`Added an "Intro" chapter at 0:00 because YouTube chapters must start at 0:00`);
+  }
+  if (chapters.length < YOUTUBE_MIN_CHAPTERS) {
+    warnings.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters (got ${chapters.length}); chapters will not be shown`);
+  }
+  const ends = [...chapters.slice(1).map((chapter) => chapter.start), entries[entries.length - 1]?.end ?? 0];
+  chapters.forEach((chapter, i) => {
+    if (ends[i] - chapter.start < YOUTUBE_MIN_CHAPTER_SEC) {
+      warnings.push(`Chapter "${chapter.title}" at ${formatClock(chapter.start)} is shorter than ${YOUTUBE_MIN_CHAPTER_SEC} seconds`);
+    }
+  });
+  return { text: chapters.map((chapter) => `${formatClock(chapter.start)} ${chapter.title}`).join("\n") + "\n", warnings };
+}
+
+function rationalTime(seconds: number, rate: number) {
+  return { OTIO_SCHEMA: "RationalTime.1", rate, value: Math.round(seconds * rate) };
+}
+
+function timeRange(start: number, duration: number, rate: number) {
+  return { OTIO_SCHEMA: "TimeRange.1", start_time: rationalTime(start, rate), duration: rationalTime(duration, rate) };
+}
+
+/**
+ * OpenTimelineIO 형식의 JSON. 트랙 하나에 구간마다 원본 영상을 가리키는 클립을 두고,
+ * 구간 사이의 빈 시간은 Gap으로 채워 원본과 같은 시간 위치를 유지합니다.
+ * 겹치는 구간(overlap=keep)은 한 트랙에 둘 수 없으므로 겹치지 않는 트랙들로 나눕니다.
+ */
+export function formatOtio(entries: TimelineEntry[], options: TimelineOptions = {}) {
+  const rate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  const trackName = options.kind === "highlight" ? "Highlights" : "Chapters";
+  const lanes: { end: number; children: object[] }[] = [];
+
+  for (const entry of entries) {
+    let lane = lanes.find((candidate) => candidate.end <= entry.start);
+    if (!lane) {
+      lane = { end: 0, children: [] };
+      lanes.push(lane);
+    }
+    if (entry.start > lane.end) {
+      lane.children.push({ OTIO_SCHEMA: "Gap.1", name: "", source_range: timeRange(0, entry.start - lane.end, rate) });
+    }
+    lane.children.push({
+      OTIO_SCHEMA: "Clip.2",
+      name: entry.title,
+      source_range: timeRange(entry.start, entry.end - entry.start, rate),
+      media_references: {
+        DEFAULT_MEDIA: { OTIO_SCHEMA: "ExternalReference.1", name: options.clipName ?? "", target_url: options.clipName ?? "" }
+      },
+      active_media_reference_key: "DEFAULT_MEDIA",
+      metadata: entry.summary ? { twelvelabs: { summary: entry.summary } } : {}
+    });
+    lane.end = entry.end;
+  }
+
+  const timeline = {
+    OTIO_SCHEMA: "Timeline.1",
+    name: options.title ?? "TwelveLabs timeline",
+    global_start_time: rationalTime(0, rate),
+    tracks: {
+      OTIO_SCHEMA: "Stack.1",
+      name: "tracks",
+      children: lanes.map((lane, i) => ({
+        OTIO_SCHEMA: "Track.1",
+        name: lanes.length > 1 ? `${trackName} ${i + 1}` : trackName,
+        kind: "Video",
+        children: lane.children
+      }))
+    }
+  };
+  return JSON.stringify(timeline, null, 2) + "\n";
+}
+
+/**
+ * 지정한 형식으로 타임라인 텍스트를 만듭니다. warnings는 형식의 규칙상 알려야 할 내용입니다.
+ */
+export function renderTimeline(format: TimelineFormat, entries: TimelineEntry[], options: TimelineOptions = {}) {
+  switch (format) {
+    case "webvtt":
+      return { text: formatWebVtt(entries, options), warnings: [] as string[] };
+    case "srt":
+      return { text: formatSrt(entries), warnings: [] as string[] };
+    case "edl":
+      return { text: formatEdl(entries, options), warnings: [] as string[] };
+    case "youtube":
+      return formatYouTubeChapters(entries);
+    case "otio":
+      return { text: formatOtio(entries, options), warnings: [] as string[] };
+  }
+}
+
+/**
+ * 타임라인을 파일로 저장합니다. 상대 경로는 데이터 디렉터리 아래로 해석하고, 데이터 디렉터리 밖의 경로는 거부합니다.
+ * 확장자가 없으면 형식의 확장자를 붙입니다.
+ */
+export async function writeTimelineFile(outputPath: string, format: TimelineFormat, text: string): Promise<string> {
+  const target = path.extname(outputPath) ? outputPath : `${outputPath}${TIMELINE_FORMATS[format].extension}`;
+  const absolutePath = resolveDataWritePath(target);
+  await mkdir(path.dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, text, "utf8");
+  return absolutePath;
+}
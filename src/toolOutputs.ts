@@ -0,0 +1,920 @@
+/**
+ * 도구 결과의 outputSchema와 사람이 읽기 쉬운 텍스트 요약.
+ * 도구는 structuredContent에 결과 객체를 그대로 담고, content에는 renderToolText의 요약을 담습니다.
+ * TwelveLabs 응답을 그대로 전달하는 필드(index, video, task 등)는 API가 필드를 추가해도 깨지지 않도록
+ * 주요 필드만 선언하고 나머지는 허용합니다.
+ */
+
+import type {
+  ApiGistResponse,
+  ApiIndex,
+  ApiIndexModel,
+  ApiPageInfo,
+  ApiSearchClip,
+  ApiSearchHit,
+  ApiSummarizeResponse,
+  ApiTask,
+  ApiVideo
+} from "./apiTypes.js";
+
+type JsonSchema = Record<string, unknown>;
+
+export type ToolOutputSchema = {
+  type: "object";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  [key: string]: unknown;
+};
+
+// API가 그대로 돌려주는 객체의 필드는 null일 수 있으므로 각 속성에 null을 허용
+function apiObject(schema: { description?: string; properties: Record<string, JsonSchema> }) {
+  const properties: Record<string, JsonSchema> = {};
+  for (const [name, property] of Object.entries(schema.properties)) {
+    properties[name] = typeof property.type === "string" ? { ...property, type: [property.type, "null"] } : property;
+  }
+  return { type: "object", ...schema, properties } as { type: "object"; description?: string; properties: Record<string, JsonSchema> };
+}
+
+const STATUS = { type: "string", enum: ["success"], description: "Always \"success\" for successful calls" };
+
+const PAGE_INFO = apiObject({
+  description: "Pagination info from the API (page, limit_per_page, total_page, total_results, next_page_token, ...)",
+  properties: {
+    page: { type: "number" },
+    limit_per_page: { type: "number" },
+    total_page: { type: "number" },
+    total_results: { type: "number" },
+    next_page_token: { type: "string" },
+    page_expires_at: { type: "string" }
+  }
+});
+
+const USAGE = apiObject({
+  description: "Token usage reported by the API",
+  properties: {
+    output_tokens: { type: "number" },
+    input_tokens: { type: "number" }
+  }
+});
+
+const INDEX_MODEL = apiObject({
+  properties: {
+    model_name: { type: "string" },
+    model_options: { type: "array", items: { type: "string" } }
+  }
+});
+
+const INDEX = apiObject({
+  description: "Index as returned by the TwelveLabs API",
+  properties: {
+    _id: { type: "string" },
+    index_name: { type: "string" },
+    models: { type: "array", items: INDEX_MODEL },
+    addons: { type: "array", items: { type: "string" } },
+    video_count: { type: "number" },
+    total_duration: { type: "number" },
+    created_at: { type: "string" },
+    updated_at: { type: "string" }
+  }
+});
+
+const VIDEO = apiObject({
+  description: "Video as returned by the TwelveLabs API",
+  properties: {
+    _id: { type: "string" },
+    system_metadata: {
+      type: "object",
+      properties: {
+        filename: { type: "string" },
+        duration: { type: "number" },
+        fps: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+        size: { type: "number" }
+      }
+    },
+    user_metadata: { type: "object" },
+    hls: { type: "object" },
+    created_at: { type: "string" },
+    updated_at: { type: "string" },
+    indexed_at: { type: "string" }
+  }
+});
+
+const TASK = apiObject({
+  description: "Indexing task as returned by the TwelveLabs API",
+  properties: {
+    _id: { type: "string" },
+    index_id: { type: "string" },
+    video_id: { type: "string" },
+    status: { type: "string", description: "pending, validating, uploading, queued, indexing, ready or failed" },
+    system_metadata: { type: "object" },
+    created_at: { type: "string" },
+    updated_at: { type: "string" }
+  }
+});
+
+const SEARCH_CLIP = apiObject({
+  properties: {
+    video_id: { type: "string" },
+    start: { type: "number", description: "Start of the clip in seconds" },
+    end: { type: "number", description: "End of the clip in seconds" },
+    rank: { type: "number", description: "Rank of the clip (1 = most relevant)" },
+    score: { type: "number" },
+    confidence: { type: "string", description: "high, medium or low" },
+    thumbnail_url: { type: "string" },
+    transcription: { type: "string" }
+  }
+});
+
+// groupBy=clip이면 클립, groupBy=video이면 { id, clips } 형태의 비디오 그룹
+const SEARCH_HIT = {
+  type: "object",
+  description: "A clip (groupBy=clip) or a video with its matching clips (groupBy=video)",
+  properties: {
+    ...SEARCH_CLIP.properties,
+    id: { type: "string", description: "Video ID (groupBy=video)" },
+    clips: { type: "array", items: SEARCH_CLIP, description: "Matching clips of the video (groupBy=video)" },
+    index_id: { type: "string", description: "Index the hit came from (multi-index search)" },
+    index_name: { type: ["string", "null"], description: "Name of that index (multi-index search)" }
+  }
+};
+
+// 삭제 도구의 대상 정보와 미리보기/확인 토큰 필드
+const DELETION_TARGET = {
+  type: "object",
+  description: "What is (or would be) deleted",
+  properties: {
+    indexId: { type: "string" },
+    indexName: { type: ["string", "null"] },
+    videoCount: { type: "number", description: "Videos in the index" },
+    totalDuration: { type: "number", description: "Total duration of the index in seconds" },
+    videoId: { type: ["string", "null"] },
+    filename: { type: ["string", "null"] },
+    duration: { type: ["number", "null"], description: "Video duration in seconds" },
+    taskId: { type: "string" },
+    taskStatus: { type: "string" }
+  },
+  required: ["indexId"]
+};
+
+const DELETION_GUARD = {
+  dryRun: { type: "boolean", description: "True when this is only a preview" },
+  deleted: { type: "boolean", description: "Whether anything was deleted" },
+  target: DELETION_TARGET,
+  confirmationToken: { type: "string", description: "Pass to the same tool with the same arguments to delete" },
+  expiresAt: { type: "string", description: "When confirmationToken expires" }
+};
+
+// 다중 인덱스 검색에서 인덱스별 결과 요약
+const SEARCH_SOURCE = {
+  type: "object",
+  properties: {
+    indexId: { type: "string" },
+    indexName: { type: ["string", "null"] },
+    totalCount: { type: "number" },
+    clipCount: { type: "number" },
+    hasMore: { type: "boolean" },
+    nextPageToken: { type: ["string", "null"], description: "Token for search_videos_next_page for this index, or null" },
+    error: { type: "string", description: "Why the search of this index failed" }
+  },
+  required: ["indexId"]
+};
+
+const SEARCH_PAGES = {
+  clipCount: { type: "number", description: "Number of clips in results" },
+  pagesFetched: { type: "number" },
+  hasMore: { type: "boolean", description: "Whether more result pages are available" },
+  nextPageToken: { type: ["string", "null"], description: "Token for search_videos_next_page, or null" },
+  pageInfo: PAGE_INFO,
+  results: { type: "array", items: SEARCH_HIT }
+};
+
+const EMBEDDING_SEGMENT = {
+  type: "object",
+  properties: {
+    source: { type: "string", enum: ["text", "image", "audio", "video"] },
+    segment: { type: "number" },
+    startOffsetSec: { type: "number" },
+    endOffsetSec: { type: "number" },
+    embeddingScope: { type: "string" },
+    embeddingOption: { type: "string" }
+  },
+  required: ["source", "segment"]
+};
+
+const EMBEDDINGS = {
+  segmentCount: { type: "number" },
+  dimensions: { type: "number", description: "Length of each vector" },
+  embeddings: {
+    type: "array",
+    description: "Segments with their vectors (when no outputPath is given)",
+    items: {
+      ...EMBEDDING_SEGMENT,
+      properties: { ...EMBEDDING_SEGMENT.properties, vector: { type: "array", items: { type: "number" } } },
+      required: ["source", "segment", "vector"]
+    }
+  },
+  outputPath: { type: "string", description: "Absolute path of the written JSONL file (when outputPath is given)" },
+  segments: { type: "array", items: EMBEDDING_SEGMENT, description: "Segments without vectors (when outputPath is given)" }
+};
+
+const WAITED_TASK = {
+  type: "object",
+  properties: {
+    taskId: { type: "string" },
+    taskStatus: { type: "string" },
+    videoId: { type: ["string", "null"] },
+    percentage: { type: ["number", "null"] },
+    task: TASK,
+    error: { type: "string", description: "Why the task could not be polled (the task counts as failed)" },
+    lastError: { type: "string", description: "Last transient polling error; polling continued" }
+  },
+  required: ["taskId", "taskStatus"]
+};
+
+const CACHE_INFO = {
+  type: "object",
+  description: "Result cache lookup: hit is true when the result came from the cache instead of a new API call",
+  properties: {
+    hit: { type: "boolean" },
+    store: { type: "string", description: "Store the cached result was found in (memory or disk)" },
+    cachedAt: { type: "string" },
+    expiresAt: { type: "string" }
+  },
+  required: ["hit"]
+};
+
+const USAGE_TOTALS = {
+  calls: { type: "number", description: "Recorded calls (generate, search and finished indexing tasks)" },
+  cachedCalls: { type: "number", description: "Generate calls answered from the result cache (no tokens used)" },
+  tokens: { type: "number" },
+  inputTokens: { type: "number" },
+  outputTokens: { type: "number" },
+  indexedVideos: { type: "number" },
+  indexedMinutes: { type: "number" },
+  searches: { type: "number" }
+};
+
+const BATCH_ITEM = {
+  type: "object",
+  properties: {
+    key: { type: "string", description: "Manifest item id, url or filePath" },
+    line: { type: "number", description: "Line (CSV/JSONL) or position (JSON) in the manifest" },
+    taskId: { type: "string" },
+    videoId: { type: "string" },
+    taskStatus: { type: "string" },
+    error: { type: "string" }
+  },
+  required: ["key", "taskStatus"]
+};
+
+function outputSchema(properties: Record<string, JsonSchema>, required: string[] = []): ToolOutputSchema {
+  return { type: "object", properties: { status: STATUS, ...properties }, required: ["status", ...required] };
+}
+
+export const TOOL_OUTPUT_SCHEMAS: Record<string, ToolOutputSchema> = {
+  create_index: outputSchema({
+    indexId: { type: "string" },
+    indexName: { type: "string" },
+    models: { type: "array", items: INDEX_MODEL },
+    addons: { type: "array", items: { type: "string" } },
+    message: { type: "string" }
+  }, ["indexId", "indexName", "models", "addons"]),
+
+  list_indexes: outputSchema({
+    totalCount: { type: "number", description: "Number of indexes on this page" },
+    indexes: { type: "array", items: INDEX },
+    pageInfo: PAGE_INFO
+  }, ["totalCount", "indexes"]),
+
+  get_index: outputSchema({
+    indexId: { type: "string" },
+    indexName: { type: "string" },
+    models: { type: "array", items: INDEX_MODEL },
+    addons: { type: "array", items: { type: "string" } },
+    videoCount: { type: "number", description: "Number of videos in the index" },
+    totalDuration: { type: "number", description: "Total duration of the indexed videos in seconds" },
+    index: INDEX
+  }, ["indexId", "videoCount", "totalDuration", "index"]),
+
+  update_index: outputSchema({ index: INDEX }, ["index"]),
+
+  delete_index: outputSchema({
+    indexId: { type: "string" },
+    ...DELETION_GUARD,
+    message: { type: "string" }
+  }, ["indexId", "deleted"]),
+
+  list_videos: outputSchema({
+    indexId: { type: "string" },
+    totalCount: { type: "number", description: "Number of videos on this page" },
+    videos: { type: "array", items: VIDEO },
+    pageInfo: PAGE_INFO
+  }, ["indexId", "totalCount", "videos"]),
+
+  get_video: outputSchema({
+    indexId: { type: "string" },
+    videoId: { type: "string" },
+    filename: { type: ["string", "null"] },
+    duration: { type: ["number", "null"], description: "Duration in seconds" },
+    hlsUrl: { type: ["string", "null"] },
+    thumbnailUrls: { type: "array", items: { type: "string" } },
+    userMetadata: { type: "object" },
+    video: VIDEO
+  }, ["indexId", "videoId", "userMetadata", "video"]),
+
+  update_video_metadata: outputSchema({
+    indexId: { type: "string" },
+    videoId: { type: "string" },
+    userMetadata: { type: "object" },
+    message: { type: "string" }
+  }, ["indexId", "videoId", "userMetadata"]),
+
+  delete_video: outputSchema({
+    indexId: { type: "string" },
+    videoId: { type: "string" },
+    ...DELETION_GUARD,
+    message: { type: "string" }
+  }, ["indexId", "videoId", "deleted"]),
+
+  upload_videos: outputSchema({
+    taskId: { type: "string" },
+    videoId: { type: ["string", "null"] },
+    indexId: { type: "string" },
+    message: { type: "string" },
+    taskStatus: { type: "string", description: "Final task status (waitUntilReady only)" },
+    task: { ...TASK, description: "Final task (waitUntilReady only)" }
+  }, ["taskId", "indexId"]),
+
+  batch_upload_videos: outputSchema({
+    indexId: { type: "string" },
+    manifestPath: { type: "string" },
+    statePath: { type: "string", description: "State file used to resume the batch" },
+    total: { type: "number", description: "Items in the manifest" },
+    submitted: { type: "number", description: "Items successfully submitted by this call" },
+    submissionFailed: { type: "number", description: "Items whose submission failed in this call (listed in failed without a taskId)" },
+    ready: { type: "array", items: BATCH_ITEM },
+    failed: { type: "array", items: BATCH_ITEM },
+    pending: { type: "array", items: BATCH_ITEM, description: "Submitted items that are still indexing" },
+    notSubmitted: { type: "array", items: { type: "string" }, description: "Keys of items not submitted yet (maxItems or cancellation)" },
+    timedOut: { type: "boolean" },
+    cancelled: { type: "boolean" },
+    elapsedSec: { type: "number" }
+  }, ["indexId", "manifestPath", "statePath", "total", "submitted", "submissionFailed", "ready", "failed", "pending", "notSubmitted"]),
+
+  import_videos: outputSchema({
+    importId: { type: "string" },
+    usage: USAGE,
+    integrationId: { type: "string" },
+    indexId: { type: "string" },
+    incrementalImport: { type: "boolean" },
+    retryFailed: { type: "boolean" }
+  }, ["integrationId", "indexId"]),
+
+  get_import_status: outputSchema({
+    importStatus: { description: "Import status per video as returned by the API" },
+    integrationId: { type: "string" },
+    indexId: { type: "string" }
+  }, ["integrationId", "indexId"]),
+
+  get_import_logs: outputSchema({
+    importLogs: { description: "Import logs as returned by the API" },
+    integrationId: { type: "string" }
+  }, ["integrationId"]),
+
+  list_tasks: outputSchema({
+    totalCount: { type: "number", description: "Number of tasks on this page" },
+    tasks: { type: "array", items: TASK },
+    pageInfo: PAGE_INFO
+  }, ["totalCount", "tasks"]),
+
+  get_task: outputSchema({ task: TASK }, ["task"]),
+
+  wait_for_task: outputSchema({
+    timedOut: { type: "boolean" },
+    cancelled: { type: "boolean" },
+    elapsedSec: { type: "number" },
+    ready: { type: "array", items: { type: "string" }, description: "IDs of ready tasks" },
+    failed: { type: "array", items: { type: "string" }, description: "IDs of failed tasks" },
+    pending: { type: "array", items: { type: "string" }, description: "IDs of tasks still running" },
+    tasks: { type: "array", items: WAITED_TASK }
+  }, ["timedOut", "cancelled", "elapsedSec", "ready", "failed", "pending", "tasks"]),
+
+  delete_task: outputSchema({
+    taskId: { type: "string" },
+    ...DELETION_GUARD,
+    message: { type: "string" }
+  }, ["taskId", "deleted"]),
+
+  search_videos: outputSchema({
+    totalCount: { type: "number", description: "Number of entries in results" },
+    queryType: { type: "string", enum: ["text", "image", "text+image"] },
+    searchOptions: { type: "array", items: { type: "string" } },
+    operator: { type: "string" },
+    groupBy: { type: "string", enum: ["clip", "video"] },
+    ...SEARCH_PAGES,
+    sources: { type: "array", items: SEARCH_SOURCE, description: "Per-index outcome when several indexes were searched" }
+  }, ["totalCount", "clipCount", "hasMore", "nextPageToken", "results"]),
+
+  search_videos_next_page: outputSchema({
+    totalCount: { type: "number", description: "Number of entries in results" },
+    ...SEARCH_PAGES
+  }, ["totalCount", "clipCount", "hasMore", "nextPageToken", "results"]),
+
+  generate_text: outputSchema({
+    text: { type: "string" },
+    id: { type: "string" },
+    usage: USAGE,
+    videoId: { type: "string" },
+    temperature: { type: "number" },
+    streamed: { type: "boolean" },
+    complete: { type: "boolean", description: "Whether the stream ended normally (stream only)" },
+    cache: CACHE_INFO
+  }, ["text", "videoId"]),
+
+  generate_gist: outputSchema({
+    id: { type: "string" },
+    title: { type: "string" },
+    topics: { type: "array", items: { type: "string" } },
+    hashtags: { type: "array", items: { type: "string" } },
+    usage: USAGE,
+    videoId: { type: "string" },
+    cache: CACHE_INFO
+  }, ["videoId"]),
+
+  generate_summary: outputSchema({
+    id: { type: "string" },
+    type: { type: "string", enum: ["summary", "chapter", "highlight"] },
+    summary: { type: "string", description: "Summary text (type=summary)" },
+    chapters: {
+      type: "array",
+      description: "Chapters in chronological order (type=chapter)",
+      items: apiObject({
+        properties: {
+          chapter_number: { type: "number" },
+          start_sec: { type: "number" },
+          end_sec: { type: "number" },
+          chapter_title: { type: "string" },
+          chapter_summary: { type: "string" }
+        }
+      })
+    },
+    highlights: {
+      type: "array",
+      description: "Highlights in chronological order (type=highlight)",
+      items: apiObject({
+        properties: {
+          start_sec: { type: "number" },
+          end_sec: { type: "number" },
+          highlight: { type: "string" },
+          highlight_summary: { type: "string" }
+        }
+      })
+    },
+    usage: USAGE,
+    videoId: { type: "string" },
+    temperature: { type: "number" },
+    cache: CACHE_INFO
+  }, ["type", "videoId"]),
+
+  export_timeline: outputSchema({
+    format: { type: "string", enum: ["webvtt", "srt", "edl", "youtube", "otio"] },
+    type: { type: "string", enum: ["chapter", "highlight"] },
+    videoId: { type: "string" },
+    generated: { type: "boolean", description: "Whether the chapters/highlights were generated by this call" },
+    entryCount: { type: "number" },
+    entries: {
+      type: "array",
+      description: "Exported ranges after sorting and overlap handling",
+      items: {
+        type: "object",
+        properties: {
+          start: { type: "number" },
+          end: { type: "number" },
+          title: { type: "string" },
+          summary: { type: "string" }
+        },
+        required: ["start", "end", "title"]
+      }
+    },
+    adjustments: { type: "array", items: { type: "string" }, description: "Items that were sorted, dropped, trimmed or merged" },
+    warnings: { type: "array", items: { type: "string" }, description: "Format rules the timeline does not meet (e.g. YouTube chapter rules)" },
+    mimeType: { type: "string" },
+    frameRate: { type: "number" },
+    content: { type: "string", description: "Timeline file content (when outputPath is not set)" },
+    outputPath: { type: "string", description: "Absolute path of the written file" },
+    bytes: { type: "number" }
+  }, ["format", "type", "entryCount", "entries", "adjustments", "warnings"]),
+
+  clear_cache: outputSchema({
+    enabled: { type: "boolean", description: "Whether the result cache is enabled (TWELVELABS_CACHE)" },
+    removed: { type: "number" },
+    removedByStore: { type: "object", additionalProperties: { type: "number" } },
+    remainingByStore: { type: "object", additionalProperties: { type: "number" }, description: "Entries left in each store (all API keys)" },
+    ttlSec: { type: "number" }
+  }, ["enabled", "removed", "removedByStore"]),
+
+  get_usage_report: outputSchema({
+    scope: { type: "string", enum: ["session", "account"] },
+    session: { type: "string", description: "Current MCP session (\"stdio\" for stdio)" },
+    since: { type: ["string", "null"] },
+    until: { type: ["string", "null"] },
+    from: { type: ["string", "null"], description: "Time of the first included record" },
+    to: { type: ["string", "null"], description: "Time of the last included record" },
+    totals: { type: "object", properties: USAGE_TOTALS },
+    groups: {
+      type: "array",
+      description: "Totals per groupBy key, largest first",
+      items: { type: "object", properties: { key: { type: "string" }, ...USAGE_TOTALS }, required: ["key"] }
+    },
+    windows: {
+      type: "array",
+      description: "Totals per hour or day window (UTC), oldest first",
+      items: { type: "object", properties: { start: { type: "string" }, ...USAGE_TOTALS }, required: ["start"] }
+    },
+    budgets: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          metric: { type: "string", enum: ["tokens", "indexedMinutes", "searches"] },
+          scope: { type: "string" },
+          period: { type: "string" },
+          limit: { type: "number" },
+          used: { type: "number" },
+          remaining: { type: "number" },
+          exceeded: { type: "boolean" }
+        }
+      }
+    }
+  }, ["scope", "totals", "budgets"]),
+
+  create_embedding: outputSchema({
+    modelName: { type: "string" },
+    ...EMBEDDINGS
+  }, ["modelName", "segmentCount", "dimensions"]),
+
+  create_video_embedding_task: outputSchema({
+    taskId: { type: "string" },
+    modelName: { type: "string" },
+    message: { type: "string" }
+  }, ["taskId"]),
+
+  get_video_embedding_task: outputSchema({
+    taskId: { type: "string" },
+    taskStatus: { type: "string", description: "processing, ready or failed" },
+    task: { type: "object" }
+  }, ["taskId", "taskStatus"]),
+
+  retrieve_video_embeddings: outputSchema({
+    taskId: { type: "string" },
+    taskStatus: { type: "string" },
+    message: { type: "string", description: "Set when the task is not ready yet" },
+    modelName: { type: "string" },
+    videoMetadata: { type: "object" },
+    ...EMBEDDINGS
+  }, ["taskId", "taskStatus"])
+};
+
+// 사람이 읽는 요약 텍스트에 포함할 최대 항목 수
+const MAX_TEXT_ITEMS = 20;
+
+function formatSeconds(seconds?: number | null) {
+  if (typeof seconds !== "number" || Number.isNaN(seconds)) return "?";
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+function listLines<T>(items: T[] = [], line: (item: T) => string) {
+  const lines = items.slice(0, MAX_TEXT_ITEMS).map((item) => `- ${line(item)}`);
+  if (items.length > MAX_TEXT_ITEMS) {
+    lines.push(`- ... and ${items.length - MAX_TEXT_ITEMS} more (see structured content)`);
+  }
+  return lines;
+}
+
+// 텍스트 요약이 읽는 결과 필드 (선언하지 않은 필드는 structuredContent에만 있음)
+interface DeletionTarget {
+  indexId: string;
+  indexName?: string | null;
+  videoCount?: number;
+  totalDuration?: number;
+  filename?: string | null;
+  taskStatus?: string;
+}
+
+interface DeletionResult {
+  deleted: boolean;
+  target?: DeletionTarget;
+  confirmationToken?: string;
+  expiresAt?: string;
+}
+
+interface SearchSource {
+  indexId: string;
+  indexName?: string | null;
+  clipCount?: number;
+  hasMore?: boolean;
+  nextPageToken?: string | null;
+  error?: string;
+}
+
+interface SearchResult {
+  totalCount: number;
+  clipCount: number;
+  queryType?: string;
+  searchOptions?: string[];
+  groupBy?: string;
+  hasMore: boolean;
+  nextPageToken: string | null;
+  results: (ApiSearchHit & { index_id?: string; index_name?: string | null })[];
+  sources?: SearchSource[];
+}
+
+interface EmbeddingsResult {
+  segmentCount: number;
+  dimensions: number;
+  modelName?: string;
+  outputPath?: string;
+}
+
+interface BatchItemResult {
+  key: string;
+  taskId?: string;
+  taskStatus: string;
+  error?: string;
+}
+
+interface WaitedTaskResult {
+  taskId: string;
+  taskStatus: string;
+  videoId?: string | null;
+  error?: string;
+}
+
+interface UsageTotalsResult {
+  tokens: number;
+  cachedCalls?: number;
+  indexedMinutes: number;
+  indexedVideos: number;
+  searches: number;
+}
+
+interface UsageBudgetResult {
+  metric: string;
+  scope: string;
+  period: string;
+  limit: number;
+  used: number;
+  exceeded?: boolean;
+}
+
+// 도구별 결과 형태. 도구 결과는 outputSchema로 검증되므로 이 형태를 따름
+interface ToolTextResults {
+  create_index: { indexId: string; indexName: string; models: ApiIndexModel[]; addons?: string[] };
+  list_indexes: { totalCount: number; indexes: ApiIndex[]; pageInfo?: ApiPageInfo };
+  get_index: { index: ApiIndex };
+  update_index: { index: ApiIndex };
+  delete_index: DeletionResult;
+  list_videos: { indexId: string; totalCount: number; videos: ApiVideo[]; pageInfo?: ApiPageInfo };
+  get_video: {
+    indexId: string;
+    videoId: string;
+    filename?: string | null;
+    duration?: number | null;
+    hlsUrl?: string | null;
+    userMetadata?: Record<string, unknown>;
+  };
+  update_video_metadata: { videoId: string; userMetadata: Record<string, unknown> };
+  delete_video: DeletionResult & { videoId: string };
+  upload_videos: { taskId: string; videoId?: string | null; indexId: string; taskStatus?: string };
+  batch_upload_videos: {
+    manifestPath: string;
+    statePath: string;
+    total: number;
+    submitted: number;
+    submissionFailed: number;
+    ready: BatchItemResult[];
+    failed: BatchItemResult[];
+    pending: BatchItemResult[];
+    notSubmitted: string[];
+    timedOut?: boolean;
+    cancelled?: boolean;
+  };
+  import_videos: { importId?: string; integrationId: string; indexId: string };
+  get_import_status: { integrationId: string; indexId: string; importStatus?: unknown };
+  get_import_logs: { integrationId: string; importLogs?: unknown };
+  list_tasks: { totalCount: number; tasks: ApiTask[]; pageInfo?: ApiPageInfo };
+  get_task: { task: ApiTask };
+  wait_for_task: {
+    ready: string[];
+    failed: string[];
+    pending: string[];
+    elapsedSec: number;
+    timedOut: boolean;
+    cancelled: boolean;
+    tasks: WaitedTaskResult[];
+  };
+  delete_task: DeletionResult & { taskId: string };
+  search_videos: SearchResult;
+  search_videos_next_page: SearchResult;
+  generate_text: { text: string };
+  generate_gist: ApiGistResponse;
+  generate_summary: ApiSummarizeResponse & { type: string };
+  export_timeline: {
+    format: string;
+    type: string;
+    entryCount: number;
+    adjustments: string[];
+    warnings: string[];
+    outputPath?: string;
+    bytes?: number;
+    content?: string;
+  };
+  clear_cache: { enabled: boolean; removed: number; removedByStore: Record<string, number> };
+  get_usage_report: {
+    scope: string;
+    from?: string | null;
+    to?: string | null;
+    totals: UsageTotalsResult;
+    groups?: (UsageTotalsResult & { key: string })[];
+    windows?: (UsageTotalsResult & { start: string })[];
+    budgets: UsageBudgetResult[];
+  };
+  create_embedding: EmbeddingsResult;
+  create_video_embedding_task: { taskId: string; modelName?: string };
+  get_video_embedding_task: { taskId: string; taskStatus: string };
+  retrieve_video_embeddings: EmbeddingsResult & { taskId: string; taskStatus: string };
+}
+
+function pageSummary(pageInfo?: ApiPageInfo) {
+  return pageInfo?.total_page ? ` (page ${pageInfo.page ?? 1} of ${pageInfo.total_page})` : "";
+}
+
+function describeModels(models: ApiIndexModel[] = []) {
+  return models.map((m) => `${m.model_name} [${(m.model_options || []).join(", ")}]`).join(", ") || "none";
+}
+
+function describeIndex(index?: ApiIndex) {
+  return `${index?.index_name ?? "?"} (${index?._id ?? "?"}): ${index?.video_count ?? 0} videos, ` +
+    `${formatSeconds(index?.total_duration)} total, models: ${describeModels(index?.models)}`;
+}
+
+function describeDeletionIndex(target?: DeletionTarget) {
+  if (!target) return "?";
+  const name = target.indexName ? `${target.indexName} (${target.indexId})` : target.indexId;
+  return target.videoCount !== undefined ? `${name}, ${target.videoCount} videos, ${formatSeconds(target.totalDuration)} total` : name;
+}
+
+function renderDeletion(result: DeletionResult, what: string) {
+  if (result.deleted) {
+    return `Deleted ${what}`;
+  }
+  return [
+    `Not deleted (preview): would delete ${what}`,
+    ...(result.confirmationToken
+      ? [`To delete, call again with the same arguments and confirmationToken "${result.confirmationToken}" before ${result.expiresAt}`]
+      : [])
+  ].join("\n");
+}
+
+function describeClip(clip: ApiSearchClip) {
+  return `${formatSeconds(clip.start)}-${formatSeconds(clip.end)}` +
+    (clip.rank !== undefined ? ` rank ${clip.rank}` : "") +
+    (clip.confidence ? ` (${clip.confidence})` : "");
+}
+
+function renderSearch(result: SearchResult) {
+  const header = `${result.clipCount} clips in ${result.totalCount} results` +
+    (result.queryType ? ` (${result.queryType} query, ${(result.searchOptions || []).join("+")}, grouped by ${result.groupBy})` : "");
+  const lines = listLines(result.results, (hit) =>
+    (hit.index_id ? `[${hit.index_name ?? hit.index_id}] ` : "") +
+    (Array.isArray(hit.clips)
+      ? `video ${hit.id}: ${hit.clips.length} clips, best ${hit.clips[0] ? describeClip(hit.clips[0]) : "-"}`
+      : `video ${hit.video_id} ${describeClip(hit)}`)
+  );
+  if (Array.isArray(result.sources)) {
+    const sources = result.sources.map((source) => {
+      const label = `index ${source.indexName ?? source.indexId}`;
+      if (source.error) return `${label}: failed (${source.error})`;
+      return `${label}: ${source.clipCount} clips` +
+        (source.hasMore ? `, more with search_videos_next_page pageToken "${source.nextPageToken}"` : "");
+    });
+    return [`${header} across ${result.sources.length} indexes`, ...lines, ...sources].join("\n");
+  }
+  const footer = result.hasMore ? [`More results: search_videos_next_page with pageToken "${result.nextPageToken}"`] : [];
+  return [header, ...lines, ...footer].join("\n");
+}
+
+function renderEmbeddings(result: EmbeddingsResult) {
+  const lines = [`${result.segmentCount} embedding segments, ${result.dimensions} dimensions (${result.modelName ?? "?"})`];
+  if (result.outputPath) lines.push(`Written to ${result.outputPath}`);
+  return lines.join("\n");
+}
+
+const TEXT_RENDERERS: { [Tool in keyof ToolTextResults]: (result: ToolTextResults[Tool]) => string } = {
+  create_index: (r) => `Created index ${r.indexName} (${r.indexId}) with models ${describeModels(r.models)}; addons: ${(r.addons || []).join(", ") || "none"}`,
+  list_indexes: (r) => [`${r.totalCount} indexes${pageSummary(r.pageInfo)}`, ...listLines(r.indexes, describeIndex)].join("\n"),
+  get_index: (r) => `Index ${describeIndex(r.index)}`,
+  update_index: (r) => `Updated index ${describeIndex(r.index)}`,
+  delete_index: (r) => renderDeletion(r, `index ${describeDeletionIndex(r.target)}`),
+  list_videos: (r) => [
+    `${r.totalCount} videos in index ${r.indexId}${pageSummary(r.pageInfo)}`,
+    ...listLines(r.videos, (v) => `${v.system_metadata?.filename ?? "?"} (${v._id}): ${formatSeconds(v.system_metadata?.duration)}`)
+  ].join("\n"),
+  get_video: (r) => [
+    `Video ${r.filename ?? "?"} (${r.videoId}) in index ${r.indexId}: ${formatSeconds(r.duration)}`,
+    ...(r.hlsUrl ? [`HLS: ${r.hlsUrl}`] : []),
+    ...(Object.keys(r.userMetadata || {}).length > 0 ? [`User metadata: ${JSON.stringify(r.userMetadata)}`] : [])
+  ].join("\n"),
+  update_video_metadata: (r) => `Updated metadata of video ${r.videoId}: ${JSON.stringify(r.userMetadata)}`,
+  delete_video: (r) =>
+    renderDeletion(r, `video ${r.videoId}${r.target?.filename ? ` (${r.target.filename})` : ""} from index ${describeDeletionIndex(r.target)}`),
+  upload_videos: (r) => `Indexing task ${r.taskId} for video ${r.videoId ?? "(pending)"} in index ${r.indexId}` +
+    (r.taskStatus ? `: ${r.taskStatus}` : " started"),
+  batch_upload_videos: (r) => [
+    `Batch ${r.manifestPath}: ${r.ready.length} ready, ${r.failed.length} failed, ${r.pending.length} pending, ` +
+      `${r.notSubmitted.length} not submitted (${r.submitted} submitted now, ${r.submissionFailed} failed to submit, ${r.total} total)` +
+      (r.timedOut ? " (timed out)" : "") + (r.cancelled ? " (cancelled)" : ""),
+    ...listLines(r.failed, (i) =>
+      i.taskId ? `failed ${i.key} (task ${i.taskId}): ${i.error ?? i.taskStatus}` : `failed to submit ${i.key}: ${i.error ?? i.taskStatus}`),
+    `State: ${r.statePath} (call again to resume)`
+  ].join("\n"),
+  import_videos: (r) => `Import ${r.importId || "(no id)"} started from integration ${r.integrationId} into index ${r.indexId}`,
+  get_import_status: (r) => `Import status for integration ${r.integrationId}, index ${r.indexId}:\n${JSON.stringify(r.importStatus, null, 2)}`,
+  get_import_logs: (r) => `Import logs for integration ${r.integrationId}:\n${JSON.stringify(r.importLogs, null, 2)}`,
+  list_tasks: (r) => [
+    `${r.totalCount} tasks${pageSummary(r.pageInfo)}`,
+    ...listLines(r.tasks, (t) => `${t._id}: ${t.status} (video ${t.video_id ?? "-"}, index ${t.index_id ?? "-"})`)
+  ].join("\n"),
+  get_task: (r) => `Task ${r.task?._id}: ${r.task?.status} (video ${r.task?.video_id ?? "-"}, index ${r.task?.index_id ?? "-"})`,
+  wait_for_task: (r) => [
+    `${r.ready.length} ready, ${r.failed.length} failed, ${r.pending.length} pending after ${r.elapsedSec}s` +
+      (r.timedOut ? " (timed out)" : "") + (r.cancelled ? " (cancelled)" : ""),
+    ...listLines(r.tasks, (t) => `${t.taskId}: ${t.taskStatus}${t.videoId ? ` (video ${t.videoId})` : ""}${t.error ? ` - ${t.error}` : ""}`)
+  ].join("\n"),
+  delete_task: (r) =>
+    renderDeletion(r, `task ${r.taskId}${r.target?.taskStatus ? ` (${r.target.taskStatus})` : ""} of index ${describeDeletionIndex(r.target)}`),
+  search_videos: renderSearch,
+  search_videos_next_page: renderSearch,
+  generate_text: (r) => r.text || "(empty response)",
+  generate_gist: (r) => [
+    ...(r.title ? [`Title: ${r.title}`] : []),
+    ...(r.topics?.length ? [`Topics: ${r.topics.join(", ")}`] : []),
+    ...(r.hashtags?.length ? [`Hashtags: ${r.hashtags.map((h) => `#${h.replace(/^#/, "")}`).join(" ")}`] : [])
+  ].join("\n") || "(empty response)",
+  generate_summary: (r) => {
+    if (r.type === "chapter") {
+      return (r.chapters || []).map((c) =>
+        `[${formatSeconds(c.start_sec ?? c.start)}-${formatSeconds(c.end_sec ?? c.end)}] ${c.chapter_title ?? c.chapter ?? ""}: ${c.chapter_summary ?? ""}`
+      ).join("\n") || "(no chapters)";
+    }
+    if (r.type === "highlight") {
+      return (r.highlights || []).map((h) =>
+        `[${formatSeconds(h.start_sec ?? h.start)}-${formatSeconds(h.end_sec ?? h.end)}] ${h.highlight ?? ""}${h.highlight_summary ? `: ${h.highlight_summary}` : ""}`
+      ).join("\n") || "(no highlights)";
+    }
+    return r.summary || "(empty response)";
+  },
+  export_timeline: (r) => [
+    `Exported ${r.entryCount} ${r.type === "chapter" ? "chapters" : "highlights"} as ${r.format}` +
+      (r.outputPath ? ` to ${r.outputPath} (${r.bytes} bytes)` : ""),
+    ...listLines(r.adjustments, (a) => a),
+    ...listLines(r.warnings, (w) => `Warning: ${w}`),
+    ...(r.content !== undefined ? ["", r.content] : [])
+  ].join("\n"),
+  clear_cache: (r) => r.enabled
+    ? `Removed ${r.removed} cached results (${Object.entries(r.removedByStore).map(([store, count]) => `${store}: ${count}`).join(", ")})`
+    : "Result cache is disabled (TWELVELABS_CACHE=off)",
+  get_usage_report: (r) => {
+    const describe = (t: UsageTotalsResult) => `${t.tokens} tokens${t.cachedCalls ? ` (${t.cachedCalls} cached calls)` : ""}, ` +
+      `${t.indexedMinutes} min indexed (${t.indexedVideos} videos), ${t.searches} searches`;
+    return [
+      `Usage (${r.scope}${r.from ? `, ${r.from} - ${r.to}` : ", no records"}): ${describe(r.totals)}`,
+      ...listLines(r.groups, (g) => `${g.key}: ${describe(g)}`),
+      ...listLines(r.windows, (w) => `${w.start}: ${describe(w)}`),
+      ...r.budgets.map((b) => `Budget ${b.metric} (${b.scope}, ${b.period}): ${b.used} / ${b.limit}${b.exceeded ? " - EXCEEDED" : ""}`)
+    ].join("\n");
+  },
+  create_embedding: renderEmbeddings,
+  create_video_embedding_task: (r) => `Video embedding task ${r.taskId} started (${r.modelName})`,
+  get_video_embedding_task: (r) => `Video embedding task ${r.taskId}: ${r.taskStatus}`,
+  retrieve_video_embeddings: (r) => r.taskStatus !== "ready" ? `Video embedding task ${r.taskId} is ${r.taskStatus}; not ready yet` : renderEmbeddings(r)
+};
+
+/**
+ * 도구 결과를 사람이 읽기 쉬운 짧은 텍스트로 만듭니다. 전체 데이터는 structuredContent에 있습니다.
+ */
+export function renderToolText(toolName: string, result: unknown): string {
+  if (!Object.prototype.hasOwnProperty.call(TEXT_RENDERERS, toolName)) {
+    return JSON.stringify(result, null, 2);
+  }
+  // 결과는 도구의 outputSchema를 따르므로 그 도구의 결과 형태로 읽음
+  const render = TEXT_RENDERERS[toolName as keyof ToolTextResults] as (result: unknown) => string;
+  return render(result);
+}
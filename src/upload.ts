@@ -0,0 +1,313 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import { Readable } from "node:stream";
+import { ValidationError } from "./errors.js";
+
+/**
+ * 로컬 비디오 파일을 TwelveLabs /tasks 엔드포인트에 multipart/form-data로
+ * 스트리밍 업로드하기 위한 헬퍼 모음입니다.
+ * 파일 전체를 메모리에 올리지 않고 디스크에서 바로 읽어 전송합니다.
+ * 검색용 이미지 쿼리, 임베딩용 오디오 파일의 경로 해석과 검증도 함께 담당합니다.
+ */
+
+// 상대 경로의 기준이 되는 데이터 디렉터리 (docker-compose.yml의 /app/data 볼륨)
+export const DATA_DIR = path.resolve(process.env.TWELVELABS_DATA_DIR || "/app/data");
+
+// TwelveLabs가 지원하는 비디오 컨테이너 확장자
+export const SUPPORTED_VIDEO_EXTENSIONS = [
+  ".mp4", ".mov", ".avi", ".mkv", ".webm", ".m4v", ".wmv", ".flv",
+  ".mpeg", ".mpg", ".3gp", ".ts", ".mts", ".m2ts", ".ogv"
+];
+
+// 로컬 파일 업로드 최대 크기 (기본 2GB, TWELVELABS_MAX_UPLOAD_BYTES로 변경 가능)
+export const MAX_UPLOAD_BYTES = Number(process.env.TWELVELABS_MAX_UPLOAD_BYTES) || 2 * 1024 * 1024 * 1024;
+
+// 이미지 쿼리로 사용할 수 있는 확장자와 MIME 타입
+export const SUPPORTED_IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp"
+};
+
+// 이미지 쿼리 최대 크기 (5MB)
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// 오디오 임베딩에 사용할 수 있는 확장자와 MIME 타입
+export const SUPPORTED_AUDIO_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".m4a": "audio/mp4",
+  ".aac": "audio/aac",
+  ".flac": "audio/flac",
+  ".ogg": "audio/ogg"
+};
+
+// 오디오 파일 최대 크기 (500MB)
+export const MAX_AUDIO_BYTES = 500 * 1024 * 1024;
+
+export interface LocalFile {
+  absolutePath: string;
+  fileName: string;
+  size: number;
+  mimeType?: string;
+}
+
+export interface LocalImageFile extends LocalFile {
+  mimeType: string;
+}
+
+export interface LocalAudioFile extends LocalFile {
+  mimeType: string;
+}
+
+export type LocalVideoFile = LocalFile;
+
+export interface MultipartBody {
+  body: Readable;
+  contentType: string;
+  contentLength: number;
+}
+
+// 업로드 진행 상황 콜백 (전송된 바이트, 전체 바이트)
+export type UploadProgressCallback = (sentBytes: number, totalBytes: number) => void;
+
+// 절대 경로가 DATA_DIR 아래(DATA_DIR 자체 제외)에 있는지 확인
+export function isInsideDataDir(absolutePath: string): boolean {
+  const relative = path.relative(DATA_DIR, absolutePath);
+  return relative !== "" && relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// DATA_DIR 밖의 절대 경로 읽기 허용 여부. 원격 클라이언트가 접속하는 HTTP 모드에서는 끔
+let allowReadsOutsideDataDir = true;
+
+/**
+ * 읽을 파일도 DATA_DIR 안으로 제한합니다.
+ * HTTP 모드에서는 누구나 자기 API 키로 호출할 수 있으므로 호스트의 다른 파일을 업로드하거나 읽지 못하게 합니다.
+ */
+export function restrictReadsToDataDir() {
+  allowReadsOutsideDataDir = false;
+}
+
+/**
+ * 읽을 파일의 경로를 해석합니다. 상대 경로는 DATA_DIR 아래로 해석하고, DATA_DIR 밖으로 벗어나는 상대 경로는 거부합니다.
+ * 절대 경로는 그대로 사용하되, restrictReadsToDataDir() 이후에는 DATA_DIR 안만 허용합니다.
+ */
+export function resolveDataPath(filePath: string): string {
+  if (path.isAbsolute(filePath) && allowReadsOutsideDataDir) {
+    return path.resolve(filePath);
+  }
+  const absolutePath = path.resolve(DATA_DIR, filePath);
+  if (!isInsideDataDir(absolutePath)) {
+    throw new ValidationError(`데이터 디렉터리(${DATA_DIR}) 밖의 경로는 사용할 수 없습니다: ${filePath}`);
+  }
+  return absolutePath;
+}
+
+/**
+ * 쓸 파일의 경로를 해석합니다. 상대 경로는 DATA_DIR 아래로 해석하고,
+ * 절대 경로를 포함해 DATA_DIR 밖을 가리키는 경로는 모두 거부합니다.
+ */
+export function resolveDataWritePath(filePath: string): string {
+  const absolutePath = path.resolve(DATA_DIR, filePath);
+  if (!isInsideDataDir(absolutePath)) {
+    throw new ValidationError(`데이터 디렉터리(${DATA_DIR}) 밖에는 파일을 쓸 수 없습니다: ${filePath}`);
+  }
+  return absolutePath;
+}
+
+// 일반 파일인지, 비어 있지 않은지, 최대 크기 이하인지 확인하고 크기를 반환
+async function checkFileSize(absolutePath: string, maxBytes: number): Promise<number> {
+  let stats;
+  try {
+    stats = await stat(absolutePath);
+  } catch (e) {
+    throw new ValidationError(`파일을 찾을 수 없습니다: ${absolutePath}`);
+  }
+  if (!stats.isFile()) {
+    throw new ValidationError(`일반 파일이 아닙니다: ${absolutePath}`);
+  }
+  if (stats.size === 0) {
+    throw new ValidationError(`빈 파일은 업로드할 수 없습니다: ${absolutePath}`);
+  }
+  if (stats.size > maxBytes) {
+    throw new ValidationError(
+      `파일이 너무 큽니다: ${stats.size} bytes (최대 ${maxBytes} bytes)`
+    );
+  }
+  return stats.size;
+}
+
+/**
+ * 비디오 파일 경로를 해석하고 확장자/크기를 검증합니다.
+ */
+export async function resolveLocalVideoFile(filePath: string): Promise<LocalVideoFile> {
+  const absolutePath = resolveDataPath(filePath);
+
+  const extension = path.extname(absolutePath).toLowerCase();
+  if (!SUPPORTED_VIDEO_EXTENSIONS.includes(extension)) {
+    throw new ValidationError(
+      `지원하지 않는 파일 형식입니다: ${extension || "(확장자 없음)"}. ` +
+      `지원 형식: ${SUPPORTED_VIDEO_EXTENSIONS.join(", ")}`
+    );
+  }
+
+  const size = await checkFileSize(absolutePath, MAX_UPLOAD_BYTES);
+
+  return {
+    absolutePath,
+    fileName: path.basename(absolutePath),
+    size
+  };
+}
+
+/**
+ * 이미지 쿼리 파일 경로를 해석하고 확장자/크기를 검증합니다.
+ */
+export async function resolveLocalImageFile(filePath: string): Promise<LocalImageFile> {
+  const absolutePath = resolveDataPath(filePath);
+
+  const extension = path.extname(absolutePath).toLowerCase();
+  const mimeType = SUPPORTED_IMAGE_TYPES[extension];
+  if (!mimeType) {
+    throw new ValidationError(
+      `지원하지 않는 이미지 형식입니다: ${extension || "(확장자 없음)"}. ` +
+      `지원 형식: ${Object.keys(SUPPORTED_IMAGE_TYPES).join(", ")}`
+    );
+  }
+
+  const size = await checkFileSize(absolutePath, MAX_IMAGE_BYTES);
+
+  return {
+    absolutePath,
+    fileName: path.basename(absolutePath),
+    mimeType,
+    size
+  };
+}
+
+/**
+ * 오디오 파일 경로를 해석하고 확장자/크기를 검증합니다.
+ */
+export async function resolveLocalAudioFile(filePath: string): Promise<LocalAudioFile> {
+  const absolutePath = resolveDataPath(filePath);
+
+  const extension = path.extname(absolutePath).toLowerCase();
+  const mimeType = SUPPORTED_AUDIO_TYPES[extension];
+  if (!mimeType) {
+    throw new ValidationError(
+      `지원하지 않는 오디오 형식입니다: ${extension || "(확장자 없음)"}. ` +
+      `지원 형식: ${Object.keys(SUPPORTED_AUDIO_TYPES).join(", ")}`
+    );
+  }
+
+  const size = await checkFileSize(absolutePath, MAX_AUDIO_BYTES);
+
+  return {
+    absolutePath,
+    fileName: path.basename(absolutePath),
+    mimeType,
+    size
+  };
+}
+
+/**
+ * 텍스트 필드와 파일 하나로 구성된 multipart/form-data 본문을 스트림으로 만듭니다.
+ * Content-Length를 미리 계산하므로 chunked 전송 없이도 서버가 크기를 알 수 있습니다.
+ */
+export function createMultipartFileBody(
+  fields: Record<string, string | string[]>,
+  fileField: string,
+  file: LocalFile,
+  onProgress?: UploadProgressCallback
+): MultipartBody {
+  const boundary = `----twelvelabs-mcp-${randomBytes(12).toString("hex")}`;
+
+  let preamble = "";
+  for (const [name, value] of Object.entries(fields)) {
+    // 배열 값은 같은 필드명을 반복해서 전송
+    for (const item of Array.isArray(value) ? value : [value]) {
+      preamble +=
+        `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="${name}"\r\n\r\n` +
+        `${item}\r\n`;
+    }
+  }
+  preamble +=
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="${fileField}"; filename="${file.fileName.replace(/"/g, "%22")}"\r\n` +
+    `Content-Type: ${file.mimeType || "application/octet-stream"}\r\n\r\n`;
+  const epilogue = `\r\n--${boundary}--\r\n`;
+
+  const head = Buffer.from(preamble, "utf8");
+  const tail = Buffer.from(epilogue, "utf8");
+
+  async function* generate() {
+    yield head;
+    let sent = 0;
+    for await (const chunk of createReadStream(file.absolutePath, { highWaterMark: 1024 * 1024 })) {
+      sent += (chunk as Buffer).length;
+      onProgress?.(sent, file.size);
+      yield chunk as Buffer;
+    }
+    yield tail;
+  }
+
+  return {
+    body: Readable.from(generate()),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: head.length + file.size + tail.length
+  };
+}
+
+/**
+ * base64 문자열(또는 data: URL)로 전달된 이미지 쿼리를 디코딩하고 검증합니다.
+ * MIME 타입은 data: URL 접두어나 파일 시그니처로 판별합니다.
+ */
+export function decodeBase64Image(data: string): { buffer: Buffer; mimeType: string; fileName: string } {
+  let mimeType: string | undefined;
+  let payload = data.trim();
+  const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(payload);
+  if (dataUrl) {
+    mimeType = dataUrl[1].toLowerCase();
+    payload = dataUrl[2];
+  }
+
+  const buffer = Buffer.from(payload.replace(/\s/g, ""), "base64");
+  if (buffer.length === 0) {
+    throw new ValidationError("base64 이미지 데이터가 비어 있거나 올바르지 않습니다.");
+  }
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    throw new ValidationError(`이미지가 너무 큽니다: ${buffer.length} bytes (최대 ${MAX_IMAGE_BYTES} bytes)`);
+  }
+
+  mimeType = mimeType ?? sniffImageMimeType(buffer);
+  const extension = Object.entries(SUPPORTED_IMAGE_TYPES).find(([, type]) => type === mimeType)?.[0];
+  if (!mimeType || !extension) {
+    throw new ValidationError(
+      `지원하지 않는 이미지 형식입니다: ${mimeType ?? "(알 수 없음)"}. ` +
+      `지원 형식: ${[...new Set(Object.values(SUPPORTED_IMAGE_TYPES))].join(", ")}`
+    );
+  }
+
+  return { buffer, mimeType, fileName: `query${extension}` };
+}
+
+function sniffImageMimeType(buffer: Buffer): string | undefined {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (buffer.length >= 12 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (buffer.length >= 2 && buffer.toString("ascii", 0, 2) === "BM") {
+    return "image/bmp";
+  }
+  return undefined;
+}
@@ -0,0 +1,424 @@
+import { existsSync, readFileSync } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { BudgetExceededError } from "./errors.js";
+import type { ServerConfig } from "./config.js";
+import { logger } from "./logger.js";
+import type { ApiUsage } from "./apiTypes.js";
+
+/**
+ * 도구 호출의 사용량(비용) 기록.
+ * 생성 토큰, 인덱싱된 영상 길이, 검색 요청 수를 API 키(계정)와 MCP 세션별로 기록하고,
+ * 인덱스/영상/도구/세션별, 시간 구간별 보고서와 예산(한도를 넘으면 도구 호출 거부)을 제공합니다.
+ * 기록은 메모리에 그대로 쌓지 않고 1분 구간별 합계로 모으며, 예산은 범위(세션/계정)별 카운터로 바로 확인합니다.
+ * 기록 파일(usage.ledger, TWELVELABS_USAGE_LEDGER)을 지정하면 기록을 JSONL 파일에 모아서 비동기로 덧붙여 서버를 다시 시작해도 유지합니다.
+ */
+
+export interface UsageRecord {
+  time: string;
+  // API 키 해시 (TwelveLabsClient.accountId)
+  account: string;
+  // MCP 세션 ID (stdio는 "stdio")
+  session: string;
+  tool: string;
+  indexId?: string;
+  videoId?: string;
+  taskId?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  tokens?: number;
+  // 인덱싱이 끝난 영상의 길이 (초)
+  indexedSec?: number;
+  searches?: number;
+  // 결과 캐시에서 돌려준 호출 (비용 없음)
+  cached?: boolean;
+}
+
+export type UsageMetric = "tokens" | "indexedMinutes" | "searches";
+export type UsageScope = "session" | "account";
+export type UsageWindow = "hour" | "day";
+export type UsageGroupBy = "index" | "video" | "tool" | "session";
+
+export interface UsageBudget {
+  metric: UsageMetric;
+  limit: number;
+  // session: 세션마다 따로, account: 같은 API 키의 모든 세션 합산 (기본: session)
+  scope?: UsageScope;
+  // 한도를 적용하는 기간. total은 기록 전체, hour/day는 최근 1시간/24시간 (기본: total)
+  period?: "total" | "hour" | "day";
+}
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  tokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  indexedVideos: number;
+  indexedMinutes: number;
+  searches: number;
+}
+
+export interface UsageReportOptions {
+  account: string;
+  // 지정하면 이 세션의 기록만 집계
+  session?: string;
+  // 1분 단위로 적용 (기록이 1분 구간별 합계로 모여 있음)
+  since?: Date;
+  until?: Date;
+  groupBy?: UsageGroupBy;
+  window?: UsageWindow;
+}
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  tokens: "generated tokens",
+  indexedMinutes: "indexed video minutes",
+  searches: "search requests"
+};
+
+const PERIOD_MS = { hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 };
+const MINUTE_MS = 60 * 1000;
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cachedCalls: 0, tokens: 0, inputTokens: 0, outputTokens: 0, indexedVideos: 0, indexedMinutes: 0, searches: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+  totals.calls++;
+  if (record.cached) totals.cachedCalls++;
+  totals.tokens += record.tokens ?? 0;
+  totals.inputTokens += record.inputTokens ?? 0;
+  totals.outputTokens += record.outputTokens ?? 0;
+  if (record.indexedSec !== undefined) {
+    totals.indexedVideos++;
+    totals.indexedMinutes = Math.round((totals.indexedMinutes + record.indexedSec / 60) * 100) / 100;
+  }
+  totals.searches += record.searches ?? 0;
+  return totals;
+}
+
+function mergeTotals(totals: UsageTotals, other: UsageTotals) {
+  totals.calls += other.calls;
+  totals.cachedCalls += other.cachedCalls;
+  totals.tokens += other.tokens;
+  totals.inputTokens += other.inputTokens;
+  totals.outputTokens += other.outputTokens;
+  totals.indexedVideos += other.indexedVideos;
+  totals.indexedMinutes = Math.round((totals.indexedMinutes + other.indexedMinutes) * 100) / 100;
+  totals.searches += other.searches;
+  return totals;
+}
+
+function metricValue(totals: UsageTotals, metric: UsageMetric) {
+  return totals[metric];
+}
+
+function windowStart(time: string, window: UsageWindow) {
+  // UTC 기준 시간/일 구간의 시작 시각
+  return window === "hour" ? `${time.substring(0, 13)}:00:00.000Z` : `${time.substring(0, 10)}T00:00:00.000Z`;
+}
+
+// 보고서 집계 단위: 계정, 세션, 도구, 인덱스, 영상별 1분 구간의 합계
+interface UsageBucket {
+  account: string;
+  session: string;
+  tool: string;
+  indexId?: string;
+  videoId?: string;
+  // 구간 시작 시각 (ms)
+  minute: number;
+  // 구간 안의 첫 기록과 마지막 기록 시각
+  first: string;
+  last: string;
+  totals: UsageTotals;
+}
+
+// 예산 확인용 카운터: 전체 합계와 최근 24시간의 1분 구간별 합계
+interface BudgetCounter {
+  total: UsageTotals;
+  minutes: Map<number, UsageTotals>;
+}
+
+function groupKey(bucket: UsageBucket, groupBy: UsageGroupBy) {
+  const value = groupBy === "index" ? bucket.indexId : groupBy === "video" ? bucket.videoId : groupBy === "tool" ? bucket.tool : bucket.session;
+  return value ?? "(unknown)";
+}
+
+/**
+ * API 응답의 usage 객체에서 토큰 수를 읽습니다 (input_tokens, output_tokens, total_tokens).
+ */
+export function tokensFromUsage(usage: unknown): Pick<UsageRecord, "inputTokens" | "outputTokens" | "tokens"> {
+  const counts: ApiUsage = typeof usage === "object" && usage !== null ? (usage as ApiUsage) : {};
+  const inputTokens = Number(counts.input_tokens) || 0;
+  const outputTokens = Number(counts.output_tokens) || 0;
+  const tokens = Number(counts.total_tokens) || inputTokens + outputTokens;
+  return { inputTokens, outputTokens, tokens };
+}
+
+export interface UsageLedgerOptions {
+  // 기록을 덧붙일 JSONL 파일 (없으면 메모리에만 기록)
+  file?: string;
+  budgets?: UsageBudget[];
+}
+
+export function createUsageLedger(options: UsageLedgerOptions = {}, now: () => number = Date.now) {
+  const buckets = new Map<string, UsageBucket>();
+  const budgets = options.budgets ?? [];
+  // 범위별 예산 카운터 (키: "session\t계정\t세션" 또는 "account\t계정")
+  const budgetCounters = new Map<string, BudgetCounter>();
+  // 파일에 아직 쓰지 않은 기록 (JSONL 줄)과 진행 중인 쓰기
+  let pendingLines: string[] = [];
+  let writing: Promise<void> | undefined;
+  // 인덱싱 사용량은 작업마다 한 번만 기록 (계정별 작업 ID)
+  const indexedTasks = new Set<string>();
+  // 인덱싱이 아직 기록되지 않은 작업을 제출한 세션과 도구. 나중에 다른 경로(리소스 조회, 구독)에서 ready를 봐도 제출한 쪽에 기록
+  const taskSubmitters = new Map<string, { session: string; tool: string }>();
+  // 생성/검색 기록에는 영상 ID만 있으므로, 인덱싱 기록에서 알게 된 영상의 인덱스를 채워 인덱스별 집계에 포함
+  const videoIndexes = new Map<string, string>();
+
+  function budgetCounterKey(scope: UsageScope, account: string, session: string) {
+    return scope === "session" ? `session\t${account}\t${session}` : `account\t${account}`;
+  }
+
+  function countForBudgets(scope: UsageScope, record: UsageRecord, minute: number) {
+    const key = budgetCounterKey(scope, record.account, record.session);
+    let counter = budgetCounters.get(key);
+    if (!counter) {
+      counter = { total: emptyTotals(), minutes: new Map() };
+      budgetCounters.set(key, counter);
+    }
+    addRecord(counter.total, record);
+    if (minute >= now() - PERIOD_MS.day) {
+      counter.minutes.set(minute, addRecord(counter.minutes.get(minute) ?? emptyTotals(), record));
+    }
+  }
+
+  function remember(record: UsageRecord) {
+    if (record.taskId) {
+      const taskKey = `${record.account}:${record.taskId}`;
+      if (record.indexedSec !== undefined) {
+        indexedTasks.add(taskKey);
+        taskSubmitters.delete(taskKey);
+      } else if (!indexedTasks.has(taskKey)) {
+        taskSubmitters.set(taskKey, { session: record.session, tool: record.tool });
+      }
+    }
+    if (record.videoId && record.indexId) videoIndexes.set(record.videoId, record.indexId);
+
+    const minute = Math.floor(Date.parse(record.time) / MINUTE_MS) * MINUTE_MS;
+    const key = [record.account, record.session, record.tool, record.indexId ?? "", record.videoId ?? "", minute].join("\t");
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        account: record.account,
+        session: record.session,
+        tool: record.tool,
+        indexId: record.indexId,
+        videoId: record.videoId,
+        minute,
+        first: record.time,
+        last: record.time,
+        totals: emptyTotals()
+      };
+      buckets.set(key, bucket);
+    }
+    if (record.time < bucket.first) bucket.first = record.time;
+    if (record.time > bucket.last) bucket.last = record.time;
+    addRecord(bucket.totals, record);
+
+    if (budgets.length > 0) {
+      countForBudgets("session", record, minute);
+      countForBudgets("account", record, minute);
+    }
+  }
+
+  if (options.file && existsSync(options.file)) {
+    let loaded = 0;
+    for (const line of readFileSync(options.file, "utf8").split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        remember(JSON.parse(line) as UsageRecord);
+        loaded++;
+      } catch {
+        logger.warn(`사용량 기록 파싱 오류 (무시): ${line.substring(0, 200)}`);
+      }
+    }
+    logger.info(`사용량 기록 로드 완료: ${loaded}건 (${options.file})`);
+  }
+
+  // 쌓인 기록을 한 번에 덧붙이고, 쓰는 동안 새로 쌓인 기록이 있으면 이어서 씀
+  async function writePending(file: string) {
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      while (pendingLines.length > 0) {
+        const lines = pendingLines;
+        pendingLines = [];
+        try {
+          await appendFile(file, lines.join(""), "utf8");
+        } catch (e) {
+          logger.error(`사용량 기록 저장 오류 (${file}, ${lines.length}건): ${e}`);
+        }
+      }
+    } catch (e) {
+      logger.error(`사용량 기록 저장 오류 (${file}): ${e}`);
+      pendingLines = [];
+    } finally {
+      writing = undefined;
+    }
+  }
+
+  function select(filter: { account: string; session?: string; since?: Date; until?: Date }) {
+    const since = filter.since ? Math.floor(filter.since.getTime() / MINUTE_MS) * MINUTE_MS : undefined;
+    const until = filter.until?.getTime();
+    return [...buckets.values()]
+      .filter((bucket) =>
+        bucket.account === filter.account &&
+        (!filter.session || bucket.session === filter.session) &&
+        (since === undefined || bucket.minute >= since) &&
+        (until === undefined || bucket.minute < until)
+      )
+      .sort((a, b) => a.minute - b.minute);
+  }
+
+  function budgetTotals(scope: UsageScope, period: "total" | "hour" | "day", account: string, session: string) {
+    const counter = budgetCounters.get(budgetCounterKey(scope, account, session));
+    if (!counter) {
+      return emptyTotals();
+    }
+    if (period === "total") {
+      return counter.total;
+    }
+    // 24시간이 지난 구간은 버리고, 기간 안의 구간만 합산
+    const dayStart = Math.floor((now() - PERIOD_MS.day) / MINUTE_MS) * MINUTE_MS;
+    for (const minute of counter.minutes.keys()) {
+      if (minute < dayStart) counter.minutes.delete(minute);
+    }
+    const since = Math.floor((now() - PERIOD_MS[period]) / MINUTE_MS) * MINUTE_MS;
+    const totals = emptyTotals();
+    for (const [minute, minuteTotals] of counter.minutes) {
+      if (minute >= since) mergeTotals(totals, minuteTotals);
+    }
+    return totals;
+  }
+
+  function budgetUsage(budget: UsageBudget, account: string, session: string) {
+    const scope = budget.scope ?? "session";
+    const period = budget.period ?? "total";
+    const used = metricValue(budgetTotals(scope, period, account, session), budget.metric);
+    return {
+      metric: budget.metric,
+      scope,
+      period,
+      limit: budget.limit,
+      used,
+      remaining: Math.max(0, Math.round((budget.limit - used) * 100) / 100),
+      exceeded: used >= budget.limit
+    };
+  }
+
+  return {
+    record(record: Omit<UsageRecord, "time">) {
+      const indexId = record.indexId ?? (record.videoId ? videoIndexes.get(record.videoId) : undefined);
+      const entry: UsageRecord = { time: new Date(now()).toISOString(), ...record, ...(indexId ? { indexId } : {}) };
+      remember(entry);
+      if (options.file) {
+        pendingLines.push(JSON.stringify(entry) + "\n");
+        writing ??= writePending(options.file);
+      }
+      return entry;
+    },
+
+    /**
+     * 아직 파일에 쓰지 않은 기록을 모두 쓸 때까지 기다립니다 (서버 종료 전에 호출).
+     */
+    async flush() {
+      while (writing) {
+        await writing;
+      }
+    },
+
+    hasIndexedTask(account: string, taskId: string) {
+      return indexedTasks.has(`${account}:${taskId}`);
+    },
+
+    // 작업을 제출한 세션과 도구 (제출 기록이 없거나 이미 인덱싱이 기록되었으면 undefined)
+    taskSubmitter(account: string, taskId: string) {
+      return taskSubmitters.get(`${account}:${taskId}`);
+    },
+
+    /**
+     * 이 지표에 걸린 예산 중 이미 한도에 도달한 것이 있으면 BudgetExceededError를 던집니다.
+     */
+    checkBudgets(metric: UsageMetric, account: string, session: string) {
+      for (const budget of budgets.filter((b) => b.metric === metric)) {
+        const usage = budgetUsage(budget, account, session);
+        if (usage.exceeded) {
+          throw new BudgetExceededError(
+            `Usage budget exceeded: ${usage.used} of ${usage.limit} ${METRIC_LABELS[metric]} used ` +
+            `(${usage.scope} scope, ${usage.period === "total" ? "all time" : `last ${usage.period}`})`,
+            usage
+          );
+        }
+      }
+    },
+
+    budgetStatus(account: string, session: string) {
+      return budgets.map((budget) => budgetUsage(budget, account, session));
+    },
+
+    /**
+     * 조건에 맞는 기록을 합산하고, groupBy/window가 있으면 그룹별·구간별 합계를 함께 반환합니다.
+     */
+    report(options: UsageReportOptions) {
+      const selected = select(options);
+      const totals = selected.reduce((sum, bucket) => mergeTotals(sum, bucket.totals), emptyTotals());
+
+      let groups: ({ key: string } & UsageTotals)[] | undefined;
+      if (options.groupBy) {
+        const byKey = new Map<string, UsageTotals>();
+        for (const bucket of selected) {
+          const key = groupKey(bucket, options.groupBy);
+          byKey.set(key, mergeTotals(byKey.get(key) ?? emptyTotals(), bucket.totals));
+        }
+        groups = [...byKey.entries()]
+          .map(([key, groupTotals]) => ({ key, ...groupTotals }))
+          .sort((a, b) => b.tokens - a.tokens || b.indexedMinutes - a.indexedMinutes || b.searches - a.searches || b.calls - a.calls);
+      }
+
+      let windows: ({ start: string } & UsageTotals)[] | undefined;
+      if (options.window) {
+        const byStart = new Map<string, UsageTotals>();
+        for (const bucket of selected) {
+          const start = windowStart(bucket.first, options.window);
+          byStart.set(start, mergeTotals(byStart.get(start) ?? emptyTotals(), bucket.totals));
+        }
+        windows = [...byStart.entries()]
+          .map(([start, windowTotals]) => ({ start, ...windowTotals }))
+          .sort((a, b) => a.start.localeCompare(b.start));
+      }
+
+      return {
+        from: selected.length > 0 ? selected.map((bucket) => bucket.first).reduce((a, b) => (a < b ? a : b)) : null,
+        to: selected.length > 0 ? selected.map((bucket) => bucket.last).reduce((a, b) => (a > b ? a : b)) : null,
+        totals,
+        ...(groups ? { groups } : {}),
+        ...(windows ? { windows } : {})
+      };
+    }
+  };
+}
+
+export type UsageLedger = ReturnType<typeof createUsageLedger>;
+
+/**
+ * 설정의 usage 항목(TWELVELABS_USAGE_LEDGER, TWELVELABS_USAGE_BUDGETS)으로 사용량 기록을 구성합니다.
+ * 기록 파일의 상대 경로는 데이터 디렉터리 기준입니다. 예산은 설정을 읽을 때 검증됩니다.
+ */
+export function createUsageLedgerFromConfig(dataDir: string, config: ServerConfig["usage"]): UsageLedger {
+  const file = config.ledger ? path.resolve(dataDir, config.ledger) : undefined;
+  const budgets = config.budgets;
+  if (budgets.length > 0) {
+    logger.info(`사용량 예산: ${budgets.map((b) => `${b.metric} ${b.limit} (${b.scope ?? "session"}, ${b.period ?? "total"})`).join(", ")}`);
+  }
+  return createUsageLedger({ file, budgets });
+}
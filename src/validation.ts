@@ -0,0 +1,195 @@
+import { InvalidArgumentsError, FieldError } from "./errors.js";
+
+/**
+ * 도구 인자를 도구 정의의 inputSchema(JSON Schema)로 검증합니다.
+ * inputSchema가 유일한 기준이므로 ListTools에 보이는 스키마와 실제 검증 규칙이 항상 같습니다.
+ *
+ * 지원하는 키워드: type(배열 포함), enum, required, properties, additionalProperties,
+ * items, minItems, maxItems, minimum, maximum, minLength.
+ * 안전한 경우에만 값을 변환합니다: "5" → 5, "true" → true, 5 → "5", 대소문자만 다른 enum 값,
+ * 배열 자리의 단일 값 → [값], JSON 문자열로 보낸 배열/객체 → 배열/객체.
+ * 모든 오류를 필드 경로와 함께 모아 한 번에 InvalidArgumentsError로 던집니다.
+ */
+
+type Schema = {
+  type?: string | string[];
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, Schema>;
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  [key: string]: unknown;
+};
+
+const NUMBER_PATTERN = /^\s*-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i;
+
+function typeOf(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string) {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function describeValue(value: unknown) {
+  const text = JSON.stringify(value);
+  return text && text.length > 60 ? `${text.substring(0, 57)}...` : text;
+}
+
+// 허용되는 타입 중 하나로 안전하게 변환할 수 있으면 변환한 값을 반환
+function coerce(value: unknown, types: string[]): unknown {
+  for (const type of types) {
+    if (matchesType(value, type)) return value;
+  }
+  for (const type of types) {
+    if ((type === "number" || type === "integer") && typeof value === "string" && NUMBER_PATTERN.test(value)) {
+      const number = Number(value);
+      if (type === "number" || Number.isInteger(number)) return number;
+    }
+    if (type === "boolean" && typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+      return value.trim().toLowerCase() === "true";
+    }
+    if (type === "string" && typeof value === "number") {
+      return String(value);
+    }
+    if ((type === "array" || type === "object") && typeof value === "string" && /^\s*[[{]/.test(value)) {
+      try {
+        const parsed = JSON.parse(value);
+        if (matchesType(parsed, type)) return parsed;
+      } catch {
+        // 변환할 수 없으면 아래에서 타입 오류로 보고
+      }
+    }
+    if (type === "array" && value !== undefined && value !== null && !Array.isArray(value) && typeof value !== "object") {
+      return [value];
+    }
+  }
+  return value;
+}
+
+// 가장 비슷한 필드 이름 (오타 안내용)
+function closestName(name: string, candidates: string[]) {
+  const lower = name.toLowerCase();
+  return candidates.find((candidate) => candidate.toLowerCase() === lower) ??
+    candidates.find((candidate) => candidate.toLowerCase().startsWith(lower) || lower.startsWith(candidate.toLowerCase()));
+}
+
+function validateValue(value: unknown, schema: Schema, path: string, errors: FieldError[]): unknown {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  let result = types.length > 0 ? coerce(value, types) : value;
+
+  if (types.length > 0 && !types.some((type) => matchesType(result, type))) {
+    errors.push({ field: path, message: `must be ${types.join(" or ")} (got ${typeOf(value)} ${describeValue(value)})` });
+    return value;
+  }
+
+  if (schema.enum) {
+    if (typeof result === "string" && !schema.enum.includes(result)) {
+      const lower = result.toLowerCase();
+      result = schema.enum.find((option) => typeof option === "string" && option.toLowerCase() === lower) ?? result;
+    }
+    if (!schema.enum.includes(result)) {
+      errors.push({ field: path, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")} (got ${describeValue(value)})` });
+      return value;
+    }
+  }
+
+  if (typeof result === "number") {
+    if (schema.minimum !== undefined && result < schema.minimum) {
+      errors.push({ field: path, message: `must be >= ${schema.minimum} (got ${result})` });
+    }
+    if (schema.maximum !== undefined && result > schema.maximum) {
+      errors.push({ field: path, message: `must be <= ${schema.maximum} (got ${result})` });
+    }
+  }
+
+  if (typeof result === "string" && schema.minLength !== undefined && result.length < schema.minLength) {
+    errors.push({ field: path, message: schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters` });
+  }
+
+  if (Array.isArray(result)) {
+    if (schema.minItems !== undefined && result.length < schema.minItems) {
+      errors.push({ field: path, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && result.length > schema.maxItems) {
+      errors.push({ field: path, message: `must contain at most ${schema.maxItems} item(s) (got ${result.length})` });
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      result = result.map((item, index) => validateValue(item, itemSchema, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeOf(result) === "object" && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    result = validateObject(result as Record<string, unknown>, schema, path, errors);
+  }
+
+  return result;
+}
+
+function validateObject(value: Record<string, unknown>, schema: Schema, path: string, errors: FieldError[]) {
+  const properties = schema.properties ?? {};
+  const prefix = path ? `${path}.` : "";
+  const result: Record<string, unknown> = {};
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined || value[name] === null || value[name] === "") {
+      errors.push({ field: `${prefix}${name}`, message: "is required" });
+    }
+  }
+
+  for (const [name, fieldValue] of Object.entries(value)) {
+    // null은 값을 생략한 것으로 취급 (필수 필드는 위에서 이미 보고)
+    if (fieldValue === undefined || (fieldValue === null && properties[name] && !allowsNull(properties[name]))) {
+      continue;
+    }
+    const fieldSchema = properties[name] ?? (typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined);
+    if (!fieldSchema) {
+      if (schema.additionalProperties === false) {
+        const suggestion = closestName(name, Object.keys(properties));
+        errors.push({
+          field: `${prefix}${name}`,
+          message: `is not a known argument${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`
+        });
+      } else {
+        result[name] = fieldValue;
+      }
+      continue;
+    }
+    result[name] = validateValue(fieldValue, fieldSchema, `${prefix}${name}`, errors);
+  }
+  return result;
+}
+
+function allowsNull(schema: Schema) {
+  return schema.type === "null" || (Array.isArray(schema.type) && schema.type.includes("null"));
+}
+
+/**
+ * 인자를 검증하고 변환된 새 객체를 반환합니다. 문제가 있으면 모든 필드 오류를 담아 예외를 던집니다.
+ */
+export function validateToolArguments<T = Record<string, unknown>>(
+  toolName: string,
+  schema: object,
+  args: Record<string, unknown> | undefined
+): T {
+  const errors: FieldError[] = [];
+  const result = validateObject(args ?? {}, schema as Schema, "", errors);
+  if (errors.length > 0) {
+    throw new InvalidArgumentsError(
+      `Invalid arguments for ${toolName}: ${errors.map((e) => `${e.field} ${e.message}`).join("; ")}`,
+      errors
+    );
+  }
+  return result as T;
+}
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createBatchStateWriter, BatchState } from "../src/batchUpload.js";
+
+/**
+ * 배치 상태 파일 저장 테스트.
+ */
+
+test("a failed state save rejects only that save", async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "twelvelabs-batch-"));
+  // 상태 파일 디렉터리 자리에 파일이 있으면 저장이 실패
+  const blocker = path.join(dir, "state");
+  writeFileSync(blocker, "");
+  const statePath = path.join(blocker, "library.state.json");
+  const now = new Date().toISOString();
+  const state: BatchState = { version: 1, manifestPath: "library.csv", indexId: "index-1", createdAt: now, updatedAt: now, items: {} };
+  const writer = createBatchStateWriter(statePath, state);
+
+  await assert.rejects(writer.save());
+  rmSync(blocker);
+  state.items.intro = { key: "intro", taskStatus: "pending", updatedAt: now };
+  await writer.save();
+  assert.equal(JSON.parse(readFileSync(statePath, "utf8")).items.intro.taskStatus, "pending");
+  assert.deepEqual(readdirSync(blocker), ["library.state.json"]);
+});
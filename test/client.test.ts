@@ -0,0 +1,82 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { TwelveLabsClient } from "../src/client.js";
+import { NetworkError, TwelveLabsError } from "../src/errors.js";
+
+/**
+ * 응답 본문 읽기의 타임아웃과 취소 테스트 (스트리밍 응답의 유휴 타임아웃 포함).
+ * 서버는 헤더와 첫 줄만 보내고 응답을 끝내지 않습니다.
+ */
+
+let server: Server;
+let baseUrl: string;
+let openedConnections = 0;
+let closedConnections = 0;
+
+before(async () => {
+  server = createServer((req, res) => {
+    openedConnections++;
+    res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+    res.write(JSON.stringify({ event_type: "stream_start" }) + "\n");
+    res.on("close", () => closedConnections++);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function client() {
+  return new TwelveLabsClient({ baseUrl, apiKey: "test-key", maxRetries: 0 });
+}
+
+async function readAll(chunks: AsyncIterable<Buffer>) {
+  const received: string[] = [];
+  for await (const chunk of chunks) received.push(chunk.toString());
+  return received;
+}
+
+test("aborts a stalled stream after the idle timeout", async () => {
+  const { chunks } = await client().stream("POST", "/generate", { json: {}, idleTimeoutMs: 200 });
+  await assert.rejects(readAll(chunks), (e: unknown) => {
+    assert.ok(e instanceof NetworkError);
+    assert.match(e.message, /stream stalled: no data for 200ms/);
+    return true;
+  });
+});
+
+test("cancelling the request stops reading the stream", async () => {
+  const controller = new AbortController();
+  const { chunks } = await client().stream("POST", "/generate", { json: {}, signal: controller.signal, idleTimeoutMs: 10_000 });
+  setTimeout(() => controller.abort(), 50);
+  await assert.rejects(readAll(chunks), (e: unknown) => {
+    assert.ok(e instanceof TwelveLabsError);
+    assert.match(e.message, /was cancelled/);
+    return true;
+  });
+  // 서버 쪽 연결도 모두 닫힘
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  assert.equal(closedConnections, openedConnections);
+});
+
+test("times out and retries a JSON response whose body stalls after the headers", async () => {
+  const before = openedConnections;
+  const retrying = new TwelveLabsClient({ baseUrl, apiKey: "test-key", maxRetries: 1, retryBaseDelayMs: 1 });
+  await assert.rejects(retrying.get("/indexes", { timeoutMs: 200 }), (e: unknown) => {
+    assert.ok(e instanceof NetworkError);
+    assert.match(e.message, /timed out after 200ms while reading the response body/);
+    return true;
+  });
+  assert.equal(openedConnections - before, 2);
+});
+
+test("cancelling the request stops reading a JSON response body", async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 50);
+  await assert.rejects(client().get("/indexes", { signal: controller.signal, timeoutMs: 10_000 }), /was cancelled/);
+});
@@ -0,0 +1,164 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { loadServerConfig, resolveEnabledTools, ConfigError, DEFAULT_CONFIG } from "../src/config.js";
+
+/**
+ * 설정 파일/프로필/환경 변수 병합과 검증 보고 테스트.
+ */
+
+let directory: string;
+
+before(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "twelvelabs-mcp-config-"));
+  await writeFile(path.join(directory, "config.yaml"), [
+    "defaultIndexId: idx-dev",
+    "defaults:",
+    "  temperature: 0.5",
+    "retry: { maxRetries: 1 }",
+    "profile: dev",
+    "profiles:",
+    "  dev:",
+    "    logLevel: info",
+    "  prod:",
+    "    defaultIndexId: idx-prod",
+    "    logLevel: error",
+    "    cache: { mode: disk, ttlSec: 60 }"
+  ].join("\n"));
+  await writeFile(path.join(directory, "config.json"), JSON.stringify({ defaults: { searchLimit: 20 } }));
+  await writeFile(path.join(directory, "invalid.yaml"), [
+    "defaults:",
+    "  searchLimit: 70",
+    "colour: red",
+    "retry: { maxRetries: many }"
+  ].join("\n"));
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+test("uses the built-in defaults without a configuration file", () => {
+  const config = loadServerConfig({ env: {} });
+  assert.equal(config.baseUrl, DEFAULT_CONFIG.baseUrl);
+  assert.equal(config.defaults.temperature, 0.2);
+  assert.equal(config.defaults.searchLimit, 10);
+  assert.deepEqual(config.defaults.indexAddons, ["thumbnail"]);
+  assert.equal(config.source, "environment");
+});
+
+test("applies file, selected profile and environment in that order", () => {
+  const file = path.join(directory, "config.yaml");
+
+  const dev = loadServerConfig({ file, env: {} });
+  assert.equal(dev.profile, "dev");
+  assert.equal(dev.defaultIndexId, "idx-dev");
+  assert.equal(dev.defaults.temperature, 0.5);
+  assert.equal(dev.defaults.searchLimit, 10);
+
+  const prod = loadServerConfig({ file, env: { TWELVELABS_CONFIG_PROFILE: "prod", TWELVELABS_CACHE_TTL_SEC: "120" } });
+  assert.equal(prod.profile, "prod");
+  assert.equal(prod.defaultIndexId, "idx-prod");
+  assert.equal(prod.logLevel, "error");
+  assert.deepEqual(prod.cache, { mode: "disk", ttlSec: 120, maxEntries: DEFAULT_CONFIG.cache.maxEntries });
+  assert.equal(prod.retry.maxRetries, 1);
+
+  // 명시적 옵션(--profile)이 환경 변수보다 우선
+  assert.equal(loadServerConfig({ file, profile: "dev", env: { TWELVELABS_CONFIG_PROFILE: "prod" } }).profile, "dev");
+});
+
+test("reads JSON files and comma-separated tool lists from the environment", () => {
+  const config = loadServerConfig({
+    env: { TWELVELABS_CONFIG: path.join(directory, "config.json"), TWELVELABS_DISABLED_TOOLS: "delete_index, delete_video" }
+  });
+  assert.equal(config.defaults.searchLimit, 20);
+  assert.deepEqual(config.tools.disabled, ["delete_index", "delete_video"]);
+  assert.deepEqual([...resolveEnabledTools(config.tools, ["get_index", "delete_index", "delete_video"])], ["get_index"]);
+});
+
+test("reads guardrail settings from the environment", () => {
+  const config = loadServerConfig({
+    env: { TWELVELABS_DESTRUCTIVE_TOOLS: "false", TWELVELABS_PROTECTED_INDEXES: "prod-*, 6650a1b2c3d4e5f6a7b8c9d0" }
+  });
+  assert.deepEqual(config.guardrails, {
+    destructiveTools: false,
+    requireConfirmation: true,
+    confirmationTtlSec: DEFAULT_CONFIG.guardrails.confirmationTtlSec,
+    protectedIndexes: ["prod-*", "6650a1b2c3d4e5f6a7b8c9d0"]
+  });
+});
+
+test("reports every invalid setting at once", () => {
+  assert.throws(
+    () => loadServerConfig({ file: path.join(directory, "invalid.yaml"), env: { TWELVELABS_LOG_LEVEL: "verbose" } }),
+    (e: unknown) => {
+      assert.ok(e instanceof ConfigError);
+      assert.deepEqual(e.problems.map((problem) => problem.field).sort(), [
+        "TWELVELABS_LOG_LEVEL (logLevel)",
+        "colour",
+        "defaults.searchLimit",
+        "retry.maxRetries"
+      ]);
+      assert.match(e.message, /colour: is not a known setting/);
+      return true;
+    }
+  );
+});
+
+test("rejects unknown profiles and tool names", () => {
+  assert.throws(
+    () => loadServerConfig({ file: path.join(directory, "config.yaml"), profile: "staging", env: {} }),
+    /unknown profile "staging" \(available: dev, prod\)/
+  );
+  assert.throws(
+    () => resolveEnabledTools({ enabled: ["search_videos", "serch_videos"], disabled: [] }, ["search_videos"]),
+    /tools\.enabled\[1\]: unknown tool "serch_videos"/
+  );
+});
+
+test("reads index presets, API key profiles, prompts and usage budgets from the file and environment", async () => {
+  const file = path.join(directory, "tenants.yaml");
+  await writeFile(file, [
+    "promptsDir: ./prompts",
+    "indexPresets:",
+    "  audio-search:",
+    "    models: [{ model_name: marengo2.7, model_options: [audio] }]",
+    "apiKeyProfiles:",
+    "  acme: { apiKey: tlk_acme, accessToken: acme-secret }",
+    "  globex: { apiKeyEnv: GLOBEX_KEY }",
+    "usage:",
+    "  budgets: [{ metric: tokens, limit: 1000 }]"
+  ].join("\n"));
+  await writeFile(path.join(directory, "budgets.json"), JSON.stringify([{ metric: "searches", limit: 5, scope: "account" }]));
+
+  const config = loadServerConfig({
+    file,
+    env: { GLOBEX_KEY: "tlk_globex", TWELVELABS_USAGE_BUDGETS: path.join(directory, "budgets.json"), TWELVELABS_USAGE_LEDGER: "usage.jsonl" }
+  });
+  assert.equal(config.promptsDir, "./prompts");
+  assert.deepEqual(Object.keys(config.indexPresets), ["audio-search"]);
+  assert.deepEqual(config.apiKeyProfiles.globex, { apiKeyEnv: "GLOBEX_KEY" });
+  assert.deepEqual(config.usage, { ledger: "usage.jsonl", budgets: [{ metric: "searches", limit: 5, scope: "account" }] });
+
+  assert.throws(
+    () => loadServerConfig({
+      file,
+      env: { GLOBEX_KEY: "tlk_globex", TWELVELABS_USAGE_BUDGETS: '[{ "metric": "dollars", "limit": -1 }]' }
+    }),
+    (e: unknown) => {
+      assert.ok(e instanceof ConfigError);
+      assert.deepEqual(e.problems.map((problem) => problem.field).sort(), [
+        "TWELVELABS_USAGE_BUDGETS (usage.budgets[0].limit)",
+        "TWELVELABS_USAGE_BUDGETS (usage.budgets[0].metric)"
+      ]);
+      return true;
+    }
+  );
+  assert.throws(
+    () => loadServerConfig({ file, env: { TWELVELABS_INDEX_PRESETS: '{ "broken": { "models": [{ "model_name": "pegasus1.2", "model_options": ["visual"] }], "addons": ["thumbnail"] } }' } }),
+    /indexPresets\.broken: .*addon "thumbnail" requires[\s\S]*apiKeyProfiles\.globex: environment variable GLOBEX_KEY is empty/
+  );
+  assert.throws(() => loadServerConfig({ env: { TWELVELABS_API_KEY_PROFILES: "[not json" } }), /TWELVELABS_API_KEY_PROFILES \(apiKeyProfiles\): invalid JSON/);
+});
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { loadApiKeyProfiles, resolveApiKey, verifyProfileAccess } from "../src/credentials.js";
+import { startHttpServer } from "../src/httpServer.js";
+import { AuthenticationError } from "../src/errors.js";
+
+/**
+ * 세션별 API 키 해석과 프로필 접근 토큰 확인 테스트.
+ */
+
+test("uses a profile over HTTP only with its access token", () => {
+  const profiles = loadApiKeyProfiles({
+    acme: { apiKey: "tlk_acme", accessToken: "acme-secret" },
+    legacy: { apiKey: "tlk_legacy" }
+  });
+  const http = { requireProfileToken: true };
+
+  assert.equal(resolveApiKey([{ profile: "acme", profileToken: "acme-secret" }], profiles, http), "tlk_acme");
+  assert.throws(() => resolveApiKey([{ profile: "acme" }], profiles, http), AuthenticationError);
+  assert.throws(() => resolveApiKey([{ profile: "acme", profileToken: "wrong" }], profiles, http), /invalid access token/);
+  assert.throws(() => resolveApiKey([{ profile: "legacy", profileToken: "x" }], profiles, http), /no accessToken configured/);
+  assert.throws(() => verifyProfileAccess({ profile: "globex", profileToken: "x" }, profiles), /Unknown API key profile/);
+
+  // stdio에서는 토큰 없이 프로필 사용 가능
+  assert.equal(resolveApiKey([{ profile: "legacy" }], profiles), "tlk_legacy");
+});
+
+test("falls back to the default key only when one is given", () => {
+  const profiles = new Map();
+  assert.equal(resolveApiKey([undefined, {}], profiles, { defaultApiKey: "tlk_default" }), "tlk_default");
+  assert.equal(resolveApiKey([{ apiKey: "tlk_session" }], profiles, { requireProfileToken: true }), "tlk_session");
+  assert.throws(() => resolveApiKey([undefined, {}], profiles, { requireProfileToken: true }), /not used in HTTP mode/);
+});
+
+test("rejects HTTP requests with a profile but no valid access token", async () => {
+  const profiles = loadApiKeyProfiles({ acme: { apiKey: "tlk_acme", accessToken: "acme-secret" } });
+  let sessions = 0;
+  const httpServer = await startHttpServer({
+    createServer: () => {
+      sessions++;
+      return new Server({ name: "test", version: "0.0.0" }, { capabilities: {} });
+    },
+    port: 0,
+    verifyCredentials: (credentials) => verifyProfileAccess(credentials, profiles)
+  });
+  try {
+    const response = await fetch(`http://127.0.0.1:${httpServer.port}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-TwelveLabs-Profile": "acme", "X-TwelveLabs-Profile-Token": "wrong" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" })
+    });
+    assert.equal(response.status, 401);
+    const body = (await response.json()) as { error: { message: string } };
+    assert.match(body.error.message, /invalid access token for API key profile "acme"/);
+    assert.equal(sessions, 0);
+  } finally {
+    await httpServer.close();
+  }
+});
@@ -0,0 +1,457 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { startMockTwelveLabsServer, RunningMockServer, MOCK_API_KEY } from "./mockTwelveLabsServer.js";
+
+/**
+ * MCP 서버를 메모리 전송으로 연결하고, 대역 API 서버를 상대로 ListTools의 모든 도구를 호출하는 종단 간 테스트.
+ * SDK 클라이언트가 structuredContent를 각 도구의 outputSchema로 검증하므로 스키마와 실제 결과가 어긋나면 실패합니다.
+ */
+
+type CreateServer = typeof import("../index.js").createServer;
+
+let mock: RunningMockServer;
+let dataDir: string;
+let createServer: CreateServer;
+let client: Client;
+
+// 시나리오 사이에 공유하는 ID
+const ids: Record<string, string> = {};
+
+async function connect(credentials: { apiKey?: string; profile?: string } = {}) {
+  const server = createServer(credentials);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const connected = new Client({ name: "e2e-test", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), connected.connect(clientTransport)]);
+  // outputSchema 검증기를 준비하기 위해 먼저 도구 목록을 조회
+  await connected.listTools();
+  return connected;
+}
+
+async function call(name: string, args: Record<string, unknown> = {}, target = client): Promise<any> {
+  const result = await target.callTool({ name, arguments: args });
+  assert.notEqual(result.isError, true, `${name} failed: ${JSON.stringify(result.content)}`);
+  assert.ok(result.structuredContent, `${name} returned no structuredContent`);
+  assert.equal((result.content as any[])[0].type, "text");
+  return result.structuredContent;
+}
+
+async function callError(name: string, args: Record<string, unknown> = {}, target = client): Promise<any> {
+  const result = await target.callTool({ name, arguments: args });
+  assert.equal(result.isError, true, `${name} should have failed`);
+  const text = (result.content as any[])[0].text as string;
+  return text.startsWith("{") ? JSON.parse(text) : { message: text };
+}
+
+before(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "twelvelabs-mcp-e2e-"));
+  await writeFile(path.join(dataDir, "meeting.mp4"), Buffer.alloc(4096, 1));
+  mock = await startMockTwelveLabsServer({ pollsUntilReady: 1 });
+  // index.js는 가져올 때 환경 변수를 읽으므로 먼저 설정
+  Object.assign(process.env, {
+    TWELVELABS_BASE_URL: mock.url,
+    TWELVELABS_API_KEY: MOCK_API_KEY,
+    TWELVELABS_DATA_DIR: dataDir,
+    TWELVELABS_MAX_RETRIES: "2",
+    TWELVELABS_PROTECTED_INDEXES: "prod-*"
+  });
+  ({ createServer } = await import("../index.js"));
+  client = await connect();
+});
+
+after(async () => {
+  await client?.close();
+  await mock?.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+// 도구별 시나리오 (순서대로 실행되며 앞 시나리오가 만든 인덱스/영상/작업을 사용)
+const TOOL_SCENARIOS: [string, () => Promise<void>][] = [
+  ["create_index", async () => {
+    const res = await call("create_index", { indexName: "e2e-index", preset: "full" });
+    assert.equal(res.indexName, "e2e-index");
+    ids.indexId = res.indexId;
+    assert.ok(mock.state.indexes.has(ids.indexId));
+  }],
+  ["list_indexes", async () => {
+    const res = await call("list_indexes", { pageLimit: 5 });
+    assert.equal(res.totalCount, 1);
+    assert.equal(res.indexes[0]._id, ids.indexId);
+  }],
+  ["get_index", async () => {
+    const res = await call("get_index", { indexId: ids.indexId });
+    assert.equal(res.indexName, "e2e-index");
+    assert.equal(res.videoCount, 0);
+    assert.equal(res.totalDuration, 0);
+    assert.deepEqual(res.models.map((m: any) => m.model_name).sort(), ["marengo2.7", "pegasus1.2"]);
+
+    // ID 대신 정확한 인덱스 이름도 받음
+    const byName = await call("get_index", { indexId: "e2e-index" });
+    assert.equal(byName.indexId, ids.indexId);
+    // ID 형식 값은 처음 한 번만 ID로 확인한 뒤 사용 (확인 1번 + 조회 2번), 다음 호출부터는 확인 요청 없음
+    const indexGets = () => mock.requests.filter((r) => r.path === `/indexes/${ids.indexId}`).length;
+    assert.equal(indexGets(), 3);
+    await call("get_index", { indexId: ids.indexId });
+    assert.equal(indexGets(), 4);
+    // ID 형식이지만 해당 ID의 인덱스가 없으면 이름으로 찾음
+    const hexNamed = mock.state.createIndex("a".repeat(24));
+    assert.equal((await call("get_index", { indexId: "a".repeat(24) })).indexId, hexNamed._id);
+    mock.state.indexes.delete(hexNamed._id);
+    // 리소스 URI의 인덱스 이름도 ID로 바꿈
+    const resource = await client.readResource({ uri: "twelvelabs://indexes/e2e-index" });
+    assert.equal(JSON.parse((resource.contents[0] as any).text).index._id, ids.indexId);
+    const missing = await callError("get_index", { indexId: "e2e-missing" });
+    assert.match(missing.message, /e2e-missing/);
+    assert.equal(missing.errorType, "NotFoundError");
+    const duplicate = mock.state.createIndex("e2e-index");
+    const ambiguous = await callError("list_videos", { indexId: "e2e-index" });
+    assert.match(ambiguous.message, new RegExp(duplicate._id));
+    mock.state.indexes.delete(duplicate._id);
+  }],
+  ["upload_videos", async () => {
+    const byUrl = await call("upload_videos", { indexId: ids.indexId, url: "https://example.com/keynote.mp4", waitUntilReady: true });
+    assert.equal(byUrl.taskStatus, "ready");
+    ids.videoId = byUrl.videoId;
+    const byFile = await call("upload_videos", { indexId: ids.indexId, filePath: "meeting.mp4" });
+    assert.ok(byFile.taskId);
+    ids.taskId = byFile.taskId;
+    const upload = mock.requests.filter((r) => r.method === "POST" && r.path === "/tasks").pop();
+    assert.deepEqual((upload?.body as any).video_file, { filename: "meeting.mp4", size: 4096 });
+  }],
+  ["list_tasks", async () => {
+    const res = await call("list_tasks", { indexId: ids.indexId });
+    assert.equal(res.totalCount, 2);
+  }],
+  ["get_task", async () => {
+    const res = await call("get_task", { taskId: ids.taskId });
+    assert.equal(res.task._id, ids.taskId);
+  }],
+  ["wait_for_task", async () => {
+    const res = await call("wait_for_task", { taskIds: [ids.taskId], timeoutSec: 5, pollIntervalSec: 1 });
+    assert.deepEqual(res.ready, [ids.taskId]);
+    assert.equal(res.timedOut, false);
+  }],
+  ["list_videos", async () => {
+    const res = await call("list_videos", { indexId: ids.indexId });
+    assert.equal(res.totalCount, 2);
+  }],
+  ["get_video", async () => {
+    const res = await call("get_video", { indexId: ids.indexId, videoId: ids.videoId, includeTranscription: true });
+    assert.equal(res.filename, "keynote.mp4");
+    assert.ok(res.duration > 0);
+    assert.ok(res.hlsUrl);
+  }],
+  ["update_video_metadata", async () => {
+    await call("update_video_metadata", { indexId: ids.indexId, videoId: ids.videoId, userMetadata: { reviewed: true, owner: "qa" } });
+    const video = mock.state.findVideo(ids.videoId).video;
+    assert.deepEqual(video.user_metadata, { reviewed: true, owner: "qa" });
+  }],
+  ["search_videos", async () => {
+    const res = await call("search_videos", { indexId: ids.indexId, query: "sales growth", groupBy: "clip", limit: 2 });
+    assert.equal(res.results.length, 2);
+    assert.equal(res.hasMore, true);
+    ids.pageToken = res.nextPageToken;
+    const all = await call("search_videos", { indexId: ids.indexId, query: "sales growth", groupBy: "clip", limit: 2, autoPaginate: true, maxClips: 100 });
+    assert.equal(all.hasMore, false);
+    assert.ok(all.pagesFetched > 1);
+
+    // 이름 패턴으로 두 인덱스를 함께 검색하면 점수순으로 합쳐지고 출처 인덱스가 붙음
+    const archive = mock.state.createIndex("E2E-archive");
+    mock.state.addVideo(archive._id, "archive.mp4", 30);
+    const federated = await call("search_videos", { indexNamePattern: "e2e-*", query: "sales growth", groupBy: "clip", limit: 10 });
+    assert.deepEqual(federated.sources.map((source: any) => source.indexName).sort(), ["E2E-archive", "e2e-index"]);
+    assert.deepEqual(new Set(federated.results.map((hit: any) => hit.index_id)), new Set([ids.indexId, archive._id]));
+    // 합친 결과는 요청한 개수로 자르고 잘린 결과가 있음을 hasMore로 알림
+    const capped = await call("search_videos", { indexNamePattern: "e2e-*", query: "sales growth", groupBy: "clip", limit: 3 });
+    assert.equal(capped.results.length, 3);
+    assert.equal(capped.hasMore, true);
+    const cappedClips = await call("search_videos", { indexNamePattern: "e2e-*", query: "sales growth", groupBy: "clip", autoPaginate: true, maxClips: 4 });
+    assert.equal(cappedClips.clipCount, 4);
+    const scores = federated.results.map((hit: any) => hit.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    // 인덱스 이름도 쓸 수 있고, 인자 해석에 쓴 인덱스 목록을 검색 대상에 다시 사용
+    const listsBefore = mock.requests.filter((r) => r.method === "GET" && r.path === "/indexes").length;
+    const byIds = await call("search_videos", { indexIds: ["E2E-archive", "f".repeat(24)], query: "sales growth", groupBy: "clip" });
+    assert.equal(mock.requests.filter((r) => r.method === "GET" && r.path === "/indexes").length, listsBefore + 1);
+    assert.equal(byIds.sources[0].indexId, archive._id);
+    assert.equal(byIds.results.length, 2);
+    assert.match(byIds.sources[1].error, /does not exist/);
+    mock.state.indexes.delete(archive._id);
+  }],
+  ["search_videos_next_page", async () => {
+    const res = await call("search_videos_next_page", { pageToken: ids.pageToken });
+    assert.ok(res.results.length > 0);
+  }],
+  ["generate_text", async () => {
+    const first = await call("generate_text", { videoId: ids.videoId, prompt: "What is discussed?" });
+    assert.match(first.text, /quarterly sales/);
+    assert.equal(first.cache.hit, false);
+    const second = await call("generate_text", { videoId: ids.videoId, prompt: "What is discussed?" });
+    assert.equal(second.cache.hit, true);
+    assert.equal(second.text, first.text);
+    const streamed = await call("generate_text", { videoId: ids.videoId, prompt: "Stream it", stream: true });
+    assert.equal(streamed.complete, true);
+    assert.match(streamed.text, /mobile roadmap/);
+    const generateCalls = mock.requests.filter((r) => r.path === "/generate").length;
+    assert.equal(generateCalls, 2);
+  }],
+  ["generate_gist", async () => {
+    const res = await call("generate_gist", { videoId: ids.videoId, types: ["title", "hashtag"] });
+    assert.equal(res.title, "Quarterly Product Review");
+    assert.deepEqual(res.hashtags, ["quarterlyreview", "roadmap"]);
+  }],
+  ["generate_summary", async () => {
+    const res = await call("generate_summary", { videoId: ids.videoId, type: "chapter" });
+    assert.equal(res.chapters.length, 2);
+    const highlights = await call("generate_summary", { videoId: ids.videoId, type: "highlight", bypassCache: true });
+    assert.equal(highlights.highlights[0].highlight, "Sales up 20%");
+  }],
+  ["export_timeline", async () => {
+    // 앞 시나리오에서 캐시된 챕터를 사용하므로 /summarize를 다시 호출하지 않음
+    const before = mock.requests.length;
+    const vtt = await call("export_timeline", { videoId: ids.videoId, type: "chapter", format: "webvtt" });
+    assert.equal(vtt.generated, true);
+    assert.equal(mock.requests.length, before);
+    assert.match(vtt.content, /^WEBVTT - Chapters\n\n1\n00:00:00\.000 --> 00:00:31\.000\nSales review\n/);
+    const edl = await call("export_timeline", {
+      format: "edl",
+      highlights: [{ start_sec: 40, end_sec: 45, highlight: "Roadmap" }, { start_sec: 12, end_sec: 31, highlight: "Sales up 20%" }],
+      outputPath: "exports/highlights",
+      clipName: "meeting.mp4"
+    });
+    assert.deepEqual(edl.adjustments, ["Sorted 2 items by start time"]);
+    const written = await readFile(path.join(dataDir, "exports", "highlights.edl"), "utf8");
+    assert.equal(edl.outputPath, path.join(dataDir, "exports", "highlights.edl"));
+    assert.match(written, /^002  MEETING  AA\/V  C        00:00:40:00 00:00:45:00 00:00:19:00 00:00:24:00$/m);
+
+    // 절대 경로라도 데이터 디렉터리 밖에는 쓰지 않음
+    const outside = await callError("export_timeline", {
+      format: "srt",
+      highlights: [{ start_sec: 1, end_sec: 2, highlight: "Intro" }],
+      outputPath: path.join(tmpdir(), "outside.srt")
+    });
+    assert.equal(outside.errorType, "ValidationError");
+  }],
+  ["clear_cache", async () => {
+    const res = await call("clear_cache", { videoId: ids.videoId, endpoint: "generate" });
+    assert.equal(res.removed, 2);
+    const again = await call("generate_text", { videoId: ids.videoId, prompt: "What is discussed?" });
+    assert.equal(again.cache.hit, false);
+  }],
+  ["get_usage_report", async () => {
+    const res = await call("get_usage_report", { groupBy: "tool", window: "day" });
+    // 단일 인덱스 검색 2회 + 다중 인덱스 검색에서 성공한 인덱스 7개
+    assert.equal(res.totals.searches, 9);
+    assert.equal(res.totals.indexedVideos, 2);
+    assert.ok(res.totals.tokens > 0);
+    assert.ok(res.totals.cachedCalls >= 1);
+    assert.ok(res.groups.some((g: any) => g.key === "generate_text"));
+    // 업로드 호출과, 다른 도구로 ready를 확인한 작업의 인덱싱 길이는 제출한 upload_videos에 집계
+    const uploads = res.groups.find((g: any) => g.key === "upload_videos");
+    assert.equal(uploads.indexedVideos, 2);
+    assert.equal(uploads.calls, 4);
+  }],
+  ["create_embedding", async () => {
+    const res = await call("create_embedding", { text: "quarterly sales" });
+    assert.equal(res.segmentCount, 1);
+    assert.equal(res.embeddings[0].vector.length, 8);
+  }],
+  ["create_video_embedding_task", async () => {
+    const res = await call("create_video_embedding_task", { url: "https://example.com/video.mp4", clipLength: 6 });
+    ids.embedTaskId = res.taskId;
+  }],
+  ["get_video_embedding_task", async () => {
+    const res = await call("get_video_embedding_task", { taskId: ids.embedTaskId });
+    assert.equal(res.taskStatus, "processing");
+  }],
+  ["retrieve_video_embeddings", async () => {
+    await call("get_video_embedding_task", { taskId: ids.embedTaskId });
+    const res = await call("retrieve_video_embeddings", { taskId: ids.embedTaskId, outputPath: "embeddings/video.jsonl" });
+    assert.equal(res.taskStatus, "ready");
+    assert.equal(res.segmentCount, 2);
+    const lines = (await readFile(path.join(dataDir, "embeddings/video.jsonl"), "utf8")).trim().split("\n");
+    assert.equal(lines.length, 2);
+  }],
+  ["import_videos", async () => {
+    const res = await call("import_videos", { integrationId: "int-1", indexId: ids.indexId });
+    assert.ok(res.integrationId);
+  }],
+  ["get_import_status", async () => {
+    const res = await call("get_import_status", { integrationId: "int-1", indexId: ids.indexId });
+    assert.equal(res.importStatus.length, 2);
+  }],
+  ["get_import_logs", async () => {
+    const res = await call("get_import_logs", { integrationId: "int-1" });
+    assert.equal(res.importLogs[0].index_id, ids.indexId);
+  }],
+  ["batch_upload_videos", async () => {
+    await writeFile(path.join(dataDir, "library.csv"), [
+      "id,url,filePath,speaker",
+      "intro,https://example.com/intro.mp4,,Kim",
+      "demo,https://example.com/demo.mp4,,\"Lee, Park\"",
+      "local,,meeting.mp4,Choi"
+    ].join("\n"));
+    const first = await call("batch_upload_videos", { indexId: ids.indexId, manifestPath: "library.csv", concurrency: 2, maxItems: 2 });
+    assert.equal(first.submitted, 2);
+    assert.deepEqual(first.notSubmitted, ["local"]);
+    assert.equal(first.ready.length + first.pending.length, 2);
+
+    // 같은 매니페스트로 다시 실행하면 남은 항목만 제출하고 준비된 영상에 메타데이터를 적용
+    const posts = () => mock.requests.filter((r) => r.method === "POST" && r.path === "/tasks").length;
+    const before = posts();
+    const second = await call("batch_upload_videos", { indexId: ids.indexId, manifestPath: "library.csv", waitUntilReady: true, timeoutSec: 30 });
+    assert.equal(posts() - before, 1);
+    assert.equal(second.submitted, 1);
+    assert.deepEqual(second.ready.map((item: any) => item.key), ["intro", "demo", "local"]);
+    assert.deepEqual([second.failed, second.pending, second.notSubmitted], [[], [], []]);
+    const { video } = mock.state.findVideo(second.ready[1].videoId);
+    assert.equal(video.user_metadata.speaker, "Lee, Park");
+
+    const state = JSON.parse(await readFile(path.join(dataDir, "library.csv.state.json"), "utf8"));
+    assert.equal(state.items.local.taskStatus, "ready");
+    assert.equal(state.items.local.metadataApplied, true);
+
+    const outside = await callError("batch_upload_videos", { indexId: ids.indexId, manifestPath: "library.csv", statePath: "/tmp/library.state.json" });
+    assert.equal(outside.errorType, "ValidationError");
+
+    // 제출 자체가 실패한 항목은 submitted가 아니라 submissionFailed로 집계
+    await writeFile(path.join(dataDir, "broken.csv"), ["id,filePath", "missing,missing.mp4"].join("\n"));
+    const broken = await call("batch_upload_videos", { indexId: ids.indexId, manifestPath: "broken.csv" });
+    assert.deepEqual([broken.submitted, broken.submissionFailed], [0, 1]);
+    assert.equal(broken.failed[0].taskId, undefined);
+  }],
+  ["delete_video", async () => {
+    // 첫 호출은 미리보기와 확인 토큰만 반환하고 삭제하지 않음
+    const preview = await call("delete_video", { indexId: ids.indexId, videoId: ids.videoId });
+    assert.equal(preview.deleted, false);
+    assert.equal(preview.target.filename, "keynote.mp4");
+    assert.equal(mock.state.videos.get(ids.indexId)?.has(ids.videoId), true);
+    const res = await call("delete_video", { indexId: ids.indexId, videoId: ids.videoId, confirmationToken: preview.confirmationToken });
+    assert.equal(res.deleted, true);
+    assert.equal(mock.state.videos.get(ids.indexId)?.has(ids.videoId), false);
+  }],
+  ["delete_task", async () => {
+    const preview = await call("delete_task", { taskId: ids.taskId, dryRun: true });
+    assert.equal(preview.target.taskStatus, "ready");
+    // 토큰은 발급된 대상에만 쓸 수 있고 한 번만 유효
+    const other = await callError("delete_index", { indexId: ids.indexId, confirmationToken: preview.confirmationToken });
+    assert.equal(other.errorType, "ConfirmationError");
+    const reused = await callError("delete_task", { taskId: ids.taskId, confirmationToken: preview.confirmationToken });
+    assert.match(reused.message, /유효하지 않거나 이미 사용/);
+    assert.equal(mock.state.tasks.has(ids.taskId), true);
+
+    const again = await call("delete_task", { taskId: ids.taskId });
+    await call("delete_task", { taskId: ids.taskId, confirmationToken: again.confirmationToken });
+    assert.equal(mock.state.tasks.has(ids.taskId), false);
+
+    // 인덱스가 이미 삭제된 작업도 인덱스 이름 없이 미리보기 가능
+    const gone = mock.state.createIndex("e2e-gone");
+    const orphan = mock.state.createTask(gone._id, "orphan.mp4");
+    orphan.status = "failed";
+    mock.state.indexes.delete(gone._id);
+    const orphanPreview = await call("delete_task", { taskId: orphan._id, dryRun: true });
+    assert.equal(orphanPreview.target.indexId, gone._id);
+    assert.equal(orphanPreview.target.indexName, null);
+  }],
+  ["update_index", async () => {
+    await call("update_index", { indexId: ids.indexId, indexName: "e2e-index-renamed" });
+    assert.equal(mock.state.indexes.get(ids.indexId)?.index_name, "e2e-index-renamed");
+  }],
+  ["delete_index", async () => {
+    // 보호된 인덱스(prod-*)는 미리보기도 삭제도 거부하고 DELETE 요청을 보내지 않음
+    const protectedIndex = mock.state.createIndex("prod-main");
+    const refused = await callError("delete_index", { indexId: protectedIndex._id, dryRun: true });
+    assert.equal(refused.errorType, "ProtectedResourceError");
+    assert.match(refused.message, /prod-main/);
+    assert.equal(mock.requests.some((r) => r.method === "DELETE" && r.path === `/indexes/${protectedIndex._id}`), false);
+
+    const preview = await call("delete_index", { indexId: ids.indexId });
+    assert.equal(preview.target.indexName, "e2e-index-renamed");
+    assert.equal(preview.target.videoCount, mock.state.indexes.get(ids.indexId).video_count);
+    assert.equal(mock.state.indexes.has(ids.indexId), true);
+    await call("delete_index", { indexId: ids.indexId, confirmationToken: preview.confirmationToken });
+    assert.equal(mock.state.indexes.has(ids.indexId), false);
+  }]
+];
+
+test("every tool in ListTools has an end-to-end scenario", async () => {
+  const { tools } = await client.listTools();
+  const listed = tools.map((tool) => tool.name).sort();
+  const covered = TOOL_SCENARIOS.map(([name]) => name).sort();
+  assert.deepEqual(covered, listed);
+  for (const tool of tools) {
+    assert.ok(tool.outputSchema, `${tool.name} has no outputSchema`);
+  }
+});
+
+for (const [name, scenario] of TOOL_SCENARIOS) {
+  test(`tool ${name}`, scenario);
+}
+
+test("invalid arguments are rejected before any API request", async () => {
+  const before = mock.requests.length;
+  const error = await callError("list_videos", { indexId: "", pageLimit: 500, sortBy: "size" });
+  assert.equal(error.errorType, "InvalidArgumentsError");
+  assert.deepEqual(error.fieldErrors.map((e: any) => e.field).sort(), ["indexId", "pageLimit", "sortBy"]);
+  assert.equal(mock.requests.length, before);
+});
+
+test("401 from the API is reported as AuthenticationError", async () => {
+  const unauthorized = await connect({ apiKey: "tlk_wrong_key" });
+  try {
+    const error = await callError("list_indexes", {}, unauthorized);
+    assert.equal(error.errorType, "AuthenticationError");
+    assert.equal(error.httpStatus, 401);
+    assert.equal(error.code, "api_key_invalid");
+  } finally {
+    await unauthorized.close();
+  }
+});
+
+test("404 from the API is reported as NotFoundError", async () => {
+  const error = await callError("get_task", { taskId: "does-not-exist" });
+  assert.equal(error.errorType, "NotFoundError");
+  assert.equal(error.httpStatus, 404);
+});
+
+test("429 is retried after Retry-After", async () => {
+  mock.injectError({ method: "GET", path: "/indexes", mode: 429 });
+  const before = mock.requests.length;
+  await call("list_indexes");
+  assert.equal(mock.requests.length - before, 2);
+});
+
+test("500 is retried for GET but reported for POST", async () => {
+  mock.injectError({ method: "GET", path: "/tasks", mode: 500 });
+  await call("list_tasks");
+
+  mock.injectError({ method: "POST", path: "/gist", mode: 500 });
+  const error = await callError("generate_gist", { videoId: "any", types: ["title"] });
+  assert.equal(error.errorType, "ServerError");
+  assert.equal(error.httpStatus, 500);
+});
+
+test("wait_for_task keeps polling through transient errors", async () => {
+  const index = mock.state.createIndex("e2e-wait");
+  const task = mock.state.createTask(index._id, "flaky.mp4");
+  // 클라이언트 재시도(2회)를 모두 소진하는 5xx도 작업 실패로 보지 않음
+  mock.injectError({ method: "GET", path: `/tasks/${task._id}`, mode: 500, times: 3 });
+  const res = await call("wait_for_task", { taskIds: [task._id], timeoutSec: 10, pollIntervalSec: 1 });
+  assert.deepEqual(res.ready, [task._id]);
+  assert.deepEqual(res.failed, []);
+
+  const missing = await call("wait_for_task", { taskIds: ["does-not-exist"], timeoutSec: 5, pollIntervalSec: 1 });
+  assert.deepEqual(missing.failed, ["does-not-exist"]);
+  mock.state.indexes.delete(index._id);
+});
+
+test("malformed JSON responses are reported as ServerError", async () => {
+  mock.injectError({ path: "/indexes", mode: "malformed" });
+  const error = await callError("list_indexes");
+  assert.equal(error.errorType, "ServerError");
+  assert.match(error.message, /Malformed JSON/);
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createConfirmationStore, createProtectedIndexGuard, namePatternToRegExp } from "../src/guardrails.js";
+import { ConfirmationError, ProtectedResourceError } from "../src/errors.js";
+
+/**
+ * 삭제 확인 토큰과 보호 인덱스 검사 테스트.
+ */
+
+test("matches index name patterns case-insensitively", () => {
+  assert.ok(namePatternToRegExp("prod-*").test("PROD-main"));
+  assert.ok(namePatternToRegExp("team-?").test("team-a"));
+  assert.equal(namePatternToRegExp("team-?").test("team-ab"), false);
+  assert.equal(namePatternToRegExp("a.b").test("axb"), false);
+});
+
+test("refuses deletions in protected indexes by ID or name", () => {
+  const guard = createProtectedIndexGuard(["prod-*", "6650a1b2c3d4e5f6a7b8c9d0"]);
+  assert.throws(() => guard("delete_video", { indexId: "idx-1", indexName: "prod-archive" }), ProtectedResourceError);
+  assert.throws(() => guard("delete_index", { indexId: "6650a1b2c3d4e5f6a7b8c9d0", indexName: null }), /보호 규칙: "6650a1b2c3d4e5f6a7b8c9d0"/);
+  assert.doesNotThrow(() => guard("delete_index", { indexId: "idx-2", indexName: "staging-prod" }));
+});
+
+test("confirmation tokens are bound to the target, single-use and expire", () => {
+  let clock = 0;
+  const store = createConfirmationStore(60, () => clock);
+  const target = { indexId: "idx-1", videoId: "vid-1" };
+
+  const { confirmationToken } = store.issue("delete_video", target, "account-a");
+  // 인자 순서가 달라도 같은 대상
+  assert.doesNotThrow(() => store.redeem(confirmationToken, "delete_video", { videoId: "vid-1", indexId: "idx-1" }, "account-a"));
+  assert.throws(() => store.redeem(confirmationToken, "delete_video", target, "account-a"), ConfirmationError);
+
+  const other = store.issue("delete_video", target, "account-a");
+  assert.throws(() => store.redeem(other.confirmationToken, "delete_video", { ...target, videoId: "vid-2" }, "account-a"), /다른 도구 또는 대상/);
+  const foreign = store.issue("delete_video", target, "account-a");
+  assert.throws(() => store.redeem(foreign.confirmationToken, "delete_video", target, "account-b"), /유효하지 않거나/);
+
+  const expiring = store.issue("delete_video", target, "account-a");
+  clock = 60_000;
+  assert.throws(() => store.redeem(expiring.confirmationToken, "delete_video", target, "account-a"), /만료/);
+});
@@ -0,0 +1,613 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { realpathSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+/**
+ * 오프라인 테스트용 TwelveLabs API(v1.3) 대역 서버.
+ * 인덱스, 비디오, 인덱싱 작업, 검색, generate/gist/summarize, 임베딩, import 엔드포인트를
+ * 실제 응답과 같은 형태의 고정 데이터로 흉내 내고, 401/404/429/500/잘못된 JSON 오류를 주입할 수 있습니다.
+ *
+ * 직접 실행하면 독립 서버로 뜹니다 (MCP 서버를 TWELVELABS_BASE_URL로 연결해 수동 확인용):
+ *   node dist/test/mockTwelveLabsServer.js --port 4010
+ */
+
+export const MOCK_API_KEY = "tlk_mock_api_key";
+
+export type MockErrorMode = 401 | 404 | 429 | 500 | "malformed";
+
+export interface MockErrorRule {
+  method?: string;
+  // 경로 앞부분 문자열 또는 정규식 (예: "/generate", /^\/tasks\//)
+  path: string | RegExp;
+  mode: MockErrorMode;
+  // 주입할 횟수 (기본 1)
+  times?: number;
+}
+
+export interface MockRequestLog {
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  body?: unknown;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  apiKeys?: string[];
+  // 작업이 ready가 되기까지 필요한 조회 횟수 (기본 2: pending → indexing → ready)
+  pollsUntilReady?: number;
+}
+
+const SEARCH_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const FIXTURE_TRANSCRIPT = [
+  { start: 0, end: 12.5, value: "Welcome to the quarterly product review." },
+  { start: 12.5, end: 31, value: "Sales grew twenty percent compared to last quarter." },
+  { start: 31, end: 58.2, value: "Next, the roadmap for the mobile app." }
+];
+
+function now() {
+  return new Date().toISOString();
+}
+
+function mockId() {
+  return randomUUID().replace(/-/g, "").substring(0, 24);
+}
+
+// 결정적인 가짜 벡터 (문자열 해시 기반)
+function fakeVector(seed: string, dimensions = 8) {
+  let hash = 0;
+  for (const char of seed) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return Array.from({ length: dimensions }, (_, i) => Math.round(Math.sin(hash + i) * 1e4) / 1e4);
+}
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+export function createMockTwelveLabsState(pollsUntilReady = 2) {
+  const indexes = new Map<string, any>();
+  const videos = new Map<string, Map<string, any>>();
+  const tasks = new Map<string, any>();
+  const taskPolls = new Map<string, number>();
+  const embedTasks = new Map<string, any>();
+  const searchPages = new Map<string, { pages: any[][]; pageInfo: any; expiresAt: number }>();
+  const imports = new Map<string, any[]>();
+
+  function createIndex(name: string, models: any[] = [{ model_name: "marengo2.7", model_options: ["visual", "audio"] }], addons: string[] = []) {
+    const index = {
+      _id: mockId(),
+      index_name: name,
+      models,
+      addons,
+      video_count: 0,
+      total_duration: 0,
+      created_at: now(),
+      updated_at: now(),
+      expires_at: null
+    };
+    indexes.set(index._id, index);
+    videos.set(index._id, new Map());
+    return index;
+  }
+
+  function addVideo(indexId: string, filename: string, duration: number, userMetadata: Record<string, unknown> = {}) {
+    const index = indexes.get(indexId);
+    if (!index) throw new MockHttpError(404, "index_not_found", `Index ${indexId} does not exist`);
+    const video = {
+      _id: mockId(),
+      created_at: now(),
+      updated_at: now(),
+      indexed_at: now(),
+      system_metadata: { filename, duration, fps: 30, width: 1920, height: 1080, size: Math.round(duration * 250_000) },
+      user_metadata: userMetadata,
+      hls: {
+        video_url: `https://mock.twelvelabs.io/hls/${indexId}/${filename}.m3u8`,
+        thumbnail_urls: [`https://mock.twelvelabs.io/thumbnails/${indexId}/${filename}.jpg`],
+        status: "COMPLETE"
+      },
+      transcription: FIXTURE_TRANSCRIPT
+    };
+    videos.get(indexId)!.set(video._id, video);
+    index.video_count++;
+    index.total_duration += duration;
+    return video;
+  }
+
+  function createTask(indexId: string, filename: string, duration = 95.5) {
+    if (!indexes.has(indexId)) throw new MockHttpError(404, "index_not_found", `Index ${indexId} does not exist`);
+    const task = {
+      _id: mockId(),
+      index_id: indexId,
+      video_id: null as string | null,
+      status: "pending",
+      system_metadata: { filename, duration },
+      created_at: now(),
+      updated_at: now()
+    };
+    tasks.set(task._id, task);
+    taskPolls.set(task._id, 0);
+    return task;
+  }
+
+  // 조회할 때마다 작업 상태를 한 단계씩 진행 (pending → indexing → ready)
+  function pollTask(taskId: string) {
+    const task = tasks.get(taskId);
+    if (!task) throw new MockHttpError(404, "task_not_found", `Task ${taskId} does not exist`);
+    if (task.status !== "ready" && task.status !== "failed") {
+      const polls = (taskPolls.get(taskId) ?? 0) + 1;
+      taskPolls.set(taskId, polls);
+      if (polls >= pollsUntilReady) {
+        const video = addVideo(task.index_id, task.system_metadata.filename, task.system_metadata.duration);
+        task.video_id = video._id;
+        task.status = "ready";
+      } else {
+        task.status = "indexing";
+        task.process = { percentage: Math.round((polls / pollsUntilReady) * 100), remain_seconds: 10 };
+      }
+      task.updated_at = now();
+    }
+    return task;
+  }
+
+  function findVideo(videoId: string) {
+    for (const [indexId, indexVideos] of videos) {
+      const video = indexVideos.get(videoId);
+      if (video) return { indexId, video };
+    }
+    throw new MockHttpError(404, "video_not_found", `Video ${videoId} does not exist`);
+  }
+
+  // 인덱스의 모든 영상에서 결정적인 검색 결과 생성
+  function search(indexId: string, query: string, groupBy: string, pageLimit: number) {
+    const indexVideos = videos.get(indexId);
+    if (!indexVideos) throw new MockHttpError(404, "index_not_found", `Index ${indexId} does not exist`);
+    const clips: any[] = [];
+    for (const video of indexVideos.values()) {
+      const duration = video.system_metadata.duration;
+      for (let start = 0, rank = 1; start < duration; start += 20, rank++) {
+        clips.push({
+          video_id: video._id,
+          start,
+          end: Math.min(start + 20, duration),
+          rank: 0,
+          score: Math.round((90 - rank * 3) * 100) / 100,
+          confidence: rank <= 2 ? "high" : rank <= 4 ? "medium" : "low",
+          thumbnail_url: `https://mock.twelvelabs.io/thumbnails/${video._id}/${start}.jpg`,
+          transcription: query ? `... ${query} ...` : undefined
+        });
+      }
+    }
+    clips.sort((a, b) => b.score - a.score || a.video_id.localeCompare(b.video_id) || a.start - b.start);
+    clips.forEach((clip, i) => (clip.rank = i + 1));
+
+    const items = groupBy === "video"
+      ? [...new Set(clips.map((c) => c.video_id))].map((id) => ({ id, clips: clips.filter((c) => c.video_id === id) }))
+      : clips;
+    const pages: any[][] = [];
+    for (let i = 0; i < items.length; i += pageLimit) pages.push(items.slice(i, i + pageLimit));
+    if (pages.length === 0) pages.push([]);
+    const pageInfo = { limit_per_page: pageLimit, total_results: items.length, page_expires_at: new Date(Date.now() + SEARCH_TOKEN_TTL_MS).toISOString() };
+    return searchPage({ pages, pageInfo, expiresAt: Date.now() + SEARCH_TOKEN_TTL_MS }, 0);
+  }
+
+  function searchPage(result: { pages: any[][]; pageInfo: any; expiresAt: number }, page: number) {
+    let nextPageToken: string | undefined;
+    if (page + 1 < result.pages.length) {
+      nextPageToken = `${mockId()}-${page + 1}`;
+      searchPages.set(nextPageToken, result);
+    }
+    return {
+      data: result.pages[page],
+      page_info: { ...result.pageInfo, ...(nextPageToken ? { next_page_token: nextPageToken } : {}) },
+      search_pool: { total_count: result.pageInfo.total_results, index_id: null }
+    };
+  }
+
+  function nextSearchPage(token: string) {
+    const result = searchPages.get(token);
+    if (!result || result.expiresAt < Date.now()) {
+      throw new MockHttpError(404, "search_page_token_expired", `Page token ${token} is invalid or has expired`);
+    }
+    searchPages.delete(token);
+    return searchPage(result, Number(token.split("-").pop()));
+  }
+
+  return {
+    indexes,
+    videos,
+    tasks,
+    embedTasks,
+    imports,
+    createIndex,
+    addVideo,
+    createTask,
+    pollTask,
+    findVideo,
+    search,
+    nextSearchPage
+  };
+}
+
+export type MockTwelveLabsState = ReturnType<typeof createMockTwelveLabsState>;
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+// JSON 또는 multipart/form-data 본문을 평범한 객체로 변환 (반복 필드는 배열, 파일은 { filename, size })
+async function parseBody(req: IncomingMessage, raw: Buffer): Promise<Record<string, any>> {
+  const contentType = req.headers["content-type"] ?? "";
+  if (raw.length === 0) return {};
+  if (contentType.includes("application/json")) {
+    try {
+      return JSON.parse(raw.toString("utf8"));
+    } catch {
+      throw new MockHttpError(400, "parameter_invalid", "Request body is not valid JSON");
+    }
+  }
+  if (contentType.includes("multipart/form-data")) {
+    const form = await new Request("http://mock/", { method: "POST", headers: { "content-type": contentType }, body: raw }).formData();
+    const fields: Record<string, any> = {};
+    for (const [name, value] of form.entries()) {
+      const parsed = typeof value === "string" ? value : { filename: (value as File).name, size: (value as File).size };
+      fields[name] = name in fields ? [...[fields[name]].flat(), parsed] : parsed;
+    }
+    return fields;
+  }
+  return { raw: raw.toString("utf8") };
+}
+
+function asArray(value: unknown): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const page = Number(query.get("page") ?? 1);
+  const limit = Number(query.get("page_limit") ?? 10);
+  return {
+    data: items.slice((page - 1) * limit, page * limit),
+    page_info: { page, limit_per_page: limit, total_page: Math.max(1, Math.ceil(items.length / limit)), total_results: items.length }
+  };
+}
+
+function requireField(body: Record<string, any>, name: string) {
+  if (body[name] === undefined || body[name] === "") {
+    throw new MockHttpError(400, "parameter_not_provided", `The ${name} parameter is required but was not provided.`);
+  }
+  return body[name];
+}
+
+/**
+ * 상태와 요청을 받아 응답 본문을 만듭니다. 스트리밍 응답은 res에 직접 쓰고 undefined를 반환합니다.
+ */
+function route(state: MockTwelveLabsState, method: string, path: string, query: URLSearchParams, body: Record<string, any>, res: ServerResponse): unknown {
+  const segments = path.split("/").filter(Boolean);
+  const [resource, id, sub, subId] = segments;
+
+  if (resource === "indexes") {
+    if (!id) {
+      if (method === "GET") {
+        const name = query.get("index_name");
+        const items = [...state.indexes.values()].filter((index) => !name || index.index_name === name);
+        return paginate(items, query);
+      }
+      if (method === "POST") {
+        const name = requireField(body, "index_name");
+        if ([...state.indexes.values()].some((index) => index.index_name === name)) {
+          throw new MockHttpError(409, "index_name_already_exists", `Index name ${name} already exists`);
+        }
+        const index = state.createIndex(name, requireField(body, "models"), body.addons ?? []);
+        return { _id: index._id };
+      }
+    }
+    const index = state.indexes.get(id);
+    if (!index) throw new MockHttpError(404, "index_not_found", `Index ${id} does not exist`);
+    if (!sub) {
+      if (method === "GET") return index;
+      if (method === "PUT") {
+        index.index_name = requireField(body, "index_name");
+        index.updated_at = now();
+        return undefined;
+      }
+      if (method === "DELETE") {
+        state.indexes.delete(id);
+        state.videos.delete(id);
+        return undefined;
+      }
+    }
+    if (sub === "videos") {
+      const indexVideos = state.videos.get(id)!;
+      if (!subId && method === "GET") {
+        const filename = query.get("filename");
+        return paginate([...indexVideos.values()].filter((v) => !filename || v.system_metadata.filename.includes(filename)), query);
+      }
+      const video = indexVideos.get(subId);
+      if (!video) throw new MockHttpError(404, "video_not_found", `Video ${subId} does not exist in index ${id}`);
+      if (method === "GET") {
+        const { transcription, ...rest } = video;
+        return query.get("transcription") === "true" ? video : rest;
+      }
+      if (method === "PUT") {
+        for (const [key, value] of Object.entries(body.user_metadata ?? {})) {
+          if (value === null) delete video.user_metadata[key];
+          else video.user_metadata[key] = value;
+        }
+        video.updated_at = now();
+        return undefined;
+      }
+      if (method === "DELETE") {
+        indexVideos.delete(subId);
+        index.video_count--;
+        index.total_duration -= video.system_metadata.duration;
+        return undefined;
+      }
+    }
+  }
+
+  if (resource === "tasks") {
+    if (!id && method === "GET") {
+      const indexId = query.get("index_id");
+      const statuses = query.get("status")?.split(",");
+      const items = [...state.tasks.values()].filter((t) => (!indexId || t.index_id === indexId) && (!statuses || statuses.includes(t.status)));
+      return paginate(items, query);
+    }
+    if (!id && method === "POST") {
+      const indexId = requireField(body, "index_id");
+      const source = body.video_file?.filename ?? (body.video_url ? String(body.video_url).split("/").pop() : undefined);
+      if (!source) throw new MockHttpError(400, "parameter_not_provided", "Either video_url or video_file is required.");
+      const task = state.createTask(indexId, source);
+      return { _id: task._id, video_id: null };
+    }
+    if (method === "GET") return state.pollTask(id);
+    if (method === "DELETE") {
+      if (!state.tasks.delete(id)) throw new MockHttpError(404, "task_not_found", `Task ${id} does not exist`);
+      return undefined;
+    }
+  }
+
+  if (resource === "search") {
+    if (!id && method === "POST") {
+      const indexId = requireField(body, "index_id");
+      if (!body.query_text && !body.query_media_file && !body.query_media_url) {
+        throw new MockHttpError(400, "parameter_not_provided", "Either query_text or query_media_* is required.");
+      }
+      return state.search(indexId, body.query_text ?? "", body.group_by ?? "clip", Number(body.page_limit ?? 10));
+    }
+    if (id && method === "GET") return state.nextSearchPage(decodeURIComponent(id));
+  }
+
+  if (resource === "generate" && method === "POST") {
+    const videoId = requireField(body, "video_id");
+    state.findVideo(videoId);
+    const text = `Mock answer for "${body.prompt}": the video discusses quarterly sales growth and the mobile roadmap.`;
+    const usage = { output_tokens: text.split(" ").length };
+    if (body.stream) {
+      const generationId = mockId();
+      res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      res.write(JSON.stringify({ event_type: "stream_start", metadata: { generation_id: generationId } }) + "\n");
+      for (const word of text.split(/(?<= )/)) {
+        res.write(JSON.stringify({ event_type: "text_generation", text: word }) + "\n");
+      }
+      res.end(JSON.stringify({ event_type: "stream_end", metadata: { generation_id: generationId, usage } }) + "\n");
+      return undefined;
+    }
+    return { id: mockId(), data: text, finish_reason: "stop", usage };
+  }
+
+  if (resource === "gist" && method === "POST") {
+    state.findVideo(requireField(body, "video_id"));
+    const types = asArray(requireField(body, "types"));
+    return {
+      id: mockId(),
+      ...(types.includes("title") ? { title: "Quarterly Product Review" } : {}),
+      ...(types.includes("topic") ? { topics: ["Sales", "Product roadmap"] } : {}),
+      ...(types.includes("hashtag") ? { hashtags: ["quarterlyreview", "roadmap"] } : {}),
+      usage: { output_tokens: 12 }
+    };
+  }
+
+  if (resource === "summarize" && method === "POST") {
+    state.findVideo(requireField(body, "video_id"));
+    const type = requireField(body, "type");
+    const base = { id: mockId(), summarize_type: type, usage: { output_tokens: 40 } };
+    if (type === "summary") return { ...base, summary: "The team reviews quarterly sales growth and presents the mobile app roadmap." };
+    if (type === "chapter") {
+      return {
+        ...base,
+        chapters: [
+          { chapter_number: 0, start_sec: 0, end_sec: 31, chapter_title: "Sales review", chapter_summary: "Sales grew twenty percent." },
+          { chapter_number: 1, start_sec: 31, end_sec: 58, chapter_title: "Mobile roadmap", chapter_summary: "Plans for the mobile app." }
+        ]
+      };
+    }
+    if (type === "highlight") {
+      return {
+        ...base,
+        highlights: [{ start_sec: 12, end_sec: 31, highlight: "Sales up 20%", highlight_summary: "Quarterly sales grew twenty percent." }]
+      };
+    }
+    throw new MockHttpError(400, "parameter_invalid", `Invalid summarize type: ${type}`);
+  }
+
+  if (resource === "embed") {
+    if (!id && method === "POST") {
+      const segment = (source: string) => ({ segments: [{ float: fakeVector(source) }], error_message: null });
+      return {
+        model_name: requireField(body, "model_name"),
+        ...(body.text ? { text_embedding: segment(body.text) } : {}),
+        ...(body.image_url || body.image_file ? { image_embedding: segment("image") } : {}),
+        ...(body.audio_url || body.audio_file ? { audio_embedding: segment("audio") } : {})
+      };
+    }
+    if (id === "tasks" && !sub && method === "POST") {
+      if (!body.video_url && !body.video_file) throw new MockHttpError(400, "parameter_not_provided", "Either video_url or video_file is required.");
+      const task = { _id: mockId(), model_name: body.model_name, status: "processing", created_at: now(), polls: 0 };
+      state.embedTasks.set(task._id, task);
+      return { _id: task._id };
+    }
+    if (id === "tasks" && sub) {
+      const task = state.embedTasks.get(sub);
+      if (!task) throw new MockHttpError(404, "embed_task_not_found", `Embedding task ${sub} does not exist`);
+      const { polls, ...visible } = task;
+      if (subId === "status" && method === "GET") {
+        task.polls++;
+        if (task.polls >= 2) task.status = "ready";
+        return visible;
+      }
+      if (!subId && method === "GET") {
+        if (task.status !== "ready") return visible;
+        return {
+          ...visible,
+          video_embedding: {
+            metadata: { input_url: "https://example.com/video.mp4", video_clip_length: 6, duration: 12 },
+            segments: [
+              { start_offset_sec: 0, end_offset_sec: 6, embedding_scope: "clip", embedding_option: "visual-text", float: fakeVector("clip-0") },
+              { start_offset_sec: 6, end_offset_sec: 12, embedding_scope: "clip", embedding_option: "visual-text", float: fakeVector("clip-1") }
+            ]
+          }
+        };
+      }
+    }
+  }
+
+  if (resource === "import") {
+    if (!id && method === "POST") {
+      const integrationId = requireField(body, "integration_id");
+      const indexId = requireField(body, "index_id");
+      if (!state.indexes.has(indexId)) throw new MockHttpError(404, "index_not_found", `Index ${indexId} does not exist`);
+      const importId = mockId();
+      const videosToImport = ["import-a.mp4", "import-b.mp4"].map((filename) => ({ video_id: mockId(), filename, status: "queued", created_at: now() }));
+      state.imports.set(`${integrationId}:${indexId}`, videosToImport);
+      return { _id: importId, video_status: videosToImport.map((v) => ({ filename: v.filename, status: v.status })) };
+    }
+    if (id === "status" && method === "GET") {
+      const key = `${requireField(Object.fromEntries(query), "integration_id")}:${requireField(Object.fromEntries(query), "index_id")}`;
+      return { data: state.imports.get(key) ?? [] };
+    }
+    if (id === "logs" && method === "GET") {
+      const integrationId = requireField(Object.fromEntries(query), "integration_id");
+      const logs = [...state.imports.entries()]
+        .filter(([key]) => key.startsWith(`${integrationId}:`))
+        .map(([key, items]) => ({ index_id: key.split(":")[1], video_status: { queued: items.length }, failed_files: [] }));
+      return { data: logs };
+    }
+  }
+
+  throw new MockHttpError(404, "endpoint_not_found", `No mock route for ${method} /${segments.join("/")}`);
+}
+
+export interface RunningMockServer {
+  url: string;
+  port: number;
+  state: MockTwelveLabsState;
+  requests: MockRequestLog[];
+  // 조건에 맞는 다음 요청(들)에 오류를 주입
+  injectError: (rule: MockErrorRule) => void;
+  clearErrors: () => void;
+  close: () => Promise<void>;
+}
+
+export async function startMockTwelveLabsServer(options: MockServerOptions = {}): Promise<RunningMockServer> {
+  const apiKeys = new Set(options.apiKeys ?? [MOCK_API_KEY]);
+  const state = createMockTwelveLabsState(options.pollsUntilReady);
+  const requests: MockRequestLog[] = [];
+  let errorRules: (MockErrorRule & { remaining: number })[] = [];
+
+  function takeInjectedError(method: string, path: string) {
+    const rule = errorRules.find((r) =>
+      r.remaining > 0 &&
+      (!r.method || r.method === method) &&
+      (typeof r.path === "string" ? path.startsWith(r.path) : r.path.test(path))
+    );
+    if (rule) rule.remaining--;
+    errorRules = errorRules.filter((r) => r.remaining > 0);
+    return rule?.mode;
+  }
+
+  function sendError(res: ServerResponse, status: number, code: string, message: string, headers: Record<string, string> = {}) {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify({ code, message }));
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://mock");
+    const method = req.method ?? "GET";
+    const path = url.pathname.replace(/^\/v1\.3/, "");
+    try {
+      const raw = await readBody(req);
+      const body = await parseBody(req, raw);
+      requests.push({ method, path, query: Object.fromEntries(url.searchParams), body });
+
+      const injected = takeInjectedError(method, path);
+      if (injected === 401) return sendError(res, 401, "api_key_invalid", "The API key you provided is not valid.");
+      if (injected === 404) return sendError(res, 404, "resource_not_found", "The requested resource was not found.");
+      if (injected === 429) return sendError(res, 429, "too_many_requests", "Rate limit exceeded.", { "Retry-After": "0" });
+      if (injected === 500) return sendError(res, 500, "internal_error", "Internal server error.");
+      if (injected === "malformed") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end('{"data": [ truncated');
+        return;
+      }
+
+      const apiKey = req.headers["x-api-key"];
+      if (typeof apiKey !== "string" || !apiKeys.has(apiKey)) {
+        return sendError(res, 401, "api_key_invalid", "The API key you provided is not valid.");
+      }
+
+      const result = route(state, method, path, url.searchParams, body, res);
+      if (res.headersSent) return;
+      if (result === undefined) {
+        res.writeHead(method === "DELETE" ? 204 : 200);
+        res.end();
+        return;
+      }
+      res.writeHead(method === "POST" && (path === "/indexes" || path === "/tasks" || path === "/embed/tasks") ? 201 : 200, {
+        "Content-Type": "application/json"
+      });
+      res.end(JSON.stringify(result));
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        sendError(res, error.status, error.code, error.message);
+      } else {
+        console.error("mock server error:", error);
+        sendError(res, 500, "internal_error", String(error));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : options.port ?? 0;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1.3`,
+    port,
+    state,
+    requests,
+    injectError: (rule) => errorRules.push({ ...rule, remaining: rule.times ?? 1 }),
+    clearErrors: () => (errorRules = []),
+    close: () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+// 독립 실행: 예시 인덱스와 영상을 만들어 두고 요청을 기다림
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const portArg = process.argv.indexOf("--port");
+  const mock = await startMockTwelveLabsServer({ port: portArg >= 0 ? Number(process.argv[portArg + 1]) : 4010 });
+  const index = mock.state.createIndex("demo-index");
+  mock.state.addVideo(index._id, "quarterly-review.mp4", 58.2);
+  mock.state.addVideo(index._id, "product-demo.mp4", 125);
+  console.error(`Mock TwelveLabs API on ${mock.url} (x-api-key: ${MOCK_API_KEY}, index ${index._id})`);
+  process.once("SIGINT", () => mock.close().then(() => process.exit(0)));
+  process.once("SIGTERM", () => mock.close().then(() => process.exit(0)));
+}
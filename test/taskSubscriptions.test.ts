@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createTaskSubscriptionManager } from "../src/taskSubscriptions.js";
+import { NotFoundError, ServerError } from "../src/errors.js";
+
+/**
+ * 작업 구독 폴링의 오류 처리 테스트.
+ */
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("drops the subscription and notifies on non-retryable errors", async () => {
+  let polls = 0;
+  const stopped: string[] = [];
+  const manager = createTaskSubscriptionManager({
+    fetchStatus: async () => {
+      polls++;
+      throw new NotFoundError("GET /tasks/task-1 failed with 404");
+    },
+    onUpdated: () => {},
+    onStopped: (uri) => { stopped.push(uri); },
+    intervalMs: 5
+  });
+  manager.subscribe("task-1");
+  await wait(50);
+  assert.equal(polls, 1);
+  assert.equal(manager.size, 0);
+  assert.deepEqual(stopped, ["twelvelabs://tasks/task-1"]);
+});
+
+test("backs off on transient errors and recovers", async () => {
+  const pollTimes: number[] = [];
+  const updates: string[] = [];
+  const manager = createTaskSubscriptionManager({
+    fetchStatus: async () => {
+      pollTimes.push(Date.now());
+      if (pollTimes.length === 1) return "indexing";
+      if (pollTimes.length <= 3) throw new ServerError("GET /tasks/task-2 failed with 503");
+      return "ready";
+    },
+    onUpdated: (_uri, _taskId, status) => { updates.push(status); },
+    intervalMs: 20
+  });
+  manager.subscribe("task-2");
+  await wait(400);
+  manager.clear();
+  assert.equal(pollTimes.length, 4);
+  assert.deepEqual(updates, ["ready"]);
+  // 두 번째 오류 뒤 대기(80ms)가 첫 번째 오류 뒤 대기(40ms)보다 김
+  assert.ok(pollTimes[3] - pollTimes[2] > pollTimes[2] - pollTimes[1]);
+});
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  normalizeTimeline,
+  formatTimestamp,
+  formatTimecode,
+  formatClock,
+  formatSrt,
+  formatYouTubeChapters,
+  formatOtio
+} from "../src/timeline.js";
+
+/**
+ * 타임라인 정렬/겹침 처리와 형식별 타임스탬프 테스트.
+ */
+
+const CHAPTERS = [
+  { chapter_number: 1, start_sec: 95.5, end_sec: 200, chapter_title: "Roadmap", chapter_summary: "Mobile plans." },
+  { chapter_number: 0, start_sec: 0, end_sec: 100, chapter_title: "Sales review" },
+  { chapter_number: 2, start_sec: 300, end_sec: 250, chapter_title: "Broken" }
+];
+
+test("formats timestamps for each format", () => {
+  assert.equal(formatTimestamp(3723.4567, "."), "01:02:03.457");
+  assert.equal(formatTimestamp(59.9996, ","), "00:01:00,000");
+  assert.equal(formatClock(3723.9), "1:02:03");
+  assert.equal(formatClock(65), "1:05");
+  assert.equal(formatTimecode(61.5, 25), "00:01:01:13");
+  assert.equal(formatTimecode(10, 29.97), "00:00:10:00");
+  // 29.97fps의 1시간은 107892프레임이므로 비드롭 타임코드는 1시간보다 조금 짧음
+  assert.equal(formatTimecode(3600, 29.97), "00:59:56:12");
+});
+
+test("sorts items, drops invalid ranges and trims overlaps", () => {
+  const { entries, adjustments } = normalizeTimeline(CHAPTERS, "chapter");
+  assert.deepEqual(entries, [
+    { start: 0, end: 95.5, title: "Sales review" },
+    { start: 95.5, end: 200, title: "Roadmap", summary: "Mobile plans." }
+  ]);
+  assert.deepEqual(adjustments, [
+    "Dropped item #3 \"Broken\": end 250s is before start 300s",
+    "Sorted 2 items by start time",
+    "Trimmed \"Sales review\" (0:00-1:40) to end at 1:35 where \"Roadmap\" (1:35-3:20) starts"
+  ]);
+});
+
+test("merges or keeps overlapping ranges on request", () => {
+  const highlights = [
+    { start_sec: 10, end_sec: 20, highlight: "Goal" },
+    { start_sec: 15, end_sec: 25, highlight: "Replay", highlight_summary: "Slow motion." }
+  ];
+  assert.deepEqual(normalizeTimeline(highlights, "highlight", "merge").entries, [
+    { start: 10, end: 25, title: "Goal / Replay", summary: "Slow motion." }
+  ]);
+  const kept = normalizeTimeline(highlights, "highlight", "keep");
+  assert.equal(kept.entries.length, 2);
+  assert.deepEqual(kept.adjustments, ["Kept 1 overlapping item(s) as is"]);
+
+  // 겹치는 구간은 OTIO에서 별도 트랙으로 나뉨
+  const otio = JSON.parse(formatOtio(kept.entries, { kind: "highlight", frameRate: 24 }));
+  assert.equal(otio.tracks.children.length, 2);
+  assert.deepEqual(otio.tracks.children[1].children.map((child: any) => child.OTIO_SCHEMA), ["Gap.1", "Clip.2"]);
+  assert.deepEqual(otio.tracks.children[0].children[1].source_range.start_time, { OTIO_SCHEMA: "RationalTime.1", rate: 24, value: 240 });
+});
+
+test("writes numbered SRT cues on single lines", () => {
+  const srt = formatSrt([{ start: 1.25, end: 3, title: "Line one\n\nstill one", summary: "Summary" }]);
+  assert.equal(srt, "1\n00:00:01,250 --> 00:00:03,000\nLine one still one\nSummary\n");
+});
+
+test("applies YouTube chapter rules", () => {
+  const { text, warnings } = formatYouTubeChapters([
+    { start: 5, end: 60, title: "Kickoff" },
+    { start: 60, end: 65, title: "Break" }
+  ]);
+  assert.equal(text, "0:00 Intro\n0:05 Kickoff\n1:00 Break\n");
+  assert.deepEqual(warnings, [
+    "Added an \"Intro\" chapter at 0:00 because YouTube chapters must start at 0:00",
+    "Chapter \"Intro\" at 0:00 is shorter than 10 seconds",
+    "Chapter \"Break\" at 1:00 is shorter than 10 seconds"
+  ]);
+});
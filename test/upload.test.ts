@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+/**
+ * 읽을 파일 경로를 데이터 디렉터리로 제한하는지 확인하는 테스트.
+ */
+
+const dataDir = mkdtempSync(path.join(tmpdir(), "twelvelabs-upload-data-"));
+const outsideDir = mkdtempSync(path.join(tmpdir(), "twelvelabs-upload-outside-"));
+writeFileSync(path.join(dataDir, "inside.mp4"), Buffer.alloc(16, 1));
+writeFileSync(path.join(outsideDir, "outside.mp4"), Buffer.alloc(16, 1));
+// upload.js는 가져올 때 데이터 디렉터리를 읽으므로 먼저 설정
+process.env.TWELVELABS_DATA_DIR = dataDir;
+const { resolveLocalVideoFile, restrictReadsToDataDir } = await import("../src/upload.js");
+
+test("reads absolute paths outside the data directory only until restricted", async () => {
+  const outside = path.join(outsideDir, "outside.mp4");
+  assert.equal((await resolveLocalVideoFile(outside)).absolutePath, outside);
+  await assert.rejects(resolveLocalVideoFile("../outside.mp4"), /데이터 디렉터리/);
+
+  restrictReadsToDataDir();
+  await assert.rejects(resolveLocalVideoFile(outside), /데이터 디렉터리/);
+  assert.equal((await resolveLocalVideoFile(path.join(dataDir, "inside.mp4"))).fileName, "inside.mp4");
+  assert.equal((await resolveLocalVideoFile("inside.mp4")).fileName, "inside.mp4");
+});
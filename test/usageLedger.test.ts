@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createUsageLedger } from "../src/usageLedger.js";
+import { BudgetExceededError } from "../src/errors.js";
+
+/**
+ * 사용량 집계, 예산 카운터, 기록 파일 테스트.
+ */
+
+test("checks budgets per scope and rolling period", () => {
+  let time = Date.parse("2025-01-31T00:00:00Z");
+  const ledger = createUsageLedger(
+    {
+      budgets: [
+        { metric: "tokens", limit: 100, scope: "session" },
+        { metric: "searches", limit: 2, scope: "account", period: "hour" }
+      ]
+    },
+    () => time
+  );
+
+  ledger.record({ account: "a", session: "s1", tool: "generate_text", tokens: 100 });
+  assert.throws(() => ledger.checkBudgets("tokens", "a", "s1"), BudgetExceededError);
+  ledger.checkBudgets("tokens", "a", "s2");
+
+  ledger.record({ account: "a", session: "s1", tool: "search", searches: 1 });
+  ledger.record({ account: "a", session: "s2", tool: "search", searches: 1 });
+  assert.throws(() => ledger.checkBudgets("searches", "a", "s3"), /2 of 2 search requests used \(account scope, last hour\)/);
+  ledger.checkBudgets("searches", "b", "s1");
+
+  // 한 시간이 지나면 시간 예산은 다시 사용 가능
+  time += 61 * 60 * 1000;
+  ledger.checkBudgets("searches", "a", "s3");
+  assert.deepEqual(
+    ledger.budgetStatus("a", "s1").map((usage) => usage.used),
+    [100, 0]
+  );
+});
+
+test("aggregates reports and persists records asynchronously", async () => {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), "twelvelabs-usage-")), "usage.jsonl");
+  const ledger = createUsageLedger({ file });
+  ledger.record({ account: "a", session: "s1", tool: "generate_text", videoId: "v1", tokens: 10 });
+  ledger.record({ account: "a", session: "s1", tool: "generate_text", videoId: "v1", tokens: 5 });
+  ledger.record({ account: "a", session: "s2", tool: "search", searches: 1 });
+  ledger.record({ account: "b", session: "s1", tool: "search", searches: 1 });
+
+  const report = ledger.report({ account: "a", groupBy: "tool" });
+  assert.equal(report.totals.calls, 3);
+  assert.equal(report.totals.tokens, 15);
+  assert.deepEqual(
+    report.groups?.map((group) => [group.key, group.calls]),
+    [["generate_text", 2], ["search", 1]]
+  );
+
+  await ledger.flush();
+  assert.equal(readFileSync(file, "utf8").trim().split("\n").length, 4);
+  const reloaded = createUsageLedger({ file });
+  assert.equal(reloaded.report({ account: "a", session: "s1" }).totals.tokens, 15);
+});
+
+test("remembers which session submitted a task until its indexing is recorded", async () => {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), "twelvelabs-usage-")), "usage.jsonl");
+  const ledger = createUsageLedger({ file });
+  ledger.record({ account: "a", session: "s1", tool: "upload_videos", indexId: "i1", taskId: "t1" });
+  assert.equal(ledger.hasIndexedTask("a", "t1"), false);
+  await ledger.flush();
+
+  // 다시 시작해도 기록 파일에서 제출한 세션을 복원
+  const reloaded = createUsageLedger({ file });
+  assert.deepEqual(reloaded.taskSubmitter("a", "t1"), { session: "s1", tool: "upload_videos" });
+  reloaded.record({ account: "a", session: "s1", tool: "upload_videos", taskId: "t1", indexedSec: 90 });
+  assert.equal(reloaded.hasIndexedTask("a", "t1"), true);
+  assert.equal(reloaded.taskSubmitter("a", "t1"), undefined);
+});